@@ -0,0 +1,165 @@
+// Service worker: app shell, reference data and previously seen translations available offline.
+
+// Lists the hashed /assets/* files of this build (written by the precache-manifest plugin in vite.config.ts)
+importScripts('/precache-manifest.js');
+
+const SHELL_CACHE = 'creole-shell-v3';
+const DATA_CACHE = 'creole-data-v1';
+const TRANSLATION_CACHE = 'creole-translations-v1';
+const CACHES = [SHELL_CACHE, DATA_CACHE, TRANSLATION_CACHE];
+
+const SHELL_URLS = ['/index.html', '/config.json', '/manifest.webmanifest', '/icon.svg'];
+const BUILD_ASSETS = self.PRECACHE_ASSETS;
+// Every navigation (including ?text= share links) is the same single-page app, so it's cached once
+const SHELL_KEY = '/index.html';
+const MAX_CACHED_TRANSLATIONS = 500;
+const DATA_PATHS = ['/api/v1/languages', '/api/v1/voices'];
+const TRANSLATE_PATH = '/api/v1/translate';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll([...SHELL_URLS, ...BUILD_ASSETS]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => !CACHES.includes(key)).map((key) => caches.delete(key))))
+      .then(pruneStaleAssets)
+      .then(() => self.clients.claim())
+  );
+});
+
+// Hashed assets from earlier builds are never requested again once the new shell is active
+const pruneStaleAssets = async () => {
+  const cache = await caches.open(SHELL_CACHE);
+  const keys = await cache.keys();
+  await Promise.all(keys
+    .filter((key) => {
+      const { pathname } = new URL(key.url);
+      return pathname.startsWith('/assets/') && !BUILD_ASSETS.includes(pathname);
+    })
+    .map((key) => cache.delete(key)));
+};
+
+// Cache keys come back in insertion order, so the oldest entries are dropped first
+const trimCache = async (cache, maxEntries) => {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+};
+
+// Network first, falling back to the cached copy
+const networkFirst = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+// Navigations always store and fall back to the one shell entry
+const navigate = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(SHELL_KEY, response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = await cache.match(SHELL_KEY);
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+// Hashed build assets never change, so the cached copy always wins
+const cacheFirst = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+// Serve from cache immediately and refresh in the background
+const staleWhileRevalidate = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  const refresh = fetch(request)
+    .then((response) => {
+      if (response.ok) {
+        cache.put(request, response.clone());
+      }
+      return response;
+    })
+    .catch((err) => {
+      if (cached) return cached;
+      throw err;
+    });
+  return cached || refresh;
+};
+
+// POST responses cannot be cache keys, so translations are stored under a synthetic GET request
+const cachedTranslation = async (request) => {
+  const body = await request.clone().text();
+  const key = new Request(`${self.registration.scope}__translations__?${encodeURIComponent(body)}`);
+  const cache = await caches.open(TRANSLATION_CACHE);
+
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(key, response.clone()).then(() => trimCache(cache, MAX_CACHED_TRANSLATIONS));
+    }
+    return response;
+  } catch (err) {
+    const cached = await cache.match(key);
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method === 'POST' && url.pathname === TRANSLATE_PATH) {
+    event.respondWith(cachedTranslation(request));
+    return;
+  }
+
+  if (request.method !== 'GET') return;
+
+  if (DATA_PATHS.includes(url.pathname)) {
+    event.respondWith(staleWhileRevalidate(request, DATA_CACHE));
+    return;
+  }
+
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(navigate(request));
+    return;
+  }
+
+  if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+    return;
+  }
+
+  event.respondWith(networkFirst(request, SHELL_CACHE));
+});
@@ -1,4 +1,5 @@
 import React, { useState, useRef, useEffect } from 'react';
+import { useMutation } from '@tanstack/react-query';
 import { 
   Container, 
   Grid, 
@@ -18,7 +19,12 @@ import {
   Card,
   CardContent,
   IconButton,
-  Chip
+  Chip,
+  FormControlLabel,
+  LinearProgress,
+  Snackbar,
+  Switch,
+  Tooltip
 } from '@mui/material';
 import { 
   Translate,
@@ -27,219 +33,747 @@ import {
   VolumeUp,
   FileCopy,
   Refresh,
+  Forum,
+  History,
+  Star,
+  MenuBook,
+  GTranslate,
+  Subtitles,
+  ClosedCaption,
+  Spellcheck,
+  LiveTv,
+  Keyboard,
+  Share,
 } from '@mui/icons-material';
 import { useCreoleAPI } from './hooks/useCreoleAPI';
 import { useWebSocket } from './hooks/useWebSocket';
-import { TranscriptionResult } from './types/api';
+import { useAudioRecorder } from './hooks/useAudioRecorder';
+import { useHistory } from './hooks/useHistory';
+import { usePhrasebook } from './hooks/usePhrasebook';
+import { useRequestQueue } from './hooks/useRequestQueue';
+import { useConfig } from './hooks/useConfig';
+import { useI18n } from './hooks/useI18n';
+import { useGlossaries } from './hooks/useGlossaries';
+import { useGlossaryTranslation } from './hooks/useGlossaryTranslation';
+import { useCorrections } from './hooks/useCorrections';
+import { useSentenceSpeech } from './hooks/useSentenceSpeech';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { useAnnouncer } from './hooks/useAnnouncer';
+import { useRoute } from './hooks/useRoute';
+import { DEFAULT_VOICE, supportsVoice, useVoicePreferences } from './hooks/useVoicePreferences';
+import ConversationMode from './components/ConversationMode';
+import LiveCaptionsMode from './components/LiveCaptionsMode';
+import HistoryPanel from './components/HistoryPanel';
+import MultiTranslateMode from './components/MultiTranslateMode';
+import SubtitleMode from './components/SubtitleMode';
+import TimedTranscriptMode from './components/TimedTranscriptMode';
+import DetectedLanguageChip from './components/DetectedLanguageChip';
+import PhrasebookPanel from './components/PhrasebookPanel';
+import SavePhraseDialog from './components/SavePhraseDialog';
+import RequestQueuePanel from './components/RequestQueuePanel';
+import UiLanguageSwitcher from './components/UiLanguageSwitcher';
+import ServiceHealthPanel from './components/ServiceHealthPanel';
+import GlossaryPanel from './components/GlossaryPanel';
+import GlossaryReportView from './components/GlossaryReportView';
+import TranslationReview from './components/TranslationReview';
+import VoiceBrowser from './components/VoiceBrowser';
+import SpeechControls from './components/SpeechControls';
+import AudioPlayer from './components/AudioPlayer';
+import SentenceReader from './components/SentenceReader';
+import RecordingIndicator from './components/RecordingIndicator';
+import LiveAnnouncer from './components/LiveAnnouncer';
+import ShortcutHelpDialog from './components/ShortcutHelpDialog';
+import { CAPTURE_FORMAT, pcmToBase64 } from './utils/wav';
+import { speechFileName } from './utils/audio';
+import { splitSentences } from './utils/sentences';
+import { AUTO_DETECT } from './utils/languageDetection';
+import { translateWithGlossaries } from './utils/glossary';
+import { translateBySentence } from './utils/sentenceTranslation';
+import { displayLanguageName } from './i18n/format';
+import { buildShareUrl, MAX_SHARED_TEXT_LENGTH } from './utils/routes';
+import { describeError, isCancelled, NetworkError } from './api/errors';
+import { DetectedLanguage, TranscriptionResult } from './types/api';
+import { HistoryEntry } from './types/history';
+import { QueuedRequestResult } from './types/queue';
+import { GlossaryReport, GlossaryTerm } from './types/glossary';
+import { NewCorrection } from './types/review';
+import { AudioClip, SpeechSettings } from './types/tts';
+import { AppTab } from './types/routes';
+import { FeatureToggles } from './types/config';
+import { LocalizedMessage } from './types/i18n';
 
 interface TabPanelProps {
   children?: React.ReactNode;
-  index: number;
-  value: number;
+  tab: AppTab;
+  value: AppTab;
 }
 
 function TabPanel(props: TabPanelProps) {
-  const { children, value, index, ...other } = props;
+  const { children, value, tab, ...other } = props;
   return (
     <div
       role="tabpanel"
-      hidden={value !== index}
-      id={`simple-tabpanel-${index}`}
-      aria-labelledby={`simple-tab-${index}`}
+      hidden={value !== tab}
+      id={`tabpanel-${tab}`}
+      aria-labelledby={`tab-${tab}`}
+      tabIndex={-1}
+      style={{ outline: 'none' }}
       {...other}
     >
-      {value === index && <Box sx={{ p: 3 }}>{children}</Box>}
+      {value === tab && <Box sx={{ p: 3 }}>{children}</Box>}
     </div>
   );
 }
 
+const isTabEnabled = (tab: AppTab, features: FeatureToggles): boolean => {
+  switch (tab) {
+    case 'translate':
+      return true;
+    case 'speech':
+      return features.speechToText;
+    case 'tts':
+      return features.textToSpeech;
+    case 'captions':
+      return features.liveCaptions && features.streaming;
+    default:
+      return features[tab];
+  }
+};
+
+const tabProps = (tab: AppTab) => ({
+  value: tab,
+  id: `tab-${tab}`,
+  'aria-controls': `tabpanel-${tab}`
+});
+
+// Live translation waits for a pause in typing, and switches to per-sentence requests for long inputs
+const LIVE_TRANSLATE_DELAY_MS = 700;
+const LIVE_SENTENCE_MODE_LENGTH = 280;
+
 function App() {
-  const [activeTab, setActiveTab] = useState(0);
-  const [inputText, setInputText] = useState('');
+  const { streamingUrl, features, defaults, mock, review } = useConfig();
+  const { t } = useI18n();
+  const { route, navigate } = useRoute();
+
+  const [activeTab, setActiveTab] = useState<AppTab>(isTabEnabled(route.tab, features) ? route.tab : 'translate');
+  const [inputText, setInputText] = useState(route.text ?? '');
+  const [liveTranslate, setLiveTranslate] = useState(false);
   const [translatedText, setTranslatedText] = useState('');
-  const [sourceLanguage, setSourceLanguage] = useState('en');
-  const [targetLanguage, setTargetLanguage] = useState('ht');
-  const [isRecording, setIsRecording] = useState(false);
+  const [sourceLanguage, setSourceLanguage] = useState(route.sourceLanguage ?? defaults.sourceLanguage);
+  const [targetLanguage, setTargetLanguage] = useState(route.targetLanguage ?? defaults.targetLanguage);
   const [transcriptionResult, setTranscriptionResult] = useState<TranscriptionResult | null>(null);
-  const [selectedVoice, setSelectedVoice] = useState('default');
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [partialTranscript, setPartialTranscript] = useState('');
+  const [selectedVoice, setSelectedVoice] = useState(defaults.voice);
+  const [error, setError] = useState<LocalizedMessage | null>(null);
+  const [savePhraseOpen, setSavePhraseOpen] = useState(false);
+  const [textDetection, setTextDetection] = useState<DetectedLanguage | null>(null);
+  const [audioDetection, setAudioDetection] = useState<DetectedLanguage | null>(null);
+  // The machine output currently shown, kept so reviewer edits can be diffed and saved as corrections
+  const [machineResult, setMachineResult] = useState<Omit<NewCorrection, 'correctedTranslation'> | null>(null);
+  // The last correction saved for the current machine result, to tell whether there are unsaved edits
+  const [savedCorrection, setSavedCorrection] = useState<string | null>(null);
+  const [speechClip, setSpeechClip] = useState<AudioClip | null>(null);
+  const [glossaryCheck, setGlossaryCheck] = useState<{ report: GlossaryReport; terms: GlossaryTerm[] } | null>(null);
+  const [shortcutHelpOpen, setShortcutHelpOpen] = useState(false);
+  const [shareNotice, setShareNotice] = useState<string | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
+  // Set when a tab is opened by a shortcut or an action, so focus follows into the new panel
+  const panelFocusRef = useRef<AppTab | null>(null);
+  const routedTabRef = useRef(activeTab);
+  const lastAudioRef = useRef<{ file: File; label: string } | null>(null);
+  // Aborted whenever a newer translation starts so a slow, stale response can't overwrite it
+  const translationControllerRef = useRef<AbortController | null>(null);
 
   const { 
     translateText, 
+    translateTextBatch,
+    detectTextLanguage,
+    submitFeedback,
     transcribeAudio, 
+    detectLanguage,
     synthesizeText, 
+    previewVoice,
     languages, 
     voices, 
-    isConnected 
+    isConnected,
+    availability,
+    serviceStatus,
+    outages,
+    checkServiceHealth
   } = useCreoleAPI();
 
+  const {
+    entries: historyEntries,
+    error: historyError,
+    addEntry: addHistoryEntry,
+    deleteEntry: deleteHistoryEntry,
+    clearHistory,
+    exportHistory
+  } = useHistory();
+
+  const phrasebook = usePhrasebook(synthesizeText);
+  const glossary = useGlossaries();
+  // Everything outside the main view translates through this, so glossaries apply there too
+  const glossaryTranslation = useGlossaryTranslation({
+    translateText,
+    translateTextBatch,
+    getActiveGlossaries: glossary.getActiveGlossaries
+  });
+  const corrections = useCorrections({ submitFeedback, sendFeedback: review.sendFeedback });
+  const {
+    speechSettings,
+    getPreferredVoice,
+    setPreferredVoice,
+    updateSpeechSettings,
+    resetSpeechSettings
+  } = useVoicePreferences();
+  const sentenceSpeech = useSentenceSpeech(synthesizeText);
+  const { messages: announcements, announce } = useAnnouncer();
+
+  // Each operation tracks its own pending state so a slow transcription doesn't block translating
+  const translateMutation = useMutation({
+    mutationFn: ({ text, source, target, live, signal }: {
+      text: string;
+      source: string;
+      target: string;
+      live: boolean;
+      signal: AbortSignal;
+    }) => {
+      const translate = (t: string, s: string, tg: string) => translateText(t, s, tg, { signal });
+      return translateWithGlossaries(
+        text,
+        source,
+        target,
+        glossary.getActiveGlossaries(source, target),
+        live && text.length >= LIVE_SENTENCE_MODE_LENGTH
+          ? (t, s, tg) => translateBySentence(t, s, tg, translate)
+          : translate
+      );
+    }
+  });
+
+  const transcribeMutation = useMutation({
+    mutationFn: ({ file, language }: { file: File; language: string }) => transcribeAudio(file, language)
+  });
+
+  const synthesizeMutation = useMutation({
+    mutationFn: ({ text, language, voice, settings }: {
+      text: string;
+      language: string;
+      voice: string;
+      settings: SpeechSettings;
+    }) => synthesizeText(text, language, voice, settings)
+  });
+
+  // Switch to the remembered voice for the new language, or back to the default one when the current voice can't speak it
+  useEffect(() => {
+    if (voices.length === 0) return;
+    const preferred = getPreferredVoice(targetLanguage);
+    setSelectedVoice(current => {
+      if (preferred && supportsVoice(voices, targetLanguage, preferred)) return preferred;
+      return supportsVoice(voices, targetLanguage, current) ? current : DEFAULT_VOICE;
+    });
+  }, [targetLanguage, voices, getPreferredVoice]);
+
+  const handleSelectVoice = (voiceId: string) => {
+    setSelectedVoice(voiceId);
+    setPreferredVoice(targetLanguage, voiceId);
+  };
+
+  const handleQueuedRequestComplete = (completed: QueuedRequestResult) => {
+    if (completed.kind === 'translation') {
+      const { request, result } = completed;
+      addHistoryEntry({
+        kind: 'translation',
+        sourceLanguage: request.sourceLanguage,
+        targetLanguage: request.targetLanguage,
+        input: request.text,
+        output: result.translated_text,
+        confidence: result.confidence
+      });
+      if (request.text === inputText) {
+        setTranslatedText(result.translated_text);
+        announce(t('a11y.translationReady', { text: result.translated_text }));
+        setGlossaryCheck(null);
+        setMachineResult({
+          sourceLanguage: request.sourceLanguage,
+          targetLanguage: request.targetLanguage,
+          sourceText: request.text,
+          machineTranslation: result.translated_text,
+          confidence: result.confidence
+        });
+      }
+    } else {
+      setTranscriptionResult(completed.result);
+      recordTranscription(completed.result, completed.request.file.name);
+    }
+  };
+
+  const requestQueue = useRequestQueue({
+    availability,
+    translateText: glossaryTranslation.translateText,
+    transcribeAudio,
+    onComplete: handleQueuedRequestComplete
+  });
+
   const { 
     connect: connectWebSocket, 
     disconnect: disconnectWebSocket, 
     sendAudioChunk,
-    lastMessage,
+    sendConfig,
+    sendStop,
+    subscribe,
     isConnected: wsConnected 
-  } = useWebSocket('ws://localhost:8002/api/v1/stream');
+  } = useWebSocket(streamingUrl);
+
+  const {
+    isRecording,
+    startRecording: startCapture,
+    stopRecording: stopCapture
+  } = useAudioRecorder({
+    // Send real-time PCM frames to the WebSocket
+    onChunk: (chunk) => {
+      if (features.streaming && wsConnected) {
+        sendAudioChunk(pcmToBase64(chunk));
+      }
+    }
+  });
+
+  // Describe the audio format once the stream is open so the server can decode the frames
+  useEffect(() => {
+    if (wsConnected && isRecording) {
+      sendConfig({
+        language: sourceLanguage,
+        sample_rate: CAPTURE_FORMAT.sampleRate,
+        encoding: CAPTURE_FORMAT.encoding,
+        interim_results: true
+      });
+    }
+  }, [wsConnected, isRecording, sourceLanguage, sendConfig]);
 
   useEffect(() => {
-    if (lastMessage) {
-      const message = JSON.parse(lastMessage);
-      if (message.type === 'final_transcript') {
-        setTranscriptionResult({
-          text: message.data.text,
+    const unsubscribers = [
+      subscribe('partial_transcript', (message) => {
+        setPartialTranscript(message.data.text);
+      }),
+      // Finalized utterances accumulate until the recording stops
+      subscribe('final_transcript', (message) => {
+        setPartialTranscript('');
+        announce(message.data.text);
+        setTranscriptionResult(prev => ({
+          text: prev ? `${prev.text} ${message.data.text}`.trim() : message.data.text,
           language: message.data.language,
           confidence: message.data.confidence,
-          duration: 0
-        });
-      }
-    }
-  }, [lastMessage]);
+          duration: prev?.duration ?? 0
+        }));
+      })
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [subscribe, announce]);
+
+  useEffect(() => {
+    if (error) announce(t(error.key, error.params), 'assertive');
+  }, [error, announce, t]);
+
+  useEffect(() => {
+    if (panelFocusRef.current !== activeTab) return;
+    panelFocusRef.current = null;
+    document.getElementById(`tabpanel-${activeTab}`)?.focus();
+  }, [activeTab]);
+
+  // Back/forward restores the mode and languages recorded in the URL
+  useEffect(() => {
+    setActiveTab(isTabEnabled(route.tab, features) ? route.tab : 'translate');
+    if (route.sourceLanguage) setSourceLanguage(route.sourceLanguage);
+    if (route.targetLanguage) setTargetLanguage(route.targetLanguage);
+  }, [route, features]);
+
+  // Switching modes adds a history entry; changing languages only updates the current one.
+  // Shared text is read once on load and then dropped from the address bar.
+  useEffect(() => {
+    const replace = routedTabRef.current === activeTab;
+    routedTabRef.current = activeTab;
+    navigate({ tab: activeTab, sourceLanguage, targetLanguage }, { replace });
+  }, [activeTab, sourceLanguage, targetLanguage, navigate]);
+
+  // Every new machine result starts a new review
+  useEffect(() => {
+    setSavedCorrection(null);
+  }, [machineResult]);
+
+  const showTab = (tab: AppTab) => {
+    if (tab === activeTab) return;
+    panelFocusRef.current = tab;
+    setActiveTab(tab);
+  };
+
+  const runTranslation = async (text: string, source: string, target: string, live = false) => {
+    translationControllerRef.current?.abort();
+    const controller = new AbortController();
+    translationControllerRef.current = controller;
 
-  const handleTranslate = async () => {
-    if (!inputText.trim()) return;
-    
-    setIsLoading(true);
     setError(null);
-    
+    // Live updates keep the previous result on screen until the new one arrives
+    if (!live) {
+      setGlossaryCheck(null);
+      setMachineResult(null);
+    }
+
     try {
-      const result = await translateText(inputText, sourceLanguage, targetLanguage);
+      const { result, report } = await translateMutation.mutateAsync({
+        text,
+        source,
+        target,
+        live,
+        signal: controller.signal
+      });
+      if (controller.signal.aborted) return;
       setTranslatedText(result.translated_text);
+      announce(t('a11y.translationReady', { text: result.translated_text }));
+      setMachineResult({
+        sourceLanguage: source,
+        targetLanguage: target,
+        sourceText: text,
+        machineTranslation: result.translated_text,
+        confidence: result.confidence
+      });
+      setGlossaryCheck({
+        report,
+        terms: glossary.getActiveGlossaries(source, target).flatMap(item => item.terms)
+      });
+      // Only explicit translations are recorded; live updates would fill history with half-typed text
+      if (live) return;
+      addHistoryEntry({
+        kind: 'translation',
+        sourceLanguage: source,
+        targetLanguage: target,
+        input: text,
+        output: result.translated_text,
+        confidence: result.confidence
+      });
     } catch (err) {
-      setError('Translation failed. Please try again.');
+      if (isCancelled(err) || controller.signal.aborted) return;
+      // Offline: cached translations are answered by the service worker, anything else waits in the queue
+      if (!live && (!availability.translation || err instanceof NetworkError)) {
+        requestQueue.queueTranslation(text, source, target);
+      } else {
+        setError(describeError(err, 'errors.translationFailed'));
+      }
       console.error('Translation error:', err);
-    } finally {
-      setIsLoading(false);
     }
   };
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  const latestInputRef = useRef(inputText);
+  latestInputRef.current = inputText;
+
+  const handleTranslate = async (live = false) => {
+    const text = inputText;
+    if (!text.trim()) return;
+
+    let source = sourceLanguage;
+    if (source === AUTO_DETECT) {
+      const detection = await detectTextLanguage(text);
+      // Typing continued while the language was being detected
+      if (live && latestInputRef.current !== text) return;
+      setTextDetection(detection);
+      source = detection.detected_language;
+    } else {
+      setTextDetection(null);
+    }
+
+    await runTranslation(text, source, targetLanguage, live);
+  };
+
+  // The debounced call always runs the handler from the latest render
+  const handleTranslateRef = useRef(handleTranslate);
+  handleTranslateRef.current = handleTranslate;
+
+  // A shared link translates its text straight away
+  useEffect(() => {
+    if (route.text) handleTranslateRef.current();
+  }, [route.text]);
+
+  useEffect(() => {
+    if (!liveTranslate || !inputText.trim()) return;
+    const timer = window.setTimeout(() => handleTranslateRef.current(true), LIVE_TRANSLATE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [liveTranslate, inputText, sourceLanguage, targetLanguage]);
+
+  const handleOverrideTextLanguage = (language: string) => {
+    setSourceLanguage(language);
+    setTextDetection(null);
+    if (inputText.trim()) {
+      runTranslation(inputText, language, targetLanguage);
+    }
+  };
+
+  const recordTranscription = (result: TranscriptionResult, fileName: string) => {
+    addHistoryEntry({
+      kind: 'transcription',
+      sourceLanguage: result.language,
+      input: fileName,
+      output: result.text,
+      confidence: result.confidence
+    });
+  };
+
+  const handleRerunHistoryEntry = (entry: HistoryEntry) => {
+    showTab('translate');
+
+    if (entry.kind === 'transcription') {
+      setInputText(entry.output);
+      return;
+    }
+
+    setSourceLanguage(entry.sourceLanguage);
+    setTargetLanguage(entry.targetLanguage ?? targetLanguage);
+    setInputText(entry.input);
+    runTranslation(entry.input, entry.sourceLanguage, entry.targetLanguage ?? targetLanguage);
+  };
+
+  // Transcribes a file, detecting the spoken language first when the source is set to auto
+  const runTranscription = async (file: File, label: string, language: string = sourceLanguage) => {
+    lastAudioRef.current = { file, label };
+
+    if (!availability.stt) {
+      requestQueue.queueTranscription(file, language);
+      return;
+    }
 
-    setIsLoading(true);
     setError(null);
 
     try {
-      const result = await transcribeAudio(file, sourceLanguage);
+      let spokenLanguage = language;
+      if (language === AUTO_DETECT) {
+        const detection = await detectLanguage(file).catch((err) => {
+          console.error('Language detection error:', err);
+          return null;
+        });
+        setAudioDetection(detection && { ...detection, method: 'service' });
+        spokenLanguage = detection?.detected_language ?? AUTO_DETECT;
+      } else {
+        setAudioDetection(null);
+      }
+
+      const result = await transcribeMutation.mutateAsync({ file, language: spokenLanguage });
+      setPartialTranscript('');
       setTranscriptionResult(result);
       setInputText(result.text);
+      announce(t('a11y.transcriptionReady', { text: result.text }));
+      recordTranscription(result, label);
     } catch (err) {
-      setError('Transcription failed. Please try again.');
+      setError(describeError(err, 'errors.transcriptionFailed'));
       console.error('Transcription error:', err);
-    } finally {
-      setIsLoading(false);
     }
   };
 
+  const handleOverrideAudioLanguage = (language: string) => {
+    setAudioDetection(null);
+    if (lastAudioRef.current) {
+      runTranscription(lastAudioRef.current.file, lastAudioRef.current.label, language);
+    }
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    await runTranscription(file, file.name);
+  };
+
   const startRecording = async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      mediaRecorderRef.current = new MediaRecorder(stream);
-      audioChunksRef.current = [];
-
-      mediaRecorderRef.current.ondataavailable = (event) => {
-        audioChunksRef.current.push(event.data);
-        // Send real-time audio chunks to WebSocket
-        if (wsConnected) {
-          const reader = new FileReader();
-          reader.onload = () => {
-            const base64 = (reader.result as string).split(',')[1];
-            sendAudioChunk(base64);
-          };
-          reader.readAsDataURL(event.data);
-        }
-      };
-
-      mediaRecorderRef.current.onstop = async () => {
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/wav' });
-        const file = new File([audioBlob], 'recording.wav', { type: 'audio/wav' });
-        
-        try {
-          const result = await transcribeAudio(file, sourceLanguage);
-          setTranscriptionResult(result);
-          setInputText(result.text);
-        } catch (err) {
-          setError('Transcription failed. Please try again.');
-          console.error('Transcription error:', err);
-        }
-      };
-
-      connectWebSocket();
-      mediaRecorderRef.current.start(1000); // Send chunks every second
-      setIsRecording(true);
+      setTranscriptionResult(null);
+      setPartialTranscript('');
+      await startCapture();
+      announce(t('a11y.recordingStarted'));
+      // Without the socket the recording is still transcribed when it stops
+      if (availability.streaming) {
+        connectWebSocket();
+      }
     } catch (err) {
-      setError('Could not access microphone. Please check permissions.');
+      setError({ key: 'errors.microphone' });
       console.error('Recording error:', err);
     }
   };
 
-  const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop();
-      mediaRecorderRef.current.stream.getTracks().forEach(track => track.stop());
+  const stopRecording = async () => {
+    if (!isRecording) return;
+
+    let file: File;
+    try {
+      file = await stopCapture();
+      announce(t('a11y.recordingStopped'));
+    } catch (err) {
+      setError({ key: 'errors.recordingFailed' });
+      console.error('Recording error:', err);
+      return;
+    } finally {
+      if (wsConnected) {
+        sendStop();
+      }
       disconnectWebSocket();
-      setIsRecording(false);
     }
+
+    await runTranscription(file, t('speech.microphoneRecording'));
   };
 
   const handlePlaySpeech = async () => {
-    if (!translatedText.trim()) return;
+    // The Text to Speech tab falls back to the input when nothing has been translated yet
+    const text = translatedText || inputText;
+    if (!text.trim()) return;
 
-    setIsLoading(true);
     setError(null);
+    sentenceSpeech.clear();
+
+    // Longer texts are read sentence by sentence so playback starts as soon as the first chunk is ready
+    if (splitSentences(text).length > 1) {
+      setSpeechClip(null);
+      sentenceSpeech.speak(text, targetLanguage, selectedVoice, speechSettings);
+      return;
+    }
 
     try {
-      const audioBlob = await synthesizeText(translatedText, targetLanguage, selectedVoice);
-      const audioUrl = URL.createObjectURL(audioBlob);
-      const audio = new Audio(audioUrl);
-      audio.play();
+      const audioBlob = await synthesizeMutation.mutateAsync({
+        text,
+        language: targetLanguage,
+        voice: selectedVoice,
+        settings: speechSettings
+      });
+      setSpeechClip({
+        blob: audioBlob,
+        fileName: speechFileName(text, targetLanguage, selectedVoice, audioBlob.type)
+      });
     } catch (err) {
-      setError('Speech synthesis failed. Please try again.');
+      setError(describeError(err, 'errors.synthesisFailed'));
       console.error('TTS error:', err);
-    } finally {
-      setIsLoading(false);
     }
   };
 
-  const copyToClipboard = (text: string) => {
-    navigator.clipboard.writeText(text);
+  const handleSavePhrase = (category: string) => {
+    phrasebook.savePhrase({
+      category,
+      sourceLanguage: sourceLanguage === AUTO_DETECT
+        ? textDetection?.detected_language ?? AUTO_DETECT
+        : sourceLanguage,
+      targetLanguage,
+      sourceText: inputText,
+      translatedText,
+      voice: selectedVoice
+    });
+    setSavePhraseOpen(false);
+  };
+
+  const copyToClipboard = async (text: string) => {
+    await navigator.clipboard.writeText(text);
+    announce(t('a11y.copied'));
   };
 
+  const handleShareLink = async () => {
+    const text = inputText.trim();
+    const includeText = text.length <= MAX_SHARED_TEXT_LENGTH;
+    const url = buildShareUrl({
+      tab: 'translate',
+      sourceLanguage: sourceLanguage === AUTO_DETECT
+        ? textDetection?.detected_language ?? AUTO_DETECT
+        : sourceLanguage,
+      targetLanguage,
+      text: includeText ? text : undefined
+    });
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setShareNotice(t(includeText ? 'share.copied' : 'share.copiedWithoutText'));
+    } catch (err) {
+      setError({ key: 'errors.shareFailed' });
+      console.error('Share error:', err);
+    }
+  };
+
+  const handleSaveCorrection = async () => {
+    if (!machineResult) return;
+    await corrections.saveCorrection({ ...machineResult, correctedTranslation: translatedText });
+    setSavedCorrection(translatedText);
+  };
+
+  const isEdited = !!machineResult && translatedText !== machineResult.machineTranslation;
+  const isLiveUpdating = liveTranslate && translateMutation.isPending;
+  const isLowConfidence = !!machineResult && machineResult.confidence < review.confidenceThreshold;
+
+  const activeGlossaryCount = glossary.getActiveGlossaries(
+    sourceLanguage === AUTO_DETECT ? textDetection?.detected_language ?? '' : sourceLanguage,
+    targetLanguage
+  ).length;
+
   const swapLanguages = () => {
     setSourceLanguage(targetLanguage);
-    setTargetLanguage(sourceLanguage);
+    setTargetLanguage(sourceLanguage === AUTO_DETECT ? textDetection?.detected_language ?? 'en' : sourceLanguage);
+    setTextDetection(null);
+    setGlossaryCheck(null);
+    setMachineResult(null);
     setInputText(translatedText);
     setTranslatedText(inputText);
   };
 
+  useKeyboardShortcuts({
+    translate: () => {
+      showTab('translate');
+      handleTranslate();
+    },
+    swap: swapLanguages,
+    record: features.speechToText
+      ? () => {
+        showTab('speech');
+        if (isRecording) stopRecording();
+        else startRecording();
+      }
+      : undefined,
+    play: features.textToSpeech && availability.tts && !synthesizeMutation.isPending
+      ? handlePlaySpeech
+      : undefined,
+    help: () => setShortcutHelpOpen(true)
+  });
+
   return (
     <Container maxWidth="lg" sx={{ py: 4 }}>
+      <LiveAnnouncer messages={announcements} />
       <Paper elevation={3} sx={{ p: 3, mb: 3 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+          <Tooltip title={t('shortcuts.open')}>
+            <IconButton onClick={() => setShortcutHelpOpen(true)} aria-label={t('shortcuts.open')}>
+              <Keyboard />
+            </IconButton>
+          </Tooltip>
+          <UiLanguageSwitcher />
+        </Box>
         <Typography variant="h3" component="h1" gutterBottom align="center">
-          Creole Translation Platform
+          {t('app.title')}
         </Typography>
         <Typography variant="h6" color="text.secondary" align="center" sx={{ mb: 2 }}>
-          Professional translation, speech-to-text, and text-to-speech services
+          {t('app.subtitle')}
         </Typography>
         
-        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', gap: 2 }}>
-          <Chip 
-            label={isConnected ? 'Services Connected' : 'Services Disconnected'} 
-            color={isConnected ? 'success' : 'error'}
-            variant="outlined"
-          />
+        <ServiceHealthPanel
+          statuses={serviceStatus}
+          outages={outages}
+          monitorStreaming={features.streaming}
+          onCheckNow={checkServiceHealth}
+        />
+
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', gap: 2, mt: 2 }}>
+          {mock.enabled && (
+            <Chip label={t('app.demoMode')} color="warning" variant="outlined" />
+          )}
           <Chip 
-            label={`${languages.length} Languages`} 
+            label={t('app.languageCount', { count: languages.length })} 
             color="info"
             variant="outlined"
           />
           <Chip 
-            label={`${voices.length} Voices`} 
+            label={t('app.voiceCount', { count: voices.length })} 
             color="info"
             variant="outlined"
           />
@@ -247,86 +781,140 @@ function App() {
       </Paper>
 
       {error && (
-        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
-          {error}
+        // Announced through the live region; a second alert role would read it twice
+        <Alert severity="error" role="none" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {t(error.key, error.params)}
         </Alert>
       )}
 
+      <RequestQueuePanel
+        items={requestQueue.items}
+        isConnected={isConnected}
+        onRetry={requestQueue.retry}
+        onRemove={requestQueue.removeItem}
+      />
+
       <Paper elevation={2}>
         <Tabs 
           value={activeTab} 
           onChange={(_, newValue) => setActiveTab(newValue)}
-          centered
+          variant="scrollable"
+          scrollButtons="auto"
           sx={{ borderBottom: 1, borderColor: 'divider' }}
         >
-          <Tab label="Text Translation" icon={<Translate />} />
-          <Tab label="Speech to Text" icon={<Mic />} />
-          <Tab label="Text to Speech" icon={<VolumeUp />} />
+          <Tab {...tabProps('translate')} label={t('tabs.translate')} icon={<Translate />} />
+          {features.speechToText && <Tab {...tabProps('speech')} label={t('tabs.speech')} icon={<Mic />} />}
+          {features.textToSpeech && <Tab {...tabProps('tts')} label={t('tabs.tts')} icon={<VolumeUp />} />}
+          {features.conversation && <Tab {...tabProps('conversation')} label={t('tabs.conversation')} icon={<Forum />} />}
+          {features.liveCaptions && features.streaming && (
+            <Tab {...tabProps('captions')} label={t('tabs.captions')} icon={<LiveTv />} />
+          )}
+          {features.history && <Tab {...tabProps('history')} label={t('tabs.history')} icon={<History />} />}
+          {features.phrasebook && <Tab {...tabProps('phrasebook')} label={t('tabs.phrasebook')} icon={<MenuBook />} />}
+          {features.multiTarget && <Tab {...tabProps('multiTarget')} label={t('tabs.multiTarget')} icon={<GTranslate />} />}
+          {features.subtitles && <Tab {...tabProps('subtitles')} label={t('tabs.subtitles')} icon={<Subtitles />} />}
+          {features.timedTranscript && <Tab {...tabProps('timedTranscript')} label={t('tabs.timedTranscript')} icon={<ClosedCaption />} />}
+          {features.glossary && <Tab {...tabProps('glossary')} label={t('tabs.glossary')} icon={<Spellcheck />} />}
         </Tabs>
 
-        <TabPanel value={activeTab} index={0}>
+        <TabPanel value={activeTab} tab="translate">
           <Grid container spacing={3}>
             <Grid item xs={12} md={6}>
               <Card>
                 <CardContent>
                   <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
                     <FormControl sx={{ minWidth: 120, mr: 2 }}>
-                      <InputLabel>From</InputLabel>
+                      <InputLabel id="translate-source-label">{t('common.from')}</InputLabel>
                       <Select
+                        labelId="translate-source-label"
                         value={sourceLanguage}
-                        onChange={(e) => setSourceLanguage(e.target.value)}
-                        label="From"
+                        onChange={(e) => {
+                          setSourceLanguage(e.target.value);
+                          setTextDetection(null);
+                        }}
+                        label={t('common.from')}
                       >
+                        <MenuItem value={AUTO_DETECT}>{t('common.autoDetect')}</MenuItem>
                         {languages.map((lang) => (
                           <MenuItem key={lang.code} value={lang.code}>
-                            {lang.name}
+                            {displayLanguageName(lang)}
                           </MenuItem>
                         ))}
                       </Select>
                     </FormControl>
-                    <IconButton onClick={swapLanguages} color="primary">
-                      <Refresh />
-                    </IconButton>
+                    <Tooltip title={t('a11y.swapLanguages')}>
+                      <IconButton onClick={swapLanguages} color="primary" aria-label={t('a11y.swapLanguages')}>
+                        <Refresh />
+                      </IconButton>
+                    </Tooltip>
                     <FormControl sx={{ minWidth: 120, ml: 2 }}>
-                      <InputLabel>To</InputLabel>
+                      <InputLabel id="translate-target-label">{t('common.to')}</InputLabel>
                       <Select
+                        labelId="translate-target-label"
                         value={targetLanguage}
                         onChange={(e) => setTargetLanguage(e.target.value)}
-                        label="To"
+                        label={t('common.to')}
                       >
                         {languages.map((lang) => (
                           <MenuItem key={lang.code} value={lang.code}>
-                            {lang.name}
+                            {displayLanguageName(lang)}
                           </MenuItem>
                         ))}
                       </Select>
                     </FormControl>
                   </Box>
+
+                  {textDetection && sourceLanguage === AUTO_DETECT && (
+                    <DetectedLanguageChip
+                      detection={textDetection}
+                      languages={languages}
+                      onOverride={handleOverrideTextLanguage}
+                    />
+                  )}
                   
                   <TextField
                     fullWidth
                     multiline
                     rows={6}
                     variant="outlined"
-                    placeholder="Enter text to translate..."
+                    placeholder={t('translate.placeholder')}
                     value={inputText}
                     onChange={(e) => setInputText(e.target.value)}
+                    inputProps={{ 'aria-label': t('a11y.inputText') }}
                     sx={{ mb: 2 }}
                   />
                   
                   <Box sx={{ display: 'flex', gap: 1 }}>
                     <Button
                       variant="contained"
-                      onClick={handleTranslate}
-                      disabled={isLoading || !inputText.trim()}
-                      startIcon={isLoading ? <CircularProgress size={20} /> : <Translate />}
+                      onClick={() => handleTranslate()}
+                      disabled={!inputText.trim() || (translateMutation.isPending && !liveTranslate)}
+                      startIcon={translateMutation.isPending && !liveTranslate ? <CircularProgress size={20} /> : <Translate />}
                       sx={{ flexGrow: 1 }}
                     >
-                      {isLoading ? 'Translating...' : 'Translate'}
+                      {translateMutation.isPending && !liveTranslate ? t('translate.translating') : t('translate.translate')}
                     </Button>
-                    <IconButton onClick={() => copyToClipboard(inputText)}>
-                      <FileCopy />
-                    </IconButton>
+                    <FormControlLabel
+                      control={
+                        <Switch
+                          checked={liveTranslate}
+                          onChange={(e) => setLiveTranslate(e.target.checked)}
+                        />
+                      }
+                      label={t('translate.live')}
+                      sx={{ mr: 0 }}
+                    />
+                    <Tooltip title={t('a11y.copyInput')}>
+                      <span>
+                        <IconButton
+                          onClick={() => copyToClipboard(inputText)}
+                          disabled={!inputText}
+                          aria-label={t('a11y.copyInput')}
+                        >
+                          <FileCopy />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
                   </Box>
                 </CardContent>
               </Card>
@@ -335,48 +923,167 @@ function App() {
             <Grid item xs={12} md={6}>
               <Card>
                 <CardContent>
-                  <Typography variant="h6" gutterBottom>
-                    Translation Result
-                  </Typography>
-                  
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                    <Typography variant="h6" sx={{ flexGrow: 1 }}>
+                      {t('translate.result')}
+                    </Typography>
+                    {activeGlossaryCount > 0 && (
+                      <Chip
+                        size="small"
+                        icon={<Spellcheck />}
+                        label={t('translate.glossariesActive', { count: activeGlossaryCount })}
+                        variant="outlined"
+                      />
+                    )}
+                    {machineResult && (
+                      <Chip
+                        size="small"
+                        label={t('common.confident', { percent: Math.round(machineResult.confidence * 100) })}
+                        color={isLowConfidence ? 'warning' : 'success'}
+                      />
+                    )}
+                  </Box>
+                  <LinearProgress sx={{ height: 2, mb: 1, visibility: isLiveUpdating ? 'visible' : 'hidden' }} />
+
                   <TextField
                     fullWidth
                     multiline
                     rows={6}
                     variant="outlined"
                     value={translatedText}
-                    InputProps={{ readOnly: true }}
-                    sx={{ mb: 2 }}
+                    onChange={(e) => setTranslatedText(e.target.value)}
+                    inputProps={{ 'aria-label': t('a11y.resultText') }}
+                    helperText={isLowConfidence && !isEdited
+                      ? t('translate.lowConfidence')
+                      : undefined}
+                    sx={{
+                      mb: 2,
+                      opacity: isLiveUpdating ? 0.6 : 1,
+                      transition: 'opacity 0.2s',
+                      ...(isLowConfidence && {
+                        '& .MuiOutlinedInput-notchedOutline': { borderColor: 'warning.main', borderWidth: 2 },
+                        '& .MuiFormHelperText-root': { color: 'warning.dark' }
+                      })
+                    }}
                   />
+
+                  {glossaryCheck && !isEdited && (
+                    <GlossaryReportView
+                      text={translatedText}
+                      report={glossaryCheck.report}
+                      terms={glossaryCheck.terms}
+                    />
+                  )}
                   
                   <Box sx={{ display: 'flex', gap: 1 }}>
-                    <Button
-                      variant="outlined"
-                      onClick={handlePlaySpeech}
-                      disabled={!translatedText.trim() || isLoading}
-                      startIcon={<VolumeUp />}
-                      sx={{ flexGrow: 1 }}
-                    >
-                      Play Audio
-                    </Button>
-                    <IconButton onClick={() => copyToClipboard(translatedText)}>
-                      <FileCopy />
-                    </IconButton>
+                    {features.textToSpeech && (
+                      <Button
+                        variant="outlined"
+                        onClick={handlePlaySpeech}
+                        disabled={!translatedText.trim() || synthesizeMutation.isPending || !availability.tts}
+                        startIcon={<VolumeUp />}
+                        sx={{ flexGrow: 1 }}
+                      >
+                        {t('translate.playAudio')}
+                      </Button>
+                    )}
+                    <Tooltip title={t('a11y.copyResult')}>
+                      <span>
+                        <IconButton
+                          onClick={() => copyToClipboard(translatedText)}
+                          disabled={!translatedText}
+                          aria-label={t('a11y.copyResult')}
+                        >
+                          <FileCopy />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    <Tooltip title={t('share.copyLink')}>
+                      <span>
+                        <IconButton
+                          onClick={handleShareLink}
+                          disabled={!inputText.trim()}
+                          aria-label={t('share.copyLink')}
+                        >
+                          <Share />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    {features.phrasebook && (
+                      <Tooltip title={t('a11y.savePhrase')}>
+                        <span>
+                          <IconButton
+                            onClick={() => setSavePhraseOpen(true)}
+                            disabled={!translatedText.trim()}
+                            color="warning"
+                            aria-label={t('a11y.savePhrase')}
+                          >
+                            <Star />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    )}
                   </Box>
+
+                  {speechClip && (
+                    <Box sx={{ mt: 1 }}>
+                      <AudioPlayer clip={speechClip} autoPlay />
+                    </Box>
+                  )}
+                  {sentenceSpeech.sentences.length > 0 && (
+                    <Box sx={{ mt: 2 }}>
+                      <SentenceReader speech={sentenceSpeech} />
+                    </Box>
+                  )}
+
+                  {machineResult && (
+                    <TranslationReview
+                      machineTranslation={machineResult.machineTranslation}
+                      correctedTranslation={translatedText}
+                      isSaved={translatedText === savedCorrection}
+                      correctionCount={corrections.corrections.length}
+                      failedFeedbackCount={corrections.corrections.filter(item => item.feedbackStatus === 'failed').length}
+                      onSave={handleSaveCorrection}
+                      onRevert={() => setTranslatedText(machineResult.machineTranslation)}
+                      onExport={corrections.exportCorrections}
+                      onRetryFeedback={corrections.retryFeedback}
+                    />
+                  )}
                 </CardContent>
               </Card>
             </Grid>
           </Grid>
         </TabPanel>
 
-        <TabPanel value={activeTab} index={1}>
+        <TabPanel value={activeTab} tab="speech">
           <Grid container spacing={3}>
             <Grid item xs={12} md={6}>
               <Card>
                 <CardContent>
                   <Typography variant="h6" gutterBottom>
-                    Audio Input
+                    {t('speech.audioInput')}
                   </Typography>
+
+                  <FormControl fullWidth sx={{ mb: 2 }}>
+                    <InputLabel id="speech-language-label">{t('speech.spokenLanguage')}</InputLabel>
+                    <Select
+                      labelId="speech-language-label"
+                      value={sourceLanguage}
+                      onChange={(e) => {
+                        setSourceLanguage(e.target.value);
+                        setAudioDetection(null);
+                      }}
+                      label={t('speech.spokenLanguage')}
+                      disabled={isRecording}
+                    >
+                      <MenuItem value={AUTO_DETECT}>{t('common.autoDetect')}</MenuItem>
+                      {languages.map((lang) => (
+                        <MenuItem key={lang.code} value={lang.code}>
+                          {displayLanguageName(lang)}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
                   
                   <Box sx={{ display: 'flex', flex: 1, gap: 2, mb: 3 }}>
                     <Button
@@ -386,7 +1093,7 @@ function App() {
                       color={isRecording ? 'error' : 'primary'}
                       sx={{ flexGrow: 1 }}
                     >
-                      {isRecording ? 'Stop Recording' : 'Start Recording'}
+                      {isRecording ? t('speech.stopRecording') : t('speech.startRecording')}
                     </Button>
                     
                     <input
@@ -399,24 +1106,23 @@ function App() {
                     <Button
                       variant="outlined"
                       onClick={() => fileInputRef.current?.click()}
-                      disabled={isLoading}
+                      disabled={transcribeMutation.isPending}
                     >
-                      Upload File
+                      {t('speech.uploadFile')}
                     </Button>
                   </Box>
 
-                  {isRecording && (
-                    <Box sx={{ textAlign: 'center', mb: 2 }}>
-                      <CircularProgress />
-                      <Typography variant="body2" color="text.secondary">
-                        Recording... Speak clearly into your microphone
-                      </Typography>
-                    </Box>
+                  {features.streaming && !availability.streaming && (
+                    <Alert severity="warning" sx={{ mb: 2 }}>
+                      {t('speech.streamingUnavailable')}
+                    </Alert>
                   )}
 
+                  {isRecording && <RecordingIndicator label={t('speech.recording')} />}
+
                   {wsConnected && (
                     <Alert severity="info" sx={{ mb: 2 }}>
-                      Real-time transcription active
+                      {t('speech.realtimeActive')}
                     </Alert>
                   )}
                 </CardContent>
@@ -427,13 +1133,32 @@ function App() {
               <Card>
                 <CardContent>
                   <Typography variant="h6" gutterBottom>
-                    Transcription Result
+                    {t('speech.result')}
                   </Typography>
                   
+                  {!transcriptionResult && partialTranscript && (
+                    <Typography variant="body1" color="text.secondary" sx={{ mb: 2, fontStyle: 'italic' }}>
+                      {partialTranscript}
+                    </Typography>
+                  )}
+
+                  {audioDetection && sourceLanguage === AUTO_DETECT && (
+                    <DetectedLanguageChip
+                      detection={audioDetection}
+                      languages={languages}
+                      onOverride={handleOverrideAudioLanguage}
+                    />
+                  )}
+
                   {transcriptionResult && (
                     <Box sx={{ mb: 2 }}>
                       <Typography variant="body1" sx={{ mb: 1 }}>
                         {transcriptionResult.text}
+                        {partialTranscript && (
+                          <Typography component="span" color="text.secondary" sx={{ fontStyle: 'italic' }}>
+                            {' '}{partialTranscript}
+                          </Typography>
+                        )}
                       </Typography>
                       <Box sx={{ display: 'flex', gap: 1 }}>
                         <Chip 
@@ -442,7 +1167,7 @@ function App() {
                           color="primary"
                         />
                         <Chip 
-                          label={`${Math.round(transcriptionResult.confidence * 100)}% confident`} 
+                          label={t('common.confident', { percent: Math.round(transcriptionResult.confidence * 100) })} 
                           size="small" 
                           color="success"
                         />
@@ -456,7 +1181,7 @@ function App() {
                     disabled={!transcriptionResult}
                     fullWidth
                   >
-                    Use for Translation
+                    {t('speech.useForTranslation')}
                   </Button>
                 </CardContent>
               </Card>
@@ -464,75 +1189,213 @@ function App() {
           </Grid>
         </TabPanel>
 
-        <TabPanel value={activeTab} index={2}>
+        <TabPanel value={activeTab} tab="tts">
           <Grid container spacing={3}>
             <Grid item xs={12}>
               <Card>
                 <CardContent>
                   <Typography variant="h6" gutterBottom>
-                    Text-to-Speech Settings
+                    {t('tts.settings')}
                   </Typography>
                   
-                  <Box sx={{ display: 'flex', gap: 2, mb: 3 }}>
+                  <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
                     <FormControl sx={{ minWidth: 150 }}>
-                      <InputLabel>Language</InputLabel>
+                      <InputLabel id="tts-language-label">{t('common.language')}</InputLabel>
                       <Select
+                        labelId="tts-language-label"
                         value={targetLanguage}
                         onChange={(e) => setTargetLanguage(e.target.value)}
-                        label="Language"
+                        label={t('common.language')}
                       >
                         {languages.map((lang) => (
                           <MenuItem key={lang.code} value={lang.code}>
-                            {lang.name}
+                            {displayLanguageName(lang)}
                           </MenuItem>
                         ))}
                       </Select>
                     </FormControl>
-                    
-                    <FormControl sx={{ minWidth: 150 }}>
-                      <InputLabel>Voice</InputLabel>
-                      <Select
-                        value={selectedVoice}
-                        onChange={(e) => setSelectedVoice(e.target.value)}
-                        label="Voice"
-                      >
-                        {voices
-                          .filter(voice => voice.language === targetLanguage)
-                          .map((voice) => (
-                            <MenuItem key={voice.id} value={voice.id}>
-                              {voice.name} ({voice.gender})
-                            </MenuItem>
-                          ))}
-                      </Select>
-                    </FormControl>
                   </Box>
 
+                  <Typography variant="subtitle2" gutterBottom>
+                    {t('tts.voice')}
+                  </Typography>
+                  <VoiceBrowser
+                    voices={voices}
+                    language={targetLanguage}
+                    selectedVoice={selectedVoice}
+                    onSelect={handleSelectVoice}
+                    previewVoice={previewVoice}
+                    previewDisabled={!availability.tts}
+                  />
+
+                  <Typography variant="subtitle2" gutterBottom sx={{ mt: 2 }}>
+                    {t('tts.delivery')}
+                  </Typography>
+                  <SpeechControls
+                    settings={speechSettings}
+                    onChange={updateSpeechSettings}
+                    onReset={resetSpeechSettings}
+                  />
+
                   <TextField
                     fullWidth
                     multiline
                     rows={4}
                     variant="outlined"
-                    placeholder="Enter text to synthesize..."
+                    placeholder={t('tts.placeholder')}
                     value={translatedText || inputText}
                     onChange={(e) => setTranslatedText(e.target.value)}
+                    inputProps={{ 'aria-label': t('a11y.ttsText') }}
                     sx={{ mb: 2 }}
                   />
 
                   <Button
                     variant="contained"
                     onClick={handlePlaySpeech}
-                    disabled={!(translatedText || inputText).trim() || isLoading}
-                    startIcon={isLoading ? <CircularProgress size={20} /> : <VolumeUp />}
+                    disabled={!(translatedText || inputText).trim() || synthesizeMutation.isPending || !availability.tts}
+                    startIcon={synthesizeMutation.isPending ? <CircularProgress size={20} /> : <VolumeUp />}
                     fullWidth
                   >
-                    {isLoading ? 'Generating...' : 'Generate Speech'}
+                    {synthesizeMutation.isPending ? t('tts.generating') : t('tts.generate')}
                   </Button>
+                  {speechClip && (
+                    <Box sx={{ mt: 2 }}>
+                      <AudioPlayer clip={speechClip} autoPlay />
+                    </Box>
+                  )}
+                  {sentenceSpeech.sentences.length > 0 && (
+                    <Box sx={{ mt: 2 }}>
+                      <SentenceReader speech={sentenceSpeech} />
+                    </Box>
+                  )}
+                  {!availability.tts && (
+                    <Typography variant="caption" color="error" display="block" sx={{ mt: 1 }}>
+                      {t('tts.unavailable')}
+                    </Typography>
+                  )}
                 </CardContent>
               </Card>
             </Grid>
           </Grid>
         </TabPanel>
+
+        <TabPanel value={activeTab} tab="conversation">
+          <ConversationMode
+            languages={languages}
+            voices={voices}
+            transcribeAudio={transcribeAudio}
+            translateText={glossaryTranslation.translateText}
+            synthesizeText={synthesizeText}
+            sttAvailable={availability.stt}
+            translationAvailable={availability.translation}
+            ttsAvailable={availability.tts}
+            onTurnTranslated={addHistoryEntry}
+          />
+        </TabPanel>
+
+        <TabPanel value={activeTab} tab="history">
+          <HistoryPanel
+            entries={historyEntries}
+            error={historyError}
+            onRerun={handleRerunHistoryEntry}
+            onDelete={deleteHistoryEntry}
+            onClear={clearHistory}
+            onExport={exportHistory}
+          />
+        </TabPanel>
+
+        <TabPanel value={activeTab} tab="phrasebook">
+          <PhrasebookPanel
+            phrases={phrasebook.phrases}
+            categories={phrasebook.categories}
+            error={phrasebook.error}
+            getPhraseAudio={phrasebook.getPhraseAudio}
+            onUpdate={phrasebook.updatePhrase}
+            onDelete={phrasebook.deletePhrase}
+            onExport={phrasebook.exportPhrasebook}
+            onImport={phrasebook.importPhrasebook}
+          />
+        </TabPanel>
+
+        <TabPanel value={activeTab} tab="captions">
+          <LiveCaptionsMode
+            languages={languages}
+            voices={voices}
+            streamingUrl={streamingUrl}
+            translateText={glossaryTranslation.translateText}
+            synthesizeText={synthesizeText}
+            streamingAvailable={availability.streaming}
+            ttsAvailable={availability.tts}
+            onSessionSaved={(entries) => entries.forEach(addHistoryEntry)}
+          />
+        </TabPanel>
+
+        <TabPanel value={activeTab} tab="multiTarget">
+          <MultiTranslateMode
+            languages={languages}
+            translateText={glossaryTranslation.translateText}
+            translateTextBatch={glossaryTranslation.translateTextBatch}
+            synthesizeText={synthesizeText}
+            translationAvailable={availability.translation}
+            ttsAvailable={availability.tts}
+            onTranslated={addHistoryEntry}
+          />
+        </TabPanel>
+
+        <TabPanel value={activeTab} tab="subtitles">
+          <SubtitleMode
+            languages={languages}
+            translateText={glossaryTranslation.translateText}
+            translationAvailable={availability.translation}
+          />
+        </TabPanel>
+
+        <TabPanel value={activeTab} tab="timedTranscript">
+          <TimedTranscriptMode
+            languages={languages}
+            transcribeAudio={transcribeAudio}
+            translateText={glossaryTranslation.translateText}
+            sttAvailable={availability.stt}
+            translationAvailable={availability.translation}
+            onTranscribed={recordTranscription}
+          />
+        </TabPanel>
+
+        <TabPanel value={activeTab} tab="glossary">
+          <GlossaryPanel
+            glossaries={glossary.glossaries}
+            activeIds={glossary.activeIds}
+            languages={languages}
+            error={glossary.error}
+            onCreate={glossary.createGlossary}
+            onDelete={glossary.deleteGlossary}
+            onSetActive={glossary.setGlossaryActive}
+            onAddTerm={glossary.addTerm}
+            onUpdateTerm={glossary.updateTerm}
+            onRemoveTerm={glossary.removeTerm}
+            onImport={glossary.importGlossary}
+            onExport={glossary.exportGlossary}
+          />
+        </TabPanel>
       </Paper>
+
+      <SavePhraseDialog
+        open={savePhraseOpen}
+        sourceText={inputText}
+        translatedText={translatedText}
+        categories={phrasebook.categories}
+        onClose={() => setSavePhraseOpen(false)}
+        onSave={handleSavePhrase}
+      />
+
+      <ShortcutHelpDialog open={shortcutHelpOpen} onClose={() => setShortcutHelpOpen(false)} />
+
+      <Snackbar
+        open={shareNotice !== null}
+        message={shareNotice}
+        autoHideDuration={4000}
+        onClose={() => setShareNotice(null)}
+      />
     </Container>
   );
 }
@@ -0,0 +1,221 @@
+import {
+  Language,
+  Voice,
+  TranslationRequest,
+  TranslationResult,
+  LanguageDetectionResult,
+  BatchTranslationRequest,
+  BatchTranslationResult,
+  TranslationFeedback,
+  TranscriptionResult,
+  TranscriptionTimestamps,
+  SynthesisRequest,
+  ServiceHealth,
+  ServiceName,
+  APIError
+} from '../types/api';
+import {
+  NetworkError,
+  TimeoutError,
+  RequestCancelledError,
+  errorFromResponse,
+  isRetryable
+} from './errors';
+
+export interface ClientConfig {
+  baseUrls: Record<ServiceName, string>;
+  timeoutMs?: number;
+  retries?: number;
+  retryDelayMs?: number;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+interface InternalRequestOptions extends RequestOptions {
+  method?: 'GET' | 'POST';
+  body?: BodyInit;
+  json?: unknown;
+  idempotent?: boolean;
+  responseType?: 'json' | 'blob';
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 8000;
+
+// The abort listener is removed once the delay ends so long-lived signals don't collect them
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const parseErrorResponse = async (response: Response): Promise<APIError> => {
+  const fallback: APIError = {
+    error: `HTTP ${response.status}: ${response.statusText}`,
+    status_code: response.status,
+    timestamp: new Date().toISOString()
+  };
+  const data = await response.json().catch(() => null);
+  return data && typeof data.error === 'string' ? { ...fallback, ...data, status_code: response.status } : fallback;
+};
+
+export const createCreoleClient = (config: ClientConfig) => {
+  const {
+    baseUrls,
+    timeoutMs: defaultTimeoutMs = DEFAULT_TIMEOUT_MS,
+    retries: defaultRetries = DEFAULT_RETRIES,
+    retryDelayMs = DEFAULT_RETRY_DELAY_MS
+  } = config;
+
+  // One attempt: wires the caller's signal and the timeout into a single AbortController
+  const attempt = async <T>(service: ServiceName, path: string, options: InternalRequestOptions): Promise<T> => {
+    const { signal, method = 'GET', body, json, responseType = 'json' } = options;
+    const timeoutMs = options.timeoutMs ?? defaultTimeoutMs;
+
+    if (signal?.aborted) {
+      throw new RequestCancelledError(service);
+    }
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = window.setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(`${baseUrls[service]}${path}`, {
+          method,
+          signal: controller.signal,
+          headers: json !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+          body: json !== undefined ? JSON.stringify(json) : body
+        });
+      } catch (err) {
+        if (timedOut) throw new TimeoutError(service, timeoutMs);
+        if (signal?.aborted) throw new RequestCancelledError(service);
+        throw new NetworkError(service, err);
+      }
+
+      if (!response.ok) {
+        throw errorFromResponse(await parseErrorResponse(response), service);
+      }
+
+      return (responseType === 'blob' ? await response.blob() : await response.json()) as T;
+    } finally {
+      window.clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+  };
+
+  // Retries idempotent calls on network failures, timeouts, 429 and 5xx with exponential backoff
+  const request = async <T>(service: ServiceName, path: string, options: InternalRequestOptions = {}): Promise<T> => {
+    const idempotent = options.idempotent ?? (options.method ?? 'GET') === 'GET';
+    const retries = idempotent ? options.retries ?? defaultRetries : 0;
+
+    for (let attemptNumber = 0; ; attemptNumber++) {
+      try {
+        return await attempt<T>(service, path, options);
+      } catch (err) {
+        if (attemptNumber >= retries || !isRetryable(err)) {
+          throw err;
+        }
+        const delay = Math.min(MAX_RETRY_DELAY_MS, retryDelayMs * 2 ** attemptNumber) * (0.8 + Math.random() * 0.4);
+        try {
+          await sleep(delay, options.signal);
+        } catch {
+          throw new RequestCancelledError(service);
+        }
+      }
+    }
+  };
+
+  return {
+    health: (service: ServiceName, options?: RequestOptions) =>
+      request<ServiceHealth>(service, '/health', { retries: 0, timeoutMs: 5000, ...options }),
+
+    getLanguages: (options?: RequestOptions) =>
+      request<{ supported_languages: Language[] }>('translation', '/api/v1/languages', options),
+
+    getVoices: (options?: RequestOptions) =>
+      request<{ voices: Voice[] }>('tts', '/api/v1/voices', options),
+
+    // Translation and detection are side-effect free, so they are safe to retry
+    translate: (payload: TranslationRequest, options?: RequestOptions) =>
+      request<TranslationResult>('translation', '/api/v1/translate', {
+        ...options, method: 'POST', json: payload, idempotent: true
+      }),
+
+    translateBatch: (payload: BatchTranslationRequest, options?: RequestOptions) =>
+      request<BatchTranslationResult>('translation', '/api/v1/translate/batch', {
+        ...options, method: 'POST', json: payload, idempotent: true
+      }),
+
+    submitFeedback: (payload: TranslationFeedback, options?: RequestOptions) =>
+      request<{ id?: string }>('translation', '/api/v1/feedback', {
+        ...options, method: 'POST', json: payload
+      }),
+
+    detectText: (text: string, options?: RequestOptions) =>
+      request<LanguageDetectionResult>('translation', '/api/v1/detect', {
+        ...options, method: 'POST', json: { text }, idempotent: true
+      }),
+
+    transcribe: (
+      file: File,
+      language: string,
+      timestamps: TranscriptionTimestamps = 'none',
+      options?: RequestOptions
+    ) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('language', language);
+      if (timestamps !== 'none') {
+        formData.append('timestamps', timestamps);
+      }
+      return request<TranscriptionResult>('stt', '/api/v1/transcribe', {
+        timeoutMs: 120000, ...options, method: 'POST', body: formData
+      });
+    },
+
+    detectAudioLanguage: (file: File, options?: RequestOptions) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      return request<LanguageDetectionResult>('stt', '/api/v1/detect-language', {
+        ...options, method: 'POST', body: formData
+      });
+    },
+
+    synthesize: (payload: SynthesisRequest, options?: RequestOptions) =>
+      request<Blob>('tts', '/api/v1/synthesize', {
+        ...options, method: 'POST', json: payload, responseType: 'blob'
+      }),
+
+    previewVoice: (voiceId: string, language: string, text: string, options?: RequestOptions) =>
+      request<Blob>('tts', '/api/v1/preview', {
+        ...options, method: 'POST', json: { voice_id: voiceId, language, text }, responseType: 'blob'
+      })
+  };
+};
+
+export type CreoleClient = ReturnType<typeof createCreoleClient>;
@@ -0,0 +1,91 @@
+import { APIError, ServiceName } from '../types/api';
+import { MessageKey } from '../i18n/messages/en';
+import { LocalizedMessage } from '../types/i18n';
+
+// Base class for every failure surfaced by the API client
+export class CreoleAPIError extends Error implements APIError {
+  readonly error: string;
+  readonly status_code: number;
+  readonly service: ServiceName;
+  readonly timestamp: string;
+
+  constructor(message: string, service: ServiceName, statusCode = 0, timestamp = new Date().toISOString()) {
+    super(message);
+    this.name = 'CreoleAPIError';
+    this.error = message;
+    this.status_code = statusCode;
+    this.service = service;
+    this.timestamp = timestamp;
+  }
+}
+
+// The request never reached the service (offline, DNS, CORS, connection refused)
+export class NetworkError extends CreoleAPIError {
+  readonly cause?: unknown;
+
+  constructor(service: ServiceName, cause?: unknown) {
+    super(`Could not reach the ${service} service`, service);
+    this.name = 'NetworkError';
+    this.cause = cause;
+  }
+}
+
+export class TimeoutError extends CreoleAPIError {
+  constructor(service: ServiceName, timeoutMs: number) {
+    super(`The ${service} service did not respond within ${Math.round(timeoutMs / 1000)}s`, service);
+    this.name = 'TimeoutError';
+  }
+}
+
+// The caller aborted the request; never shown to the user
+export class RequestCancelledError extends CreoleAPIError {
+  constructor(service: ServiceName) {
+    super('Request cancelled', service);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+// 4xx: the request itself was rejected
+export class ValidationError extends CreoleAPIError {
+  constructor(data: APIError, service: ServiceName) {
+    super(data.error, service, data.status_code, data.timestamp);
+    this.name = 'ValidationError';
+  }
+}
+
+// 5xx: the service is failing or overloaded
+export class ServiceUnavailableError extends CreoleAPIError {
+  constructor(data: APIError, service: ServiceName) {
+    super(data.error, service, data.status_code, data.timestamp);
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+export const errorFromResponse = (data: APIError, service: ServiceName): CreoleAPIError =>
+  data.status_code >= 500 ? new ServiceUnavailableError(data, service) : new ValidationError(data, service);
+
+export const isRetryable = (err: unknown): boolean =>
+  err instanceof NetworkError ||
+  err instanceof TimeoutError ||
+  err instanceof ServiceUnavailableError ||
+  (err instanceof ValidationError && err.status_code === 429);
+
+export const isCancelled = (err: unknown): boolean => err instanceof RequestCancelledError;
+
+// User-facing message that tells network problems, bad input and outages apart
+export const describeError = (err: unknown, fallback: MessageKey): LocalizedMessage => {
+  if (err instanceof NetworkError) {
+    return { key: 'errors.network' };
+  }
+  if (err instanceof TimeoutError) {
+    return { key: 'errors.timeout' };
+  }
+  if (err instanceof ServiceUnavailableError) {
+    return { key: `errors.unavailable.${err.service}` };
+  }
+  // The service's own explanation is passed through untranslated
+  if (err instanceof ValidationError && err.error) {
+    return { key: 'errors.rejected', params: { message: err.error } };
+  }
+  return { key: fallback };
+};
@@ -0,0 +1,21 @@
+import { QueryClient } from '@tanstack/react-query';
+
+// The API client already retries idempotent calls, so react-query does not retry on top of it
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+      refetchOnWindowFocus: true
+    },
+    mutations: {
+      retry: false
+    }
+  }
+});
+
+export const queryKeys = {
+  languages: ['languages'] as const,
+  voices: ['voices'] as const,
+  translation: (text: string, sourceLanguage: string, targetLanguage: string) =>
+    ['translation', sourceLanguage, targetLanguage, text] as const
+};
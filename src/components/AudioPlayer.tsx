@@ -0,0 +1,116 @@
+import { useEffect, useRef, useState } from 'react';
+import { Box, IconButton, Slider, Tooltip, Typography } from '@mui/material';
+import { Download, Pause, PlayArrow, Replay } from '@mui/icons-material';
+import { AudioClip } from '../types/tts';
+import { downloadBlob } from '../utils/download';
+import { useI18n } from '../hooks/useI18n';
+
+interface AudioPlayerProps {
+  clip: AudioClip;
+  autoPlay?: boolean;
+}
+
+// A clip auto-plays once, not again when its player remounts (e.g. on a tab switch)
+const autoPlayed = new WeakSet<AudioClip>();
+
+const formatTime = (seconds: number) => {
+  if (!Number.isFinite(seconds)) return '0:00';
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+function AudioPlayer(props: AudioPlayerProps) {
+  const { clip, autoPlay = false } = props;
+  const { t } = useI18n();
+  const { blob, fileName } = clip;
+
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+
+  // Each clip gets its own object URL, released when the clip changes or the player unmounts
+  useEffect(() => {
+    const url = URL.createObjectURL(blob);
+    setAudioUrl(url);
+    setCurrentTime(0);
+    setDuration(0);
+    return () => URL.revokeObjectURL(url);
+  }, [blob]);
+
+  useEffect(() => {
+    if (autoPlay && audioUrl && !autoPlayed.has(clip)) {
+      autoPlayed.add(clip);
+      audioRef.current?.play().catch(() => setIsPlaying(false));
+    }
+  }, [audioUrl, autoPlay, clip]);
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch(() => setIsPlaying(false));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const replay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = 0;
+    audio.play().catch(() => setIsPlaying(false));
+  };
+
+  const seek = (value: number) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = value;
+    setCurrentTime(value);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+      {audioUrl && (
+        <audio
+          ref={audioRef}
+          src={audioUrl}
+          preload="metadata"
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onEnded={() => setIsPlaying(false)}
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+        />
+      )}
+      <IconButton onClick={togglePlayback} aria-label={t(isPlaying ? 'audio.pause' : 'audio.play')}>
+        {isPlaying ? <Pause /> : <PlayArrow />}
+      </IconButton>
+      <Tooltip title={t('audio.replay')}>
+        <IconButton size="small" onClick={replay} aria-label={t('audio.replay')}>
+          <Replay fontSize="small" />
+        </IconButton>
+      </Tooltip>
+      <Slider
+        size="small"
+        value={Math.min(currentTime, duration || 0)}
+        max={duration || 0}
+        step={0.01}
+        disabled={!duration}
+        onChange={(_, value) => seek(value as number)}
+        aria-label={t('audio.position')}
+        sx={{ mx: 1, flex: 1 }}
+      />
+      <Typography variant="caption" color="text.secondary" sx={{ minWidth: 72, textAlign: 'right' }}>
+        {formatTime(currentTime)} / {formatTime(duration)}
+      </Typography>
+      <Tooltip title={t('audio.download')}>
+        <IconButton size="small" onClick={() => downloadBlob(blob, fileName)} aria-label={t('audio.download')}>
+          <Download fontSize="small" />
+        </IconButton>
+      </Tooltip>
+    </Box>
+  );
+}
+
+export default AudioPlayer;
@@ -0,0 +1,42 @@
+import { Container, Paper, Typography, Alert, AlertTitle, Button, Box } from '@mui/material';
+import { Refresh } from '@mui/icons-material';
+import { ConfigError } from '../config/runtimeConfig';
+import { useI18n } from '../hooks/useI18n';
+
+interface ConfigErrorScreenProps {
+  error: unknown;
+}
+
+function ConfigErrorScreen({ error }: ConfigErrorScreenProps) {
+  const { t } = useI18n();
+  const message = error instanceof Error ? error.message : t('config.loadFailed');
+  const issues = error instanceof ConfigError ? error.issues : [];
+
+  return (
+    <Container maxWidth="sm" sx={{ py: 8 }}>
+      <Paper elevation={3} sx={{ p: 4 }}>
+        <Typography variant="h4" component="h1" gutterBottom>
+          {t('config.title')}
+        </Typography>
+        <Alert severity="error" sx={{ mb: 3 }}>
+          <AlertTitle>{message}</AlertTitle>
+          {issues.length > 0 && (
+            <Box component="ul" sx={{ m: 0, pl: 2 }}>
+              {issues.map((issue) => (
+                <li key={issue}>{issue}</li>
+              ))}
+            </Box>
+          )}
+        </Alert>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          {t('config.hint')}
+        </Typography>
+        <Button variant="contained" startIcon={<Refresh />} onClick={() => window.location.reload()}>
+          {t('config.reload')}
+        </Button>
+      </Paper>
+    </Container>
+  );
+}
+
+export default ConfigErrorScreen;
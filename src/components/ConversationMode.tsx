@@ -0,0 +1,347 @@
+import { useState, useRef, useEffect } from 'react';
+import {
+  Grid,
+  Typography,
+  TextField,
+  Button,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  Box,
+  Alert,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Paper
+} from '@mui/material';
+import { Mic, Stop, DeleteSweep } from '@mui/icons-material';
+import { useCreoleAPI } from '../hooks/useCreoleAPI';
+import { useAudioRecorder } from '../hooks/useAudioRecorder';
+import { ConversationParty, ConversationTurn, Speaker } from '../types/conversation';
+import { NewHistoryEntry } from '../types/history';
+import { playBlob } from '../utils/audio';
+import { describeError } from '../api/errors';
+import { useI18n } from '../hooks/useI18n';
+import { LocalizedMessage } from '../types/i18n';
+import { displayLanguageName } from '../i18n/format';
+import { MessageKey } from '../i18n/messages/en';
+
+type CreoleAPI = ReturnType<typeof useCreoleAPI>;
+
+interface ConversationModeProps {
+  languages: CreoleAPI['languages'];
+  voices: CreoleAPI['voices'];
+  transcribeAudio: CreoleAPI['transcribeAudio'];
+  translateText: CreoleAPI['translateText'];
+  synthesizeText: CreoleAPI['synthesizeText'];
+  sttAvailable?: boolean;
+  translationAvailable?: boolean;
+  ttsAvailable?: boolean;
+  onTurnTranslated?: (entry: NewHistoryEntry) => void;
+}
+
+const STATUS_LABELS: Record<ConversationTurn['status'], MessageKey> = {
+  transcribing: 'conversation.transcribing',
+  translating: 'conversation.translating',
+  speaking: 'conversation.speaking',
+  done: 'conversation.done',
+  error: 'conversation.failed'
+};
+
+const otherSpeaker = (speaker: Speaker): Speaker => (speaker === 'a' ? 'b' : 'a');
+
+function ConversationMode(props: ConversationModeProps) {
+  const {
+    languages,
+    voices,
+    transcribeAudio,
+    translateText,
+    synthesizeText,
+    sttAvailable = true,
+    translationAvailable = true,
+    ttsAvailable = true,
+    onTurnTranslated
+  } = props;
+  const { t } = useI18n();
+
+  const [parties, setParties] = useState<Record<Speaker, ConversationParty>>(() => ({
+    a: { label: t('conversation.speakerA'), language: 'en', voice: 'default' },
+    b: { label: t('conversation.speakerB'), language: 'ht', voice: 'default' }
+  }));
+  const [turns, setTurns] = useState<ConversationTurn[]>([]);
+  const [activeSpeaker, setActiveSpeaker] = useState<Speaker | null>(null);
+  const [error, setError] = useState<LocalizedMessage | null>(null);
+
+  const threadEndRef = useRef<HTMLDivElement>(null);
+  const { isRecording, startRecording, stopRecording } = useAudioRecorder();
+
+  useEffect(() => {
+    threadEndRef.current?.scrollIntoView?.({ behavior: 'smooth' });
+  }, [turns]);
+
+  const updateParty = (speaker: Speaker, changes: Partial<ConversationParty>) => {
+    setParties(prev => ({ ...prev, [speaker]: { ...prev[speaker], ...changes } }));
+  };
+
+  const updateTurn = (id: string, changes: Partial<ConversationTurn>) => {
+    setTurns(prev => prev.map(turn => (turn.id === id ? { ...turn, ...changes } : turn)));
+  };
+
+  // Runs one recorded turn through STT -> translation -> TTS in the listener's voice
+  const processTurn = async (speaker: Speaker, audioFile: File) => {
+    const from = parties[speaker];
+    const to = parties[otherSpeaker(speaker)];
+    const id = `${Date.now()}-${speaker}`;
+
+    setTurns(prev => [
+      ...prev,
+      {
+        id,
+        speaker,
+        sourceLanguage: from.language,
+        targetLanguage: to.language,
+        originalText: '',
+        translatedText: '',
+        status: 'transcribing',
+        timestamp: new Date().toISOString()
+      }
+    ]);
+
+    try {
+      const transcription = await transcribeAudio(audioFile, from.language);
+      if (!transcription.text.trim()) {
+        updateTurn(id, { status: 'error', error: { key: 'errors.noSpeech' } });
+        return;
+      }
+      updateTurn(id, { originalText: transcription.text, status: 'translating' });
+
+      const translation = await translateText(transcription.text, from.language, to.language);
+      updateTurn(id, {
+        translatedText: translation.translated_text,
+        confidence: translation.confidence,
+        status: ttsAvailable ? 'speaking' : 'done'
+      });
+      onTurnTranslated?.({
+        kind: 'translation',
+        sourceLanguage: from.language,
+        targetLanguage: to.language,
+        input: transcription.text,
+        output: translation.translated_text,
+        confidence: translation.confidence
+      });
+
+      // Turns stay text-only while the TTS service is down
+      if (!ttsAvailable) return;
+
+      const audioBlob = await synthesizeText(translation.translated_text, to.language, to.voice);
+      await playBlob(audioBlob);
+      updateTurn(id, { status: 'done' });
+    } catch (err) {
+      console.error('Conversation turn error:', err);
+      updateTurn(id, { status: 'error', error: describeError(err, 'errors.turnFailed') });
+    }
+  };
+
+  const handleToggleRecording = async (speaker: Speaker) => {
+    setError(null);
+
+    if (isRecording) {
+      if (activeSpeaker !== speaker) return;
+      setActiveSpeaker(null);
+      try {
+        const audioFile = await stopRecording();
+        await processTurn(speaker, audioFile);
+      } catch (err) {
+        console.error('Recording error:', err);
+      }
+      return;
+    }
+
+    try {
+      await startRecording();
+      setActiveSpeaker(speaker);
+    } catch (err) {
+      setError({ key: 'errors.microphone' });
+    }
+  };
+
+  // A turn needs both transcription and translation; speech output is optional
+  const canRecord = sttAvailable && translationAvailable;
+
+  const renderPartySettings = (speaker: Speaker) => {
+    const party = parties[speaker];
+    const isActive = activeSpeaker === speaker;
+
+    return (
+      <Card>
+        <CardContent>
+          <TextField
+            fullWidth
+            size="small"
+            label={t('common.name')}
+            value={party.label}
+            onChange={(e) => updateParty(speaker, { label: e.target.value })}
+            sx={{ mb: 2 }}
+          />
+          <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+            <FormControl sx={{ minWidth: 120, flex: 1 }}>
+              <InputLabel id={`conversation-language-label-${speaker}`}>{t('common.language')}</InputLabel>
+              <Select
+                labelId={`conversation-language-label-${speaker}`}
+                value={party.language}
+                onChange={(e) => updateParty(speaker, { language: e.target.value, voice: 'default' })}
+                label={t('common.language')}
+                disabled={isRecording}
+              >
+                {languages.map((lang) => (
+                  <MenuItem key={lang.code} value={lang.code}>
+                    {displayLanguageName(lang)}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl sx={{ minWidth: 120, flex: 1 }}>
+              <InputLabel id={`conversation-voice-label-${speaker}`}>{t('tts.voice')}</InputLabel>
+              <Select
+                labelId={`conversation-voice-label-${speaker}`}
+                value={party.voice}
+                onChange={(e) => updateParty(speaker, { voice: e.target.value })}
+                label={t('tts.voice')}
+              >
+                <MenuItem value="default">{t('common.default')}</MenuItem>
+                {voices
+                  .filter(voice => voice.language === party.language)
+                  .map((voice) => (
+                    <MenuItem key={voice.id} value={voice.id}>
+                      {voice.name} ({voice.gender})
+                    </MenuItem>
+                  ))}
+              </Select>
+            </FormControl>
+          </Box>
+          <Button
+            variant="contained"
+            fullWidth
+            onClick={() => handleToggleRecording(speaker)}
+            disabled={!isActive && (isRecording || !canRecord)}
+            startIcon={isActive ? <Stop /> : <Mic />}
+            color={isActive ? 'error' : speaker === 'a' ? 'primary' : 'secondary'}
+          >
+            {isActive ? t('conversation.stopAndTranslate') : t('conversation.speak', { name: party.label })}
+          </Button>
+          {!canRecord && (
+            <Typography variant="caption" color="error" display="block" sx={{ mt: 1 }}>
+              {t(!sttAvailable ? 'common.sttUnavailable' : 'common.translationUnavailable')}
+            </Typography>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <Grid container spacing={3}>
+      {error && (
+        <Grid item xs={12}>
+          <Alert severity="error" onClose={() => setError(null)}>
+            {t(error.key, error.params)}
+          </Alert>
+        </Grid>
+      )}
+
+      <Grid item xs={12} md={6}>
+        {renderPartySettings('a')}
+      </Grid>
+      <Grid item xs={12} md={6}>
+        {renderPartySettings('b')}
+      </Grid>
+
+      <Grid item xs={12}>
+        <Card>
+          <CardContent>
+            <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+              <Typography variant="h6" sx={{ flexGrow: 1 }}>
+                {t('tabs.conversation')}
+              </Typography>
+              <Button
+                size="small"
+                onClick={() => setTurns([])}
+                disabled={turns.length === 0}
+                startIcon={<DeleteSweep />}
+              >
+                {t('common.clear')}
+              </Button>
+            </Box>
+
+            {turns.length === 0 && (
+              <Typography variant="body2" color="text.secondary" align="center">
+                {t('conversation.empty')}
+              </Typography>
+            )}
+
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, maxHeight: 480, overflowY: 'auto' }}>
+              {turns.map((turn) => {
+                const isSpeakerA = turn.speaker === 'a';
+                return (
+                  <Box
+                    key={turn.id}
+                    sx={{ display: 'flex', justifyContent: isSpeakerA ? 'flex-start' : 'flex-end' }}
+                  >
+                    <Paper
+                      variant="outlined"
+                      sx={{
+                        p: 2,
+                        maxWidth: '75%',
+                        bgcolor: isSpeakerA ? 'grey.50' : 'grey.100',
+                        borderColor: isSpeakerA ? 'primary.light' : 'secondary.light'
+                      }}
+                    >
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                        <Typography variant="subtitle2">
+                          {parties[turn.speaker].label}
+                        </Typography>
+                        <Chip
+                          label={`${turn.sourceLanguage.toUpperCase()} → ${turn.targetLanguage.toUpperCase()}`}
+                          size="small"
+                          variant="outlined"
+                        />
+                        {turn.status !== 'done' && (
+                          <Chip
+                            label={t(STATUS_LABELS[turn.status])}
+                            size="small"
+                            color={turn.status === 'error' ? 'error' : 'default'}
+                            icon={turn.status === 'error' ? undefined : <CircularProgress size={12} />}
+                          />
+                        )}
+                      </Box>
+                      {turn.originalText && (
+                        <Typography variant="body1">
+                          {turn.originalText}
+                        </Typography>
+                      )}
+                      {turn.translatedText && (
+                        <Typography variant="body2" color="text.secondary" sx={{ mt: 1, fontStyle: 'italic' }}>
+                          {turn.translatedText}
+                        </Typography>
+                      )}
+                      {turn.error && (
+                        <Typography variant="body2" color="error" sx={{ mt: 1 }}>
+                          {t(turn.error.key, turn.error.params)}
+                        </Typography>
+                      )}
+                    </Paper>
+                  </Box>
+                );
+              })}
+              <div ref={threadEndRef} />
+            </Box>
+          </CardContent>
+        </Card>
+      </Grid>
+    </Grid>
+  );
+}
+
+export default ConversationMode;
@@ -0,0 +1,51 @@
+import { Box, Chip, MenuItem, Select, Tooltip } from '@mui/material';
+import { AutoAwesome } from '@mui/icons-material';
+import { DetectedLanguage, Language } from '../types/api';
+import { useI18n } from '../hooks/useI18n';
+import { displayLanguageName } from '../i18n/format';
+
+interface DetectedLanguageChipProps {
+  detection: DetectedLanguage;
+  languages: Language[];
+  onOverride: (language: string) => void;
+}
+
+function DetectedLanguageChip(props: DetectedLanguageChipProps) {
+  const { detection, languages, onOverride } = props;
+  const { t } = useI18n();
+
+  const detected = languages.find(lang => lang.code === detection.detected_language);
+  const name = detected ? displayLanguageName(detected) : detection.detected_language.toUpperCase();
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+      <Tooltip title={t(detection.method === 'heuristic' ? 'detection.heuristic' : 'detection.service')}>
+        <Chip
+          icon={<AutoAwesome />}
+          label={t('detection.detected', { language: name, percent: Math.round(detection.confidence * 100) })}
+          color={detection.confidence >= 0.6 ? 'info' : 'warning'}
+          variant="outlined"
+          size="small"
+        />
+      </Tooltip>
+      <Select
+        size="small"
+        value=""
+        displayEmpty
+        renderValue={() => t('detection.override')}
+        onChange={(e) => onOverride(e.target.value)}
+        sx={{ fontSize: '0.8125rem', '& .MuiSelect-select': { py: 0.5 } }}
+      >
+        {languages
+          .filter(lang => lang.code !== detection.detected_language)
+          .map((lang) => (
+            <MenuItem key={lang.code} value={lang.code}>
+              {displayLanguageName(lang)}
+            </MenuItem>
+          ))}
+      </Select>
+    </Box>
+  );
+}
+
+export default DetectedLanguageChip;
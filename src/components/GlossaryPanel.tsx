@@ -0,0 +1,321 @@
+import { useState, useRef, ChangeEvent } from 'react';
+import {
+  Typography,
+  TextField,
+  Button,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  Box,
+  Card,
+  CardContent,
+  Checkbox,
+  Chip,
+  Grid,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Alert
+} from '@mui/material';
+import { Add, Delete, Download, Upload } from '@mui/icons-material';
+import { Language } from '../types/api';
+import { Glossary, GlossaryFileFormat, GlossaryTerm } from '../types/glossary';
+import { useI18n } from '../hooks/useI18n';
+import { LocalizedMessage } from '../types/i18n';
+
+interface GlossaryPanelProps {
+  glossaries: Glossary[];
+  activeIds: string[];
+  languages: Language[];
+  error: LocalizedMessage | null;
+  onCreate: (name: string, sourceLanguage: string, targetLanguage: string) => Promise<Glossary>;
+  onDelete: (id: string) => void;
+  onSetActive: (id: string, active: boolean) => void;
+  onAddTerm: (glossaryId: string, term: Omit<GlossaryTerm, 'id'>) => void;
+  onUpdateTerm: (glossaryId: string, termId: string, changes: Partial<Omit<GlossaryTerm, 'id'>>) => void;
+  onRemoveTerm: (glossaryId: string, termId: string) => void;
+  onImport: (file: File, sourceLanguage: string, targetLanguage: string) => Promise<number>;
+  onExport: (id: string, format: GlossaryFileFormat) => void;
+}
+
+function GlossaryPanel(props: GlossaryPanelProps) {
+  const {
+    glossaries,
+    activeIds,
+    languages,
+    error,
+    onCreate,
+    onDelete,
+    onSetActive,
+    onAddTerm,
+    onUpdateTerm,
+    onRemoveTerm,
+    onImport,
+    onExport
+  } = props;
+  const { t } = useI18n();
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [sourceLanguage, setSourceLanguage] = useState('en');
+  const [targetLanguage, setTargetLanguage] = useState('ht');
+  const [newSource, setNewSource] = useState('');
+  const [newTarget, setNewTarget] = useState('');
+  const [message, setMessage] = useState<LocalizedMessage | null>(null);
+
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = glossaries.find(glossary => glossary.id === selectedId) ?? null;
+
+  const handleCreate = async () => {
+    const created = await onCreate(name.trim() || t('glossary.untitled'), sourceLanguage, targetLanguage);
+    setSelectedId(created.id);
+    setName('');
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const count = await onImport(file, sourceLanguage, targetLanguage);
+    setMessage(count > 0 ? { key: 'glossary.imported', params: { count, file: file.name } } : null);
+  };
+
+  const handleAddTerm = () => {
+    if (!selected || !newSource.trim() || !newTarget.trim()) return;
+    onAddTerm(selected.id, { source: newSource.trim(), target: newTarget.trim() });
+    setNewSource('');
+    setNewTarget('');
+  };
+
+  const pairLabel = (glossary: Glossary) =>
+    `${glossary.sourceLanguage.toUpperCase()} → ${glossary.targetLanguage.toUpperCase()}`;
+
+  return (
+    <Grid container spacing={3}>
+      <Grid item xs={12} md={5}>
+        <Card>
+          <CardContent>
+            <Typography variant="h6" gutterBottom>
+              {t('glossary.title')}
+            </Typography>
+
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+              <TextField
+                size="small"
+                label={t('glossary.newGlossary')}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                sx={{ flexGrow: 1 }}
+              />
+              <FormControl size="small" sx={{ minWidth: 90 }}>
+                <InputLabel id="glossary-from-label">{t('common.from')}</InputLabel>
+                <Select labelId="glossary-from-label" value={sourceLanguage} onChange={(e) => setSourceLanguage(e.target.value)} label={t('common.from')}>
+                  {languages.map((lang) => (
+                    <MenuItem key={lang.code} value={lang.code}>{lang.code.toUpperCase()}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl size="small" sx={{ minWidth: 90 }}>
+                <InputLabel id="glossary-to-label">{t('common.to')}</InputLabel>
+                <Select labelId="glossary-to-label" value={targetLanguage} onChange={(e) => setTargetLanguage(e.target.value)} label={t('common.to')}>
+                  {languages.map((lang) => (
+                    <MenuItem key={lang.code} value={lang.code}>{lang.code.toUpperCase()}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Box>
+            <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+              <Button
+                variant="contained"
+                startIcon={<Add />}
+                onClick={handleCreate}
+                disabled={!name.trim() || sourceLanguage === targetLanguage}
+              >
+                {t('glossary.create')}
+              </Button>
+              <input
+                type="file"
+                accept=".csv,.tbx,.xml,text/csv,application/xml"
+                style={{ display: 'none' }}
+                ref={importInputRef}
+                onChange={handleImport}
+              />
+              <Button
+                variant="outlined"
+                startIcon={<Upload />}
+                onClick={() => importInputRef.current?.click()}
+                disabled={sourceLanguage === targetLanguage}
+              >
+                {t('glossary.import')}
+              </Button>
+            </Box>
+
+            {error && <Alert severity="error" sx={{ mb: 2 }}>{t(error.key, error.params)}</Alert>}
+            {message && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setMessage(null)}>{t(message.key, message.params)}</Alert>}
+
+            {glossaries.length === 0 ? (
+              <Typography color="text.secondary">
+                {t('glossary.empty')}
+              </Typography>
+            ) : (
+              <List dense disablePadding>
+                {glossaries.map((glossary) => (
+                  <ListItemButton
+                    key={glossary.id}
+                    selected={glossary.id === selectedId}
+                    onClick={() => setSelectedId(glossary.id)}
+                  >
+                    <ListItemIcon>
+                      <Tooltip title={t('glossary.useThisSession')}>
+                        <Checkbox
+                          edge="start"
+                          checked={activeIds.includes(glossary.id)}
+                          onClick={(e) => e.stopPropagation()}
+                          onChange={(e) => onSetActive(glossary.id, e.target.checked)}
+                        />
+                      </Tooltip>
+                    </ListItemIcon>
+                    <ListItemText
+                      primary={glossary.name}
+                      secondary={t('glossary.termCount', { pair: pairLabel(glossary), count: glossary.terms.length })}
+                    />
+                  </ListItemButton>
+                ))}
+              </List>
+            )}
+          </CardContent>
+        </Card>
+      </Grid>
+
+      <Grid item xs={12} md={7}>
+        {selected ? (
+          <Card>
+            <CardContent>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+                <Typography variant="h6" sx={{ flexGrow: 1 }}>
+                  {selected.name}
+                </Typography>
+                <Chip size="small" label={pairLabel(selected)} />
+                <Button size="small" startIcon={<Download />} onClick={() => onExport(selected.id, 'csv')}>
+                  CSV
+                </Button>
+                <Button size="small" startIcon={<Download />} onClick={() => onExport(selected.id, 'tbx')}>
+                  TBX
+                </Button>
+                <Tooltip title={t('glossary.delete')}>
+                  <IconButton
+                    onClick={() => {
+                      onDelete(selected.id);
+                      setSelectedId(null);
+                    }}
+                  >
+                    <Delete />
+                  </IconButton>
+                </Tooltip>
+              </Box>
+
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{t('glossary.sourceTerm')}</TableCell>
+                    <TableCell>{t('glossary.requiredTranslation')}</TableCell>
+                    <TableCell>{t('glossary.matchCase')}</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {selected.terms.map((term) => (
+                    <TableRow key={term.id}>
+                      <TableCell>{term.source}</TableCell>
+                      <TableCell>
+                        <TextField
+                          fullWidth
+                          size="small"
+                          variant="standard"
+                          value={term.target}
+                          onChange={(e) => onUpdateTerm(selected.id, term.id, { target: e.target.value })}
+                          inputProps={{ 'aria-label': t('glossary.requiredTranslationFor', { term: term.source }) }}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Checkbox
+                          size="small"
+                          checked={!!term.caseSensitive}
+                          onChange={(e) => onUpdateTerm(selected.id, term.id, { caseSensitive: e.target.checked })}
+                          inputProps={{ 'aria-label': t('glossary.matchCaseFor', { term: term.source }) }}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <IconButton
+                          size="small"
+                          onClick={() => onRemoveTerm(selected.id, term.id)}
+                          aria-label={t('glossary.removeTerm', { term: term.source })}
+                        >
+                          <Delete fontSize="small" />
+                        </IconButton>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell>
+                      <TextField
+                        fullWidth
+                        size="small"
+                        variant="standard"
+                        placeholder="blood pressure"
+                        value={newSource}
+                        onChange={(e) => setNewSource(e.target.value)}
+                        inputProps={{ 'aria-label': t('glossary.newSourceTerm') }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        fullWidth
+                        size="small"
+                        variant="standard"
+                        placeholder="tansyon"
+                        value={newTarget}
+                        onChange={(e) => setNewTarget(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleAddTerm()}
+                        inputProps={{ 'aria-label': t('glossary.newRequiredTranslation') }}
+                      />
+                    </TableCell>
+                    <TableCell />
+                    <TableCell>
+                      <IconButton
+                        size="small"
+                        color="primary"
+                        onClick={handleAddTerm}
+                        disabled={!newSource.trim() || !newTarget.trim()}
+                        aria-label={t('glossary.addTerm')}
+                      >
+                        <Add fontSize="small" />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ) : (
+          <Typography color="text.secondary" sx={{ p: 2 }}>
+            {t('glossary.selectPrompt')}
+          </Typography>
+        )}
+      </Grid>
+    </Grid>
+  );
+}
+
+export default GlossaryPanel;
@@ -0,0 +1,55 @@
+import { Alert, AlertTitle, Box, Tooltip, Typography } from '@mui/material';
+import { GlossaryReport, GlossaryTerm } from '../types/glossary';
+import { highlightSegments } from '../utils/glossary';
+import { useI18n } from '../hooks/useI18n';
+
+interface GlossaryReportViewProps {
+  text: string;
+  report: GlossaryReport;
+  terms: GlossaryTerm[];
+}
+
+// Translation with glossary terms highlighted, plus any terms the translation failed to respect
+function GlossaryReportView(props: GlossaryReportViewProps) {
+  const { text, report, terms } = props;
+  const { t } = useI18n();
+
+  if (report.matches.length === 0 && report.violations.length === 0) {
+    return null;
+  }
+
+  const termFor = (id?: string) => terms.find(term => term.id === id);
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      {report.matches.length > 0 && (
+        <Typography variant="body1" sx={{ p: 1.5, mb: 1, bgcolor: 'grey.50', borderRadius: 1, whiteSpace: 'pre-wrap' }}>
+          {highlightSegments(text, report.matches).map((segment, i) => {
+            const term = termFor(segment.termId);
+            return term ? (
+              <Tooltip key={i} title={t('glossary.termTooltip', { source: term.source, target: term.target })}>
+                <Box component="mark" sx={{ bgcolor: 'success.light', color: 'inherit', borderRadius: 0.5, px: 0.25 }}>
+                  {segment.text}
+                </Box>
+              </Tooltip>
+            ) : (
+              <span key={i}>{segment.text}</span>
+            );
+          })}
+        </Typography>
+      )}
+      {report.violations.length > 0 && (
+        <Alert severity="warning">
+          <AlertTitle>{t('glossary.notFollowed')}</AlertTitle>
+          {report.violations.map(({ term, glossaryName }) => (
+            <Typography key={term.id} variant="body2">
+              {t('glossary.violation', { source: term.source, target: term.target, glossary: glossaryName })}
+            </Typography>
+          ))}
+        </Alert>
+      )}
+    </Box>
+  );
+}
+
+export default GlossaryReportView;
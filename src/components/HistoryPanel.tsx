@@ -0,0 +1,194 @@
+import { useState, useMemo } from 'react';
+import {
+  Alert,
+  Typography,
+  TextField,
+  Button,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  Box,
+  Card,
+  CardContent,
+  Chip,
+  IconButton,
+  InputAdornment,
+  List,
+  ListItem,
+  ListItemText,
+  Tooltip
+} from '@mui/material';
+import { Search, Replay, Delete, Download, DeleteSweep } from '@mui/icons-material';
+import { HistoryEntry } from '../types/history';
+import { useI18n } from '../hooks/useI18n';
+import { LocalizedMessage } from '../types/i18n';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  error: LocalizedMessage | null;
+  onRerun: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  onExport: (format: 'json' | 'csv', selection: HistoryEntry[]) => void;
+}
+
+const ALL_PAIRS = 'all';
+
+const pairKey = (entry: HistoryEntry) =>
+  entry.targetLanguage ? `${entry.sourceLanguage}>${entry.targetLanguage}` : entry.sourceLanguage;
+
+const pairLabel = (key: string) => key.toUpperCase().replace('>', ' → ');
+
+function HistoryPanel(props: HistoryPanelProps) {
+  const { entries, error, onRerun, onDelete, onClear, onExport } = props;
+  const { t, uiLanguage } = useI18n();
+
+  const [query, setQuery] = useState('');
+  const [languagePair, setLanguagePair] = useState(ALL_PAIRS);
+
+  const languagePairs = useMemo(
+    () => Array.from(new Set(entries.map(pairKey))).sort(),
+    [entries]
+  );
+
+  const filteredEntries = useMemo(() => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return entries.filter((entry) => {
+      if (languagePair !== ALL_PAIRS && pairKey(entry) !== languagePair) {
+        return false;
+      }
+      const haystack = `${entry.input} ${entry.output}`.toLowerCase();
+      return terms.every(term => haystack.includes(term));
+    });
+  }, [entries, query, languagePair]);
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, mb: 2 }}>
+          <TextField
+            size="small"
+            placeholder={t('history.search')}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            sx={{ flexGrow: 1, minWidth: 200 }}
+            InputProps={{
+              startAdornment: (
+                <InputAdornment position="start">
+                  <Search />
+                </InputAdornment>
+              )
+            }}
+          />
+          <FormControl size="small" sx={{ minWidth: 160 }}>
+            <InputLabel id="history-languages-label">{t('history.languages')}</InputLabel>
+            <Select
+              labelId="history-languages-label"
+              value={languagePair}
+              onChange={(e) => setLanguagePair(e.target.value)}
+              label={t('history.languages')}
+            >
+              <MenuItem value={ALL_PAIRS}>{t('history.allLanguages')}</MenuItem>
+              {languagePairs.map((key) => (
+                <MenuItem key={key} value={key}>
+                  {pairLabel(key)}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Button
+            variant="outlined"
+            startIcon={<Download />}
+            onClick={() => onExport('json', filteredEntries)}
+            disabled={filteredEntries.length === 0}
+          >
+            JSON
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<Download />}
+            onClick={() => onExport('csv', filteredEntries)}
+            disabled={filteredEntries.length === 0}
+          >
+            CSV
+          </Button>
+          <Button
+            color="error"
+            startIcon={<DeleteSweep />}
+            onClick={onClear}
+            disabled={entries.length === 0}
+          >
+            {t('common.clear')}
+          </Button>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {t(error.key, error.params)}
+          </Alert>
+        )}
+
+        {filteredEntries.length === 0 && (
+          <Typography variant="body2" color="text.secondary" align="center">
+            {t(entries.length === 0 ? 'history.empty' : 'history.noMatches')}
+          </Typography>
+        )}
+
+        <List>
+          {filteredEntries.map((entry) => (
+            <ListItem
+              key={entry.id}
+              divider
+              secondaryAction={
+                <Box>
+                  <Tooltip title={t(entry.kind === 'translation' ? 'history.translateAgain' : 'history.useForTranslation')}>
+                    <IconButton onClick={() => onRerun(entry)}>
+                      <Replay />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title={t('common.delete')}>
+                    <IconButton onClick={() => onDelete(entry.id)}>
+                      <Delete />
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+              }
+            >
+              <ListItemText
+                sx={{ pr: 10 }}
+                primary={
+                  <>
+                    <Typography variant="body1">{entry.input}</Typography>
+                    <Typography variant="body2" color="text.secondary">{entry.output}</Typography>
+                  </>
+                }
+                secondary={
+                  <Box component="span" sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 1 }}>
+                    <Chip label={t(`history.kind.${entry.kind}`)} size="small" variant="outlined" component="span" />
+                    <Chip label={pairLabel(pairKey(entry))} size="small" color="primary" component="span" />
+                    {entry.confidence !== undefined && (
+                      <Chip
+                        label={t('common.confident', { percent: Math.round(entry.confidence * 100) })}
+                        size="small"
+                        color="success"
+                        component="span"
+                      />
+                    )}
+                    <Typography variant="caption" component="span" sx={{ alignSelf: 'center' }}>
+                      {new Date(entry.timestamp).toLocaleString(uiLanguage)}
+                    </Typography>
+                  </Box>
+                }
+                secondaryTypographyProps={{ component: 'span' }}
+                primaryTypographyProps={{ component: 'div' }}
+              />
+            </ListItem>
+          ))}
+        </List>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default HistoryPanel;
@@ -0,0 +1,34 @@
+import { Box } from '@mui/material';
+import { Politeness } from '../types/a11y';
+
+interface LiveAnnouncerProps {
+  messages: Record<Politeness, string>;
+}
+
+const VISUALLY_HIDDEN = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  p: 0,
+  m: '-1px',
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  whiteSpace: 'nowrap',
+  border: 0
+} as const;
+
+// Always mounted: live regions added to the page together with their text are often not read
+function LiveAnnouncer({ messages }: LiveAnnouncerProps) {
+  return (
+    <>
+      <Box role="status" aria-live="polite" aria-atomic="true" sx={VISUALLY_HIDDEN}>
+        {messages.polite}
+      </Box>
+      <Box role="alert" aria-live="assertive" aria-atomic="true" sx={VISUALLY_HIDDEN}>
+        {messages.assertive}
+      </Box>
+    </>
+  );
+}
+
+export default LiveAnnouncer;
@@ -0,0 +1,415 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  Grid,
+  Typography,
+  Button,
+  Select,
+  MenuItem,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Box,
+  Alert,
+  Card,
+  CardContent,
+  Checkbox,
+  Chip,
+  IconButton,
+  OutlinedInput,
+  Slider,
+  Tooltip
+} from '@mui/material';
+import { Mic, Stop, Fullscreen, FullscreenExit, Download, History } from '@mui/icons-material';
+import { useCreoleAPI } from '../hooks/useCreoleAPI';
+import { useLiveCaptions } from '../hooks/useLiveCaptions';
+import { CaptionSession } from '../types/captions';
+import { NewHistoryEntry } from '../types/history';
+import { SubtitleCue } from '../types/subtitles';
+import { formatPlainTranscript, formatSubtitles } from '../utils/subtitles';
+import { downloadText } from '../utils/download';
+import { useI18n } from '../hooks/useI18n';
+import { displayLanguageName } from '../i18n/format';
+
+type CreoleAPI = ReturnType<typeof useCreoleAPI>;
+
+interface LiveCaptionsModeProps {
+  languages: CreoleAPI['languages'];
+  voices: CreoleAPI['voices'];
+  streamingUrl: string;
+  translateText: CreoleAPI['translateText'];
+  synthesizeText: CreoleAPI['synthesizeText'];
+  streamingAvailable?: boolean;
+  ttsAvailable?: boolean;
+  onSessionSaved?: (entries: NewHistoryEntry[]) => void;
+}
+
+type ExportFormat = 'srt' | 'vtt' | 'txt';
+
+const EXPORT_TYPES: Record<ExportFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  txt: 'text/plain'
+};
+
+const ORIGINAL = 'original';
+// Finished lines kept on screen above the one being spoken
+const VISIBLE_LINES = 2;
+
+const sessionCues = (session: CaptionSession, track: string): SubtitleCue[] =>
+  session.lines.map(line => ({
+    id: line.id,
+    start: line.start,
+    end: Math.max(line.end, line.start + 1000),
+    text: track === ORIGINAL ? line.text : line.translations[track] ?? ''
+  }));
+
+function LiveCaptionsMode(props: LiveCaptionsModeProps) {
+  const {
+    languages,
+    voices,
+    streamingUrl,
+    translateText,
+    synthesizeText,
+    streamingAvailable = true,
+    ttsAvailable = true,
+    onSessionSaved
+  } = props;
+  const { t, uiLanguage } = useI18n();
+
+  const [sourceLanguage, setSourceLanguage] = useState('en');
+  const [targetLanguages, setTargetLanguages] = useState<string[]>(['ht']);
+  const [showOriginal, setShowOriginal] = useState(true);
+  const [fontSize, setFontSize] = useState(40);
+  const [speakEnabled, setSpeakEnabled] = useState(false);
+  const [speakLanguage, setSpeakLanguage] = useState('ht');
+  const [speakVoice, setSpeakVoice] = useState('default');
+  const [exportTrack, setExportTrack] = useState(ORIGINAL);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const [savedSessionId, setSavedSessionId] = useState<string | null>(null);
+
+  const captionsRef = useRef<HTMLDivElement>(null);
+
+  const { session, partial, isLive, error, clearError, start, stop, setSpeech } = useLiveCaptions({
+    streamingUrl,
+    translateText,
+    synthesizeText
+  });
+
+  const languageName = (code: string) => {
+    const language = languages.find(lang => lang.code === code);
+    return language ? displayLanguageName(language) : code.toUpperCase();
+  };
+  const effectiveTargets = targetLanguages.filter(target => target !== sourceLanguage);
+  // Only a caption language can be spoken
+  const spokenLanguage = effectiveTargets.includes(speakLanguage) ? speakLanguage : effectiveTargets[0] ?? '';
+
+  useEffect(() => {
+    setSpeech({ enabled: speakEnabled && ttsAvailable, language: spokenLanguage, voice: speakVoice });
+  }, [setSpeech, speakEnabled, ttsAvailable, spokenLanguage, speakVoice]);
+
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(document.fullscreenElement === captionsRef.current);
+    document.addEventListener('fullscreenchange', handleChange);
+    return () => document.removeEventListener('fullscreenchange', handleChange);
+  }, []);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => undefined);
+    } else {
+      captionsRef.current?.requestFullscreen().catch((err) => console.error('Fullscreen error:', err));
+    }
+  };
+
+  const handleStart = () => {
+    setSavedSessionId(null);
+    setExportTrack(ORIGINAL);
+    start(sourceLanguage, effectiveTargets);
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    if (!session) return;
+    const cues = sessionCues(session, exportTrack).filter(cue => cue.text);
+    const content = format === 'txt' ? formatPlainTranscript(cues, true) : formatSubtitles(cues, format);
+    const trackLanguage = exportTrack === ORIGINAL ? session.sourceLanguage : exportTrack;
+    const date = session.startedAt.slice(0, 10);
+    downloadText(content, `captions-${date}.${trackLanguage}.${format}`, EXPORT_TYPES[format]);
+  };
+
+  const handleSaveToHistory = () => {
+    if (!session || session.lines.length === 0) return;
+    const original = session.lines.map(line => line.text).join('\n');
+    onSessionSaved?.(session.targetLanguages.map(target => ({
+      kind: 'translation',
+      sourceLanguage: session.sourceLanguage,
+      targetLanguage: target,
+      input: original,
+      output: session.lines.map(line => line.translations[target] ?? '').join('\n')
+    })));
+    setSavedSessionId(session.id);
+  };
+
+  const visibleLines = session?.lines.slice(-VISIBLE_LINES) ?? [];
+  const tracks = [...(showOriginal ? [ORIGINAL] : []), ...(session?.targetLanguages ?? effectiveTargets)];
+  const hasLines = !!session && session.lines.length > 0;
+
+  const renderTrack = (track: string) => {
+    const lineText = (line: CaptionSession['lines'][number]) =>
+      track === ORIGINAL ? line.text : line.translations[track] ?? '…';
+    const partialText = partial && (track === ORIGINAL ? partial.text : partial.translations[track]);
+
+    return (
+      <Box key={track} sx={{ mb: 3 }}>
+        <Typography variant="overline" sx={{ color: 'grey.500', fontSize: Math.max(12, fontSize * 0.35) }}>
+          {track === ORIGINAL ? languageName(session?.sourceLanguage ?? sourceLanguage) : languageName(track)}
+        </Typography>
+        {visibleLines.map((line, index) => (
+          <Typography
+            key={line.id}
+            sx={{
+              fontSize,
+              lineHeight: 1.3,
+              fontWeight: 500,
+              opacity: index === visibleLines.length - 1 && !partialText ? 1 : 0.6
+            }}
+          >
+            {lineText(line)}
+          </Typography>
+        ))}
+        {partialText && (
+          <Typography sx={{ fontSize, lineHeight: 1.3, fontWeight: 500, fontStyle: 'italic' }}>
+            {partialText}
+          </Typography>
+        )}
+      </Box>
+    );
+  };
+
+  return (
+    <Grid container spacing={3}>
+      <Grid item xs={12}>
+        <Card>
+          <CardContent>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, mb: 2 }}>
+              <FormControl sx={{ minWidth: 150 }} size="small">
+                <InputLabel id="captions-spoken-language-label">{t('captions.spokenLanguage')}</InputLabel>
+                <Select
+                  labelId="captions-spoken-language-label"
+                  value={sourceLanguage}
+                  onChange={(e) => setSourceLanguage(e.target.value)}
+                  label={t('captions.spokenLanguage')}
+                  disabled={isLive}
+                >
+                  {languages.map((lang) => (
+                    <MenuItem key={lang.code} value={lang.code}>
+                      {displayLanguageName(lang)}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl sx={{ minWidth: 250, flexGrow: 1 }} size="small">
+                <InputLabel id="captions-caption-languages-label">{t('captions.captionLanguages')}</InputLabel>
+                <Select
+                  labelId="captions-caption-languages-label"
+                  multiple
+                  value={targetLanguages}
+                  onChange={(e) => {
+                    const value = e.target.value;
+                    setTargetLanguages(typeof value === 'string' ? value.split(',') : value);
+                  }}
+                  input={<OutlinedInput label={t('captions.captionLanguages')} />}
+                  disabled={isLive}
+                  renderValue={(selected) => (
+                    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                      {selected.map((code) => (
+                        <Chip key={code} label={languageName(code)} size="small" />
+                      ))}
+                    </Box>
+                  )}
+                >
+                  {languages
+                    .filter(lang => lang.code !== sourceLanguage)
+                    .map((lang) => (
+                      <MenuItem key={lang.code} value={lang.code}>
+                        {displayLanguageName(lang)}
+                      </MenuItem>
+                    ))}
+                </Select>
+              </FormControl>
+              <Button
+                variant="contained"
+                color={isLive ? 'error' : 'primary'}
+                startIcon={isLive ? <Stop /> : <Mic />}
+                onClick={isLive ? stop : handleStart}
+                disabled={!isLive && (!streamingAvailable || effectiveTargets.length === 0)}
+              >
+                {isLive ? t('captions.stop') : t('captions.start')}
+              </Button>
+            </Box>
+
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2 }}>
+              <FormControlLabel
+                control={<Checkbox checked={showOriginal} onChange={(e) => setShowOriginal(e.target.checked)} />}
+                label={t('captions.showOriginal')}
+              />
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, minWidth: 200 }}>
+                <Typography variant="body2" id="caption-size-label">{t('captions.textSize')}</Typography>
+                <Slider
+                  size="small"
+                  value={fontSize}
+                  min={20}
+                  max={96}
+                  step={4}
+                  onChange={(_, value) => setFontSize(value as number)}
+                  aria-labelledby="caption-size-label"
+                  sx={{ flex: 1 }}
+                />
+              </Box>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={speakEnabled}
+                    onChange={(e) => setSpeakEnabled(e.target.checked)}
+                    disabled={!ttsAvailable}
+                  />
+                }
+                label={t('captions.speakIn')}
+              />
+              <FormControl sx={{ minWidth: 130 }} size="small">
+                <InputLabel id="captions-language-label">{t('common.language')}</InputLabel>
+                <Select
+                  labelId="captions-language-label"
+                  value={spokenLanguage}
+                  onChange={(e) => {
+                    setSpeakLanguage(e.target.value);
+                    setSpeakVoice('default');
+                  }}
+                  label={t('common.language')}
+                  disabled={!speakEnabled}
+                >
+                  {effectiveTargets.map((code) => (
+                    <MenuItem key={code} value={code}>
+                      {languageName(code)}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl sx={{ minWidth: 130 }} size="small">
+                <InputLabel id="captions-voice-label">{t('captions.voice')}</InputLabel>
+                <Select
+                  labelId="captions-voice-label"
+                  value={speakVoice}
+                  onChange={(e) => setSpeakVoice(e.target.value)}
+                  label={t('captions.voice')}
+                  disabled={!speakEnabled}
+                >
+                  <MenuItem value="default">{t('common.default')}</MenuItem>
+                  {voices
+                    .filter(voice => voice.language === spokenLanguage)
+                    .map((voice) => (
+                      <MenuItem key={voice.id} value={voice.id}>
+                        {voice.name} ({voice.gender})
+                      </MenuItem>
+                    ))}
+                </Select>
+              </FormControl>
+            </Box>
+
+            {!streamingAvailable && (
+              <Typography variant="caption" color="error" display="block" sx={{ mt: 1 }}>
+                {t('captions.streamingUnavailable')}
+              </Typography>
+            )}
+          </CardContent>
+        </Card>
+      </Grid>
+
+      {error && (
+        <Grid item xs={12}>
+          <Alert severity="error" onClose={clearError}>
+            {t(error.key, error.params)}
+          </Alert>
+        </Grid>
+      )}
+
+      <Grid item xs={12}>
+        <Box
+          ref={captionsRef}
+          sx={{
+            position: 'relative',
+            bgcolor: 'grey.900',
+            color: 'common.white',
+            borderRadius: isFullscreen ? 0 : 1,
+            p: 4,
+            minHeight: isFullscreen ? '100vh' : 320,
+            maxHeight: isFullscreen ? '100vh' : 560,
+            overflow: 'hidden',
+            display: 'flex',
+            flexDirection: 'column',
+            justifyContent: 'flex-end'
+          }}
+        >
+          <Tooltip title={isFullscreen ? t('captions.exitFullscreen') : t('captions.fullscreen')}>
+            <IconButton
+              onClick={toggleFullscreen}
+              sx={{ position: 'absolute', top: 8, right: 8, color: 'grey.400' }}
+              aria-label={isFullscreen ? t('captions.exitFullscreen') : t('captions.fullscreen')}
+            >
+              {isFullscreen ? <FullscreenExit /> : <Fullscreen />}
+            </IconButton>
+          </Tooltip>
+
+          {!hasLines && !partial && (
+            <Typography sx={{ color: 'grey.500', fontSize: Math.max(16, fontSize * 0.5) }} align="center">
+              {isLive ? t('captions.listening') : t('captions.idle')}
+            </Typography>
+          )}
+          {(hasLines || partial) && tracks.map(renderTrack)}
+        </Box>
+      </Grid>
+
+      {session && !isLive && hasLines && (
+        <Grid item xs={12}>
+          <Card>
+            <CardContent sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2 }}>
+              <Typography variant="body2" color="text.secondary" sx={{ flexGrow: 1 }}>
+                {t('captions.sessionSummary', {
+                  date: new Date(session.startedAt).toLocaleString(uiLanguage),
+                  count: session.lines.length
+                })}
+              </Typography>
+              <FormControl sx={{ minWidth: 140 }} size="small">
+                <InputLabel id="captions-track-label">{t('captions.track')}</InputLabel>
+                <Select labelId="captions-track-label" value={exportTrack} onChange={(e) => setExportTrack(e.target.value)} label={t('captions.track')}>
+                  <MenuItem value={ORIGINAL}>{t('common.original')}</MenuItem>
+                  {session.targetLanguages.map((code) => (
+                    <MenuItem key={code} value={code}>
+                      {languageName(code)}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              {(['srt', 'vtt', 'txt'] as ExportFormat[]).map((format) => (
+                <Button key={format} variant="outlined" startIcon={<Download />} onClick={() => handleExport(format)}>
+                  {format.toUpperCase()}
+                </Button>
+              ))}
+              {onSessionSaved && (
+                <Button
+                  variant="outlined"
+                  startIcon={<History />}
+                  onClick={handleSaveToHistory}
+                  disabled={savedSessionId === session.id}
+                >
+                  {savedSessionId === session.id ? t('captions.saved') : t('captions.saveToHistory')}
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        </Grid>
+      )}
+    </Grid>
+  );
+}
+
+export default LiveCaptionsMode;
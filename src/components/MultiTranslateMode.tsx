@@ -0,0 +1,325 @@
+import { useState } from 'react';
+import {
+  Grid,
+  Typography,
+  TextField,
+  Button,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  Box,
+  Alert,
+  Card,
+  CardContent,
+  CardActions,
+  Chip,
+  CircularProgress,
+  IconButton,
+  OutlinedInput,
+  Tooltip
+} from '@mui/material';
+import { Translate, FileCopy, VolumeUp, Replay } from '@mui/icons-material';
+import { useCreoleAPI } from '../hooks/useCreoleAPI';
+import { TranslationResult } from '../types/api';
+import { NewHistoryEntry } from '../types/history';
+import { playBlob } from '../utils/audio';
+import { useI18n } from '../hooks/useI18n';
+import { displayLanguageName } from '../i18n/format';
+import { LocalizedMessage } from '../types/i18n';
+
+type CreoleAPI = ReturnType<typeof useCreoleAPI>;
+
+interface MultiTranslateModeProps {
+  languages: CreoleAPI['languages'];
+  translateText: CreoleAPI['translateText'];
+  translateTextBatch: CreoleAPI['translateTextBatch'];
+  synthesizeText: CreoleAPI['synthesizeText'];
+  translationAvailable?: boolean;
+  ttsAvailable?: boolean;
+  onTranslated?: (entry: NewHistoryEntry) => void;
+}
+
+type TargetState =
+  | { status: 'loading' }
+  | { status: 'done'; result: TranslationResult }
+  | { status: 'error'; error: LocalizedMessage };
+
+const DEFAULT_TARGETS = ['ht', 'fr', 'es'];
+
+function MultiTranslateMode(props: MultiTranslateModeProps) {
+  const {
+    languages,
+    translateText,
+    translateTextBatch,
+    synthesizeText,
+    translationAvailable = true,
+    ttsAvailable = true,
+    onTranslated
+  } = props;
+  const { t } = useI18n();
+
+  const [inputText, setInputText] = useState('');
+  const [sourceLanguage, setSourceLanguage] = useState('en');
+  const [targetLanguages, setTargetLanguages] = useState<string[]>(DEFAULT_TARGETS);
+  const [results, setResults] = useState<Record<string, TargetState>>({});
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [playingTarget, setPlayingTarget] = useState<string | null>(null);
+  const [error, setError] = useState<LocalizedMessage | null>(null);
+
+  const effectiveTargets = targetLanguages.filter(target => target !== sourceLanguage);
+
+  const languageName = (code: string) => {
+    const language = languages.find(lang => lang.code === code);
+    return language ? displayLanguageName(language) : code.toUpperCase();
+  };
+
+  const recordResult = (text: string, target: string, result: TranslationResult) => {
+    onTranslated?.({
+      kind: 'translation',
+      sourceLanguage,
+      targetLanguage: target,
+      input: text,
+      output: result.translated_text,
+      confidence: result.confidence
+    });
+  };
+
+  // Fallback when the batch endpoint itself fails: one request per target so successes still land
+  const translateIndividually = async (text: string, targets: string[]) => {
+    const settled = await Promise.allSettled(
+      targets.map(target => translateText(text, sourceLanguage, target))
+    );
+    const next: Record<string, TargetState> = {};
+    settled.forEach((outcome, i) => {
+      const target = targets[i];
+      if (outcome.status === 'fulfilled') {
+        next[target] = { status: 'done', result: outcome.value };
+        recordResult(text, target, outcome.value);
+      } else {
+        next[target] = { status: 'error', error: { key: 'errors.targetFailed' } };
+      }
+    });
+    return next;
+  };
+
+  const handleTranslate = async () => {
+    const text = inputText.trim();
+    const targets = effectiveTargets;
+    if (!text || targets.length === 0) return;
+
+    setIsTranslating(true);
+    setError(null);
+    setResults(Object.fromEntries(targets.map(target => [target, { status: 'loading' } as TargetState])));
+
+    try {
+      let next: Record<string, TargetState>;
+      try {
+        const batch = await translateTextBatch(text, sourceLanguage, targets);
+        next = {};
+        targets.forEach((target) => {
+          const result = batch.translations[target];
+          if (result) {
+            next[target] = { status: 'done', result };
+            recordResult(text, target, result);
+          } else {
+            const reason = batch.errors?.[target];
+            next[target] = {
+              status: 'error',
+              error: reason ? { key: 'errors.rejected', params: { message: reason } } : { key: 'multi.noResult' }
+            };
+          }
+        });
+      } catch (err) {
+        console.error('Batch translation error:', err);
+        next = await translateIndividually(text, targets);
+      }
+
+      setResults(next);
+      if (Object.values(next).every(state => state.status === 'error')) {
+        setError({ key: 'errors.allTargetsFailed' });
+      }
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  const handleRetry = async (target: string) => {
+    const text = inputText.trim();
+    if (!text) return;
+
+    setResults(prev => ({ ...prev, [target]: { status: 'loading' } }));
+    try {
+      const result = await translateText(text, sourceLanguage, target);
+      setResults(prev => ({ ...prev, [target]: { status: 'done', result } }));
+      recordResult(text, target, result);
+    } catch (err) {
+      console.error('Translation error:', err);
+      setResults(prev => ({ ...prev, [target]: { status: 'error', error: { key: 'errors.targetFailed' } } }));
+    }
+  };
+
+  const handlePlay = async (target: string, text: string) => {
+    setPlayingTarget(target);
+    try {
+      await playBlob(await synthesizeText(text, target));
+    } catch (err) {
+      console.error('TTS error:', err);
+      setError({ key: 'errors.synthesisFailedFor', params: { language: languageName(target) } });
+    } finally {
+      setPlayingTarget(null);
+    }
+  };
+
+  return (
+    <Grid container spacing={3}>
+      <Grid item xs={12}>
+        <Card>
+          <CardContent>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+              <FormControl sx={{ minWidth: 150 }}>
+                <InputLabel id="multi-translate-from-label">{t('common.from')}</InputLabel>
+                <Select
+                  labelId="multi-translate-from-label"
+                  value={sourceLanguage}
+                  onChange={(e) => setSourceLanguage(e.target.value)}
+                  label={t('common.from')}
+                >
+                  {languages.map((lang) => (
+                    <MenuItem key={lang.code} value={lang.code}>
+                      {displayLanguageName(lang)}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl sx={{ minWidth: 300, flexGrow: 1 }}>
+                <InputLabel id="multi-translate-to-label">{t('common.to')}</InputLabel>
+                <Select
+                  labelId="multi-translate-to-label"
+                  multiple
+                  value={targetLanguages}
+                  onChange={(e) => {
+                    const value = e.target.value;
+                    setTargetLanguages(typeof value === 'string' ? value.split(',') : value);
+                  }}
+                  input={<OutlinedInput label={t('common.to')} />}
+                  renderValue={(selected) => (
+                    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                      {selected.map((code) => (
+                        <Chip key={code} label={languageName(code)} size="small" />
+                      ))}
+                    </Box>
+                  )}
+                >
+                  {languages
+                    .filter(lang => lang.code !== sourceLanguage)
+                    .map((lang) => (
+                      <MenuItem key={lang.code} value={lang.code}>
+                        {displayLanguageName(lang)}
+                      </MenuItem>
+                    ))}
+                </Select>
+              </FormControl>
+            </Box>
+
+            <TextField
+              fullWidth
+              multiline
+              rows={4}
+              variant="outlined"
+              placeholder={t('multi.placeholder')}
+              value={inputText}
+              onChange={(e) => setInputText(e.target.value)}
+              sx={{ mb: 2 }}
+            />
+
+            <Button
+              variant="contained"
+              fullWidth
+              onClick={handleTranslate}
+              disabled={isTranslating || !translationAvailable || !inputText.trim() || effectiveTargets.length === 0}
+              startIcon={isTranslating ? <CircularProgress size={20} /> : <Translate />}
+            >
+              {isTranslating ? t('translate.translating') : t('multi.translateTo', { count: effectiveTargets.length })}
+            </Button>
+            {!translationAvailable && (
+              <Typography variant="caption" color="error" display="block" sx={{ mt: 1 }}>
+                {t('common.translationUnavailable')}
+              </Typography>
+            )}
+          </CardContent>
+        </Card>
+      </Grid>
+
+      {error && (
+        <Grid item xs={12}>
+          <Alert severity="error" onClose={() => setError(null)}>
+            {t(error.key, error.params)}
+          </Alert>
+        </Grid>
+      )}
+
+      {Object.entries(results).map(([target, state]) => (
+        <Grid item xs={12} md={6} lg={4} key={target}>
+          <Card sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
+            <CardContent sx={{ flexGrow: 1 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                <Typography variant="h6" sx={{ flexGrow: 1 }}>
+                  {languageName(target)}
+                </Typography>
+                {state.status === 'done' && (
+                  <Chip
+                    label={t('common.confident', { percent: Math.round(state.result.confidence * 100) })}
+                    size="small"
+                    color="success"
+                  />
+                )}
+              </Box>
+              {state.status === 'loading' && <CircularProgress size={24} />}
+              {state.status === 'done' && (
+                <Typography variant="body1">{state.result.translated_text}</Typography>
+              )}
+              {state.status === 'error' && (
+                <Alert severity="error">{t(state.error.key, state.error.params)}</Alert>
+              )}
+            </CardContent>
+            <CardActions>
+              {state.status === 'done' && (
+                <>
+                  <Tooltip title={t('common.copy')}>
+                    <IconButton onClick={() => navigator.clipboard.writeText(state.result.translated_text)}>
+                      <FileCopy />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title={t('common.playAudio')}>
+                    <span>
+                      <IconButton
+                        onClick={() => handlePlay(target, state.result.translated_text)}
+                        disabled={playingTarget !== null || !ttsAvailable}
+                        aria-label={t('common.playAudio')}
+                      >
+                        {playingTarget === target ? <CircularProgress size={20} /> : <VolumeUp />}
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                </>
+              )}
+              {state.status === 'error' && (
+                <Button
+                  size="small"
+                  startIcon={<Replay />}
+                  onClick={() => handleRetry(target)}
+                  disabled={!translationAvailable}
+                >
+                  {t('common.retry')}
+                </Button>
+              )}
+            </CardActions>
+          </Card>
+        </Grid>
+      ))}
+    </Grid>
+  );
+}
+
+export default MultiTranslateMode;
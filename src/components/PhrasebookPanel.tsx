@@ -0,0 +1,178 @@
+import { useState, useRef, ChangeEvent } from 'react';
+import {
+  Typography,
+  Button,
+  Select,
+  MenuItem,
+  Box,
+  Card,
+  CardContent,
+  Chip,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Tooltip,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import { PlayArrow, Delete, Download, Upload } from '@mui/icons-material';
+import { Phrase } from '../types/phrasebook';
+import { playBlob } from '../utils/audio';
+import { useI18n } from '../hooks/useI18n';
+import { LocalizedMessage } from '../types/i18n';
+import { categoryLabel } from '../hooks/usePhrasebook';
+
+interface PhrasebookPanelProps {
+  phrases: Phrase[];
+  categories: string[];
+  error: LocalizedMessage | null;
+  getPhraseAudio: (phrase: Phrase) => Promise<Blob>;
+  onUpdate: (id: string, changes: Partial<Omit<Phrase, 'id'>>) => void;
+  onDelete: (id: string) => void;
+  onExport: (category?: string) => void;
+  onImport: (file: File) => Promise<number>;
+}
+
+function PhrasebookPanel(props: PhrasebookPanelProps) {
+  const { phrases, categories, error, getPhraseAudio, onUpdate, onDelete, onExport, onImport } = props;
+  const { t } = useI18n();
+
+  const [category, setCategory] = useState<string | null>(null);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<LocalizedMessage | null>(null);
+  const [playError, setPlayError] = useState<LocalizedMessage | null>(null);
+
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const shownError = error ?? playError;
+  const visiblePhrases = category ? phrases.filter(phrase => phrase.category === category) : phrases;
+
+  const handlePlay = async (phrase: Phrase) => {
+    setPlayError(null);
+    setPlayingId(phrase.id);
+    try {
+      await playBlob(await getPhraseAudio(phrase));
+    } catch (err) {
+      console.error('Phrase playback error:', err);
+      setPlayError({ key: 'errors.phrasePlayback' });
+    } finally {
+      setPlayingId(null);
+    }
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const count = await onImport(file);
+    setMessage(count > 0 ? { key: 'phrasebook.imported', params: { count } } : null);
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1, mb: 2 }}>
+          <Chip
+            label={t('phrasebook.all')}
+            color={category === null ? 'primary' : 'default'}
+            onClick={() => setCategory(null)}
+          />
+          {categories.map((name) => (
+            <Chip
+              key={name}
+              label={categoryLabel(name, t)}
+              color={category === name ? 'primary' : 'default'}
+              onClick={() => setCategory(name)}
+            />
+          ))}
+          <Box sx={{ flexGrow: 1 }} />
+          <input
+            type="file"
+            accept="application/json,.json"
+            style={{ display: 'none' }}
+            ref={importInputRef}
+            onChange={handleImport}
+          />
+          <Button
+            variant="outlined"
+            startIcon={<Upload />}
+            onClick={() => importInputRef.current?.click()}
+          >
+            {t('common.import')}
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<Download />}
+            onClick={() => onExport(category ?? undefined)}
+            disabled={visiblePhrases.length === 0}
+          >
+            {t('common.export')}
+          </Button>
+        </Box>
+
+        {shownError && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {t(shownError.key, shownError.params)}
+          </Alert>
+        )}
+        {message && (
+          <Alert severity="success" sx={{ mb: 2 }} onClose={() => setMessage(null)}>
+            {t(message.key, message.params)}
+          </Alert>
+        )}
+
+        {visiblePhrases.length === 0 && (
+          <Typography variant="body2" color="text.secondary" align="center">
+            {t('phrasebook.empty')}
+          </Typography>
+        )}
+
+        <List>
+          {visiblePhrases.map((phrase) => (
+            <ListItem
+              key={phrase.id}
+              divider
+              secondaryAction={
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Select
+                    size="small"
+                    value={phrase.category}
+                    onChange={(e) => onUpdate(phrase.id, { category: e.target.value })}
+                  >
+                    {categories.map((name) => (
+                      <MenuItem key={name} value={name}>
+                        {categoryLabel(name, t)}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                  <Tooltip title={t('phrasebook.play')}>
+                    <span>
+                      <IconButton onClick={() => handlePlay(phrase)} disabled={playingId !== null} aria-label={t('phrasebook.play')}>
+                        {playingId === phrase.id ? <CircularProgress size={20} /> : <PlayArrow />}
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title={t('common.delete')}>
+                    <IconButton onClick={() => onDelete(phrase.id)}>
+                      <Delete />
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+              }
+            >
+              <ListItemText
+                sx={{ pr: 30 }}
+                primary={phrase.translatedText}
+                secondary={`${phrase.sourceText} (${phrase.sourceLanguage.toUpperCase()} → ${phrase.targetLanguage.toUpperCase()})`}
+              />
+            </ListItem>
+          ))}
+        </List>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default PhrasebookPanel;
@@ -0,0 +1,24 @@
+import { Box, CircularProgress, Typography, useMediaQuery } from '@mui/material';
+import { FiberManualRecord } from '@mui/icons-material';
+
+interface RecordingIndicatorProps {
+  label: string;
+}
+
+// A spinning indicator is replaced by a steady dot for people who ask for reduced motion
+function RecordingIndicator({ label }: RecordingIndicatorProps) {
+  const reduceMotion = useMediaQuery('(prefers-reduced-motion: reduce)');
+
+  return (
+    <Box sx={{ textAlign: 'center', mb: 2 }}>
+      {reduceMotion
+        ? <FiberManualRecord color="error" fontSize="large" aria-hidden />
+        : <CircularProgress aria-hidden />}
+      <Typography variant="body2" color="text.secondary">
+        {label}
+      </Typography>
+    </Box>
+  );
+}
+
+export default RecordingIndicator;
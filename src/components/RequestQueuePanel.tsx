@@ -0,0 +1,115 @@
+import {
+  Alert,
+  AlertTitle,
+  Box,
+  Button,
+  Chip,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Tooltip
+} from '@mui/material';
+import { Close, Replay } from '@mui/icons-material';
+import { QueuedRequest } from '../types/queue';
+import { I18nContextValue, useI18n } from '../hooks/useI18n';
+
+interface RequestQueuePanelProps {
+  items: QueuedRequest[];
+  isConnected: boolean;
+  onRetry: (id?: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const STATUS_COLORS = {
+  pending: 'default',
+  running: 'info',
+  failed: 'error'
+} as const;
+
+const describe = (item: QueuedRequest, t: I18nContextValue['t']) =>
+  item.kind === 'translation'
+    ? {
+        primary: item.text,
+        secondary: t('queue.translation', {
+          source: item.sourceLanguage.toUpperCase(),
+          target: item.targetLanguage.toUpperCase()
+        })
+      }
+    : {
+        primary: item.file.name,
+        secondary: t('queue.transcription', { language: item.language.toUpperCase() })
+      };
+
+function RequestQueuePanel(props: RequestQueuePanelProps) {
+  const { items, isConnected, onRetry, onRemove } = props;
+  const { t } = useI18n();
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  const hasFailures = items.some(item => item.status === 'failed');
+
+  return (
+    <Alert
+      severity={isConnected ? 'info' : 'warning'}
+      sx={{ mb: 3, '& .MuiAlert-message': { flexGrow: 1 } }}
+      action={
+        hasFailures && isConnected ? (
+          <Button color="inherit" size="small" startIcon={<Replay />} onClick={() => onRetry()}>
+            {t('queue.retryAll')}
+          </Button>
+        ) : undefined
+      }
+    >
+      <AlertTitle>
+        {t(isConnected ? 'queue.queued' : 'queue.offline', { count: items.length })}
+      </AlertTitle>
+      <List dense disablePadding>
+        {items.map((item) => {
+          const { primary, secondary } = describe(item, t);
+          return (
+            <ListItem
+              key={item.id}
+              disableGutters
+              secondaryAction={
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Chip label={t(`queue.status.${item.status}`)} size="small" color={STATUS_COLORS[item.status]} />
+                  {item.status === 'failed' && (
+                    <Tooltip title={item.error ?? t('common.retry')}>
+                      <IconButton size="small" onClick={() => onRetry(item.id)} disabled={!isConnected}>
+                        <Replay fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                  <Tooltip title={t('queue.remove')}>
+                    <span>
+                      <IconButton
+                        size="small"
+                        onClick={() => onRemove(item.id)}
+                        disabled={item.status === 'running'}
+                        aria-label={t('queue.remove')}
+                      >
+                        <Close fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                </Box>
+              }
+            >
+              <ListItemText
+                sx={{ pr: 18 }}
+                primary={primary}
+                secondary={secondary}
+                primaryTypographyProps={{ noWrap: true }}
+              />
+            </ListItem>
+          );
+        })}
+      </List>
+    </Alert>
+  );
+}
+
+export default RequestQueuePanel;
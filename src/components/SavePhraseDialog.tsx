@@ -0,0 +1,70 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Autocomplete,
+  Typography
+} from '@mui/material';
+import { useI18n } from '../hooks/useI18n';
+import { categoryLabel, DEFAULT_CATEGORY } from '../hooks/usePhrasebook';
+
+interface SavePhraseDialogProps {
+  open: boolean;
+  sourceText: string;
+  translatedText: string;
+  categories: string[];
+  onClose: () => void;
+  onSave: (category: string) => void;
+}
+
+function SavePhraseDialog(props: SavePhraseDialogProps) {
+  const { open, sourceText, translatedText, categories, onClose, onSave } = props;
+  const { t } = useI18n();
+  const [category, setCategory] = useState('');
+
+  // The built-in category is typed and picked by its translated name but saved by its id
+  const handleSave = () => {
+    const trimmed = category.trim();
+    onSave(trimmed === categoryLabel(DEFAULT_CATEGORY, t) ? DEFAULT_CATEGORY : trimmed);
+  };
+
+  useEffect(() => {
+    if (open) {
+      setCategory('');
+    }
+  }, [open]);
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>{t('phrasebook.saveTitle')}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body1">{translatedText}</Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          {sourceText}
+        </Typography>
+        <Autocomplete
+          freeSolo
+          options={categories}
+          getOptionLabel={(option) => categoryLabel(option, t)}
+          inputValue={category}
+          onInputChange={(_, value) => setCategory(value)}
+          renderInput={(params) => (
+            <TextField {...params} label={t('phrasebook.category')} placeholder={t('phrasebook.categoryPlaceholder')} autoFocus />
+          )}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('common.cancel')}</Button>
+        <Button variant="contained" onClick={handleSave}>
+          {t('common.save')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default SavePhraseDialog;
@@ -0,0 +1,111 @@
+import { useEffect, useRef } from 'react';
+import { Alert, Box, IconButton, LinearProgress, Paper, Tooltip, Typography } from '@mui/material';
+import { Pause, PlayArrow, SkipNext, SkipPrevious, Stop } from '@mui/icons-material';
+import { useSentenceSpeech } from '../hooks/useSentenceSpeech';
+import { useI18n } from '../hooks/useI18n';
+
+type SentenceSpeech = ReturnType<typeof useSentenceSpeech>;
+
+interface SentenceReaderProps {
+  speech: SentenceSpeech;
+}
+
+function SentenceReader({ speech }: SentenceReaderProps) {
+  const { sentences, clipStatus, currentIndex, status, error, skip, jumpTo, togglePause, stop } = speech;
+  const { t } = useI18n();
+
+  const currentRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    currentRef.current?.scrollIntoView?.({ block: 'nearest', behavior: 'smooth' });
+  }, [currentIndex]);
+
+  if (sentences.length === 0) return null;
+
+  const isActive = status !== 'idle';
+  const readyCount = clipStatus.filter(clip => clip !== 'pending').length;
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <Tooltip title={t('reader.previous')}>
+          <span>
+            <IconButton size="small" onClick={() => skip(-1)} disabled={!isActive || currentIndex <= 0} aria-label={t('reader.previous')}>
+              <SkipPrevious />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <IconButton
+          onClick={togglePause}
+          disabled={!isActive || status === 'loading'}
+          aria-label={t(status === 'playing' ? 'reader.pause' : 'reader.resume')}
+        >
+          {status === 'playing' ? <Pause /> : <PlayArrow />}
+        </IconButton>
+        <Tooltip title={t('reader.next')}>
+          <span>
+            <IconButton
+              size="small"
+              onClick={() => skip(1)}
+              disabled={!isActive || currentIndex >= sentences.length - 1}
+              aria-label={t('reader.next')}
+            >
+              <SkipNext />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title={t('reader.stop')}>
+          <span>
+            <IconButton size="small" onClick={stop} disabled={!isActive} aria-label={t('reader.stop')}>
+              <Stop />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Typography variant="body2" color="text.secondary" sx={{ flexGrow: 1 }}>
+          {isActive
+            ? t(status === 'loading' ? 'reader.positionLoading' : 'reader.position', {
+              current: currentIndex + 1,
+              total: sentences.length
+            })
+            : t('reader.count', { count: sentences.length })}
+        </Typography>
+      </Box>
+
+      {isActive && readyCount < sentences.length && (
+        <LinearProgress variant="determinate" value={(readyCount / sentences.length) * 100} sx={{ mb: 1 }} />
+      )}
+
+      {error && (
+        <Alert severity="warning" sx={{ mb: 1 }}>
+          {t(error.key, error.params)}
+        </Alert>
+      )}
+
+      <Paper variant="outlined" sx={{ p: 2, maxHeight: 300, overflowY: 'auto', lineHeight: 1.8 }}>
+        {sentences.map((sentence, index) => {
+          const isCurrent = index === currentIndex;
+          return (
+            <Box
+              key={`${sentence.start}-${index}`}
+              component="span"
+              ref={isCurrent ? currentRef : undefined}
+              onClick={() => jumpTo(index)}
+              sx={{
+                cursor: isActive ? 'pointer' : 'default',
+                borderRadius: 0.5,
+                px: 0.25,
+                bgcolor: isCurrent ? 'warning.light' : 'transparent',
+                color: clipStatus[index] === 'failed' ? 'error.main' : 'inherit',
+                textDecoration: clipStatus[index] === 'failed' ? 'line-through' : 'none'
+              }}
+            >
+              {sentence.text}{' '}
+            </Box>
+          );
+        })}
+      </Paper>
+    </Box>
+  );
+}
+
+export default SentenceReader;
@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemText,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { Refresh } from '@mui/icons-material';
+import { MonitoredService, Outage, ServiceState, ServiceStatus } from '../types/health';
+import { I18nContextValue, useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../i18n/messages/en';
+import { UiLanguage } from '../types/i18n';
+
+interface ServiceHealthPanelProps {
+  statuses: Record<MonitoredService, ServiceStatus>;
+  outages: Outage[];
+  monitorStreaming: boolean;
+  onCheckNow: () => void;
+}
+
+const SERVICE_LABELS: Record<MonitoredService, MessageKey> = {
+  translation: 'health.service.translation',
+  stt: 'health.service.stt',
+  tts: 'health.service.tts',
+  streaming: 'health.service.streaming'
+};
+
+const STATE_COLORS = {
+  unknown: 'default',
+  healthy: 'success',
+  degraded: 'warning',
+  down: 'error'
+} as const;
+
+const STATE_LABELS: Record<ServiceState, MessageKey> = {
+  unknown: 'health.state.unknown',
+  healthy: 'health.state.healthy',
+  degraded: 'health.state.degraded',
+  down: 'health.state.down'
+};
+
+const formatTime = (iso: string | null, language: UiLanguage) =>
+  (iso ? new Date(iso).toLocaleTimeString(language) : '—');
+
+const formatDuration = (outage: Outage, t: I18nContextValue['t']) => {
+  const end = outage.endedAt ? new Date(outage.endedAt).getTime() : Date.now();
+  const seconds = Math.max(0, Math.round((end - new Date(outage.startedAt).getTime()) / 1000));
+  return seconds < 60
+    ? t('health.seconds', { seconds })
+    : t('health.minutes', { minutes: Math.floor(seconds / 60), seconds: seconds % 60 });
+};
+
+function ServiceHealthPanel(props: ServiceHealthPanelProps) {
+  const { statuses, outages, monitorStreaming, onCheckNow } = props;
+  const { t, uiLanguage } = useI18n();
+  const [open, setOpen] = useState(false);
+
+  const services = (Object.keys(SERVICE_LABELS) as MonitoredService[])
+    .filter(service => service !== 'streaming' || monitorStreaming);
+
+  return (
+    <>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: 1 }}>
+        {services.map((service) => {
+          const status = statuses[service];
+          return (
+            <Chip
+              key={service}
+              label={t('health.chip', {
+                service: t(SERVICE_LABELS[service]),
+                detail: status.latencyMs !== null
+                  ? t('health.latencyMs', { latency: status.latencyMs })
+                  : t(STATE_LABELS[status.state])
+              })}
+              color={STATE_COLORS[status.state]}
+              variant="outlined"
+              onClick={() => setOpen(true)}
+            />
+          );
+        })}
+      </Box>
+
+      <Dialog open={open} onClose={() => setOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>{t('health.title')}</DialogTitle>
+        <DialogContent>
+          <Table size="small" sx={{ mb: 3 }}>
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('health.service')}</TableCell>
+                <TableCell>{t('health.status')}</TableCell>
+                <TableCell align="right">{t('health.latency')}</TableCell>
+                <TableCell>{t('health.version')}</TableCell>
+                <TableCell>{t('health.lastCheck')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {services.map((service) => {
+                const status = statuses[service];
+                return (
+                  <TableRow key={service}>
+                    <TableCell>{t(SERVICE_LABELS[service])}</TableCell>
+                    <TableCell>
+                      <Chip size="small" label={t(STATE_LABELS[status.state])} color={STATE_COLORS[status.state]} />
+                      {status.error && (
+                        <Typography variant="caption" color="text.secondary" display="block">
+                          {t(status.error.key, status.error.params)}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="right">{status.latencyMs !== null ? t('health.latencyMs', { latency: status.latencyMs }) : '—'}</TableCell>
+                    <TableCell>{status.version ?? '—'}</TableCell>
+                    <TableCell>{formatTime(status.lastChecked, uiLanguage)}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+
+          <Typography variant="subtitle1" gutterBottom>
+            {t('health.recentOutages')}
+          </Typography>
+          {outages.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              {t('health.noOutages')}
+            </Typography>
+          ) : (
+            <List dense disablePadding>
+              {outages.map((outage) => (
+                <ListItem key={outage.id} disableGutters>
+                  <ListItemText
+                    primary={t(outage.endedAt ? 'health.outageResolved' : 'health.outageOngoing', {
+                      service: t(SERVICE_LABELS[outage.service]),
+                      duration: formatDuration(outage, t)
+                    })}
+                    secondary={`${formatTime(outage.startedAt, uiLanguage)} – ${formatTime(outage.endedAt, uiLanguage)}${outage.error ? ` · ${t(outage.error.key, outage.error.params)}` : ''}`}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button startIcon={<Refresh />} onClick={onCheckNow}>
+            {t('health.checkNow')}
+          </Button>
+          <Button onClick={() => setOpen(false)}>{t('health.close')}</Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+}
+
+export default ServiceHealthPanel;
@@ -0,0 +1,69 @@
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow
+} from '@mui/material';
+import { useI18n } from '../hooks/useI18n';
+import { ShortcutId } from '../types/a11y';
+import { SHORTCUTS, shortcutKeys } from '../utils/shortcuts';
+
+interface ShortcutHelpDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const SHORTCUT_ORDER: ShortcutId[] = ['translate', 'swap', 'record', 'play', 'help'];
+
+function ShortcutHelpDialog({ open, onClose }: ShortcutHelpDialogProps) {
+  const { t } = useI18n();
+
+  return (
+    <Dialog open={open} onClose={onClose} aria-labelledby="shortcut-help-title" maxWidth="xs" fullWidth>
+      <DialogTitle id="shortcut-help-title">{t('shortcuts.title')}</DialogTitle>
+      <DialogContent>
+        <Table size="small">
+          <TableBody>
+            {SHORTCUT_ORDER.map((id) => (
+              <TableRow key={id}>
+                <TableCell>{t(`shortcuts.${id}`)}</TableCell>
+                <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                  {shortcutKeys(SHORTCUTS[id]).map((key, i) => (
+                    <span key={key}>
+                      {i > 0 && ' + '}
+                      <Box
+                        component="kbd"
+                        sx={{
+                          px: 0.75,
+                          py: 0.25,
+                          border: 1,
+                          borderColor: 'divider',
+                          borderRadius: 1,
+                          fontFamily: 'monospace',
+                          fontSize: '0.85em'
+                        }}
+                      >
+                        {key}
+                      </Box>
+                    </span>
+                  ))}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('shortcuts.close')}</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default ShortcutHelpDialog;
@@ -0,0 +1,61 @@
+import { Box, Button, Slider, Typography } from '@mui/material';
+import { RestartAlt } from '@mui/icons-material';
+import { SpeechSettings } from '../types/tts';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../i18n/messages/en';
+
+interface SpeechControlsProps {
+  settings: SpeechSettings;
+  onChange: (changes: Partial<SpeechSettings>) => void;
+  onReset: () => void;
+  disabled?: boolean;
+}
+
+interface SliderSpec {
+  name: keyof SpeechSettings;
+  label: MessageKey;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+const SLIDERS: SliderSpec[] = [
+  { name: 'speed', label: 'tts.speed', min: 0.5, max: 2, step: 0.05, format: value => `${value.toFixed(2)}×` },
+  { name: 'pitch', label: 'tts.pitch', min: 0.5, max: 2, step: 0.05, format: value => `${value.toFixed(2)}×` },
+  { name: 'volume', label: 'tts.volume', min: 0, max: 1, step: 0.05, format: value => `${Math.round(value * 100)}%` }
+];
+
+function SpeechControls(props: SpeechControlsProps) {
+  const { settings, onChange, onReset, disabled = false } = props;
+  const { t } = useI18n();
+
+  return (
+    <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', columnGap: 4, rowGap: 1 }}>
+      {SLIDERS.map((spec) => (
+        <Box key={spec.name} sx={{ flex: '1 1 180px' }}>
+          <Typography variant="body2" id={`speech-${spec.name}-label`}>
+            {t(spec.label)}: {spec.format(settings[spec.name])}
+          </Typography>
+          <Slider
+            size="small"
+            value={settings[spec.name]}
+            min={spec.min}
+            max={spec.max}
+            step={spec.step}
+            disabled={disabled}
+            valueLabelDisplay="auto"
+            valueLabelFormat={spec.format}
+            aria-labelledby={`speech-${spec.name}-label`}
+            onChange={(_, value) => onChange({ [spec.name]: value as number })}
+          />
+        </Box>
+      ))}
+      <Button size="small" startIcon={<RestartAlt />} onClick={onReset} disabled={disabled}>
+        {t('tts.reset')}
+      </Button>
+    </Box>
+  );
+}
+
+export default SpeechControls;
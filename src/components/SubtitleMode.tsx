@@ -0,0 +1,368 @@
+import { useState, useRef, ChangeEvent } from 'react';
+import {
+  Grid,
+  Typography,
+  TextField,
+  Button,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  Box,
+  Alert,
+  Card,
+  CardContent,
+  IconButton,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip
+} from '@mui/material';
+import { Translate, Upload, Download, Stop, Replay } from '@mui/icons-material';
+import { useCreoleAPI } from '../hooks/useCreoleAPI';
+import { SubtitleCue, SubtitleFormat } from '../types/subtitles';
+import { detectSubtitleFormat, formatSubtitles, formatTimestamp, parseSubtitles } from '../utils/subtitles';
+import { createDedupedTranslator } from '../utils/rateLimit';
+import { downloadText } from '../utils/download';
+import { useI18n } from '../hooks/useI18n';
+import { displayLanguageName } from '../i18n/format';
+import { LocalizedMessage } from '../types/i18n';
+
+type CreoleAPI = ReturnType<typeof useCreoleAPI>;
+
+interface SubtitleModeProps {
+  languages: CreoleAPI['languages'];
+  translateText: CreoleAPI['translateText'];
+  translationAvailable?: boolean;
+}
+
+function SubtitleMode(props: SubtitleModeProps) {
+  const { languages, translateText, translationAvailable = true } = props;
+  const { t } = useI18n();
+
+  const [fileName, setFileName] = useState('');
+  const [inputFormat, setInputFormat] = useState<SubtitleFormat>('srt');
+  const [outputFormat, setOutputFormat] = useState<SubtitleFormat>('srt');
+  const [cues, setCues] = useState<SubtitleCue[]>([]);
+  const [translations, setTranslations] = useState<Record<string, string>>({});
+  const [failedCues, setFailedCues] = useState<Set<string>>(new Set());
+  const [sourceLanguage, setSourceLanguage] = useState('en');
+  const [targetLanguage, setTargetLanguage] = useState('ht');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<LocalizedMessage | null>(null);
+  // Set while asking whether to download with untranslated cues
+  const [pendingDownload, setPendingDownload] = useState(false);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const limiterRef = useRef<ReturnType<typeof createDedupedTranslator> | null>(null);
+  const cancelledRef = useRef(false);
+
+  const handleFileUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    try {
+      const content = await file.text();
+      const format = detectSubtitleFormat(content, file.name);
+      setCues(parseSubtitles(content));
+      setInputFormat(format);
+      setOutputFormat(format);
+      setFileName(file.name);
+      setTranslations({});
+      setFailedCues(new Set());
+    } catch (err) {
+      console.error('Subtitle parse error:', err);
+      setError({ key: 'errors.subtitlesUnreadable' });
+    }
+  };
+
+  const translateCues = async (selection: SubtitleCue[]) => {
+    const translator = createDedupedTranslator(async (text) => {
+      const result = await translateText(text, sourceLanguage, targetLanguage);
+      return result.translated_text;
+    });
+    limiterRef.current = translator;
+    cancelledRef.current = false;
+
+    let completed = 0;
+    setProgress(0);
+    setError(null);
+
+    const outcomes = await Promise.allSettled(selection.map(async (cue) => {
+      try {
+        const translated = cue.text.trim() ? await translator.translate(cue.text) : '';
+        setTranslations(prev => ({ ...prev, [cue.id]: translated }));
+        setFailedCues(prev => {
+          const next = new Set(prev);
+          next.delete(cue.id);
+          return next;
+        });
+      } catch (err) {
+        setFailedCues(prev => new Set(prev).add(cue.id));
+        throw err;
+      } finally {
+        completed++;
+        setProgress((completed / selection.length) * 100);
+      }
+    }));
+
+    limiterRef.current = null;
+    setProgress(null);
+
+    const failures = outcomes.filter(outcome => outcome.status === 'rejected').length;
+    if (cancelledRef.current) {
+      setError({ key: 'errors.translationCancelled' });
+    } else if (failures > 0) {
+      setError({ key: 'errors.cuesUntranslated', params: { count: failures } });
+    }
+  };
+
+  // Cues translated into another language must not be mixed into the new one
+  const changeLanguages = (source: string, target: string) => {
+    setSourceLanguage(source);
+    setTargetLanguage(target);
+    setTranslations({});
+    setFailedCues(new Set());
+    setPendingDownload(false);
+  };
+
+  const handleCancel = () => {
+    cancelledRef.current = true;
+    limiterRef.current?.clear();
+  };
+
+  const handleDownload = (confirmed = false) => {
+    if (untranslated.length > 0 && !confirmed) {
+      setPendingDownload(true);
+      return;
+    }
+    setPendingDownload(false);
+
+    const translatedCues = cues.map(cue => ({ ...cue, text: translations[cue.id] ?? cue.text }));
+    const baseName = fileName.replace(/\.(srt|vtt)$/i, '') || 'subtitles';
+    downloadText(
+      formatSubtitles(translatedCues, outputFormat),
+      `${baseName}.${targetLanguage}.${outputFormat}`,
+      outputFormat === 'vtt' ? 'text/vtt' : 'application/x-subrip'
+    );
+  };
+
+  const isTranslating = progress !== null;
+  const untranslated = cues.filter(cue => translations[cue.id] === undefined);
+
+  return (
+    <Grid container spacing={3}>
+      <Grid item xs={12}>
+        <Card>
+          <CardContent>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, mb: 2 }}>
+              <input
+                type="file"
+                accept=".srt,.vtt,text/vtt,application/x-subrip"
+                style={{ display: 'none' }}
+                ref={fileInputRef}
+                onChange={handleFileUpload}
+              />
+              <Button
+                variant="outlined"
+                startIcon={<Upload />}
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isTranslating}
+              >
+                {t('subtitles.upload')}
+              </Button>
+              {fileName && (
+                <Typography variant="body2" color="text.secondary">
+                  {t('subtitles.fileSummary', { file: fileName, count: cues.length, format: inputFormat.toUpperCase() })}
+                </Typography>
+              )}
+              <Box sx={{ flexGrow: 1 }} />
+              <FormControl sx={{ minWidth: 130 }} size="small">
+                <InputLabel id="subtitles-from-label">{t('common.from')}</InputLabel>
+                <Select
+                  labelId="subtitles-from-label"
+                  value={sourceLanguage}
+                  onChange={(e) => changeLanguages(e.target.value, targetLanguage)}
+                  label={t('common.from')}
+                  disabled={isTranslating}
+                >
+                  {languages.map((lang) => (
+                    <MenuItem key={lang.code} value={lang.code}>
+                      {displayLanguageName(lang)}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl sx={{ minWidth: 130 }} size="small">
+                <InputLabel id="subtitles-to-label">{t('common.to')}</InputLabel>
+                <Select
+                  labelId="subtitles-to-label"
+                  value={targetLanguage}
+                  onChange={(e) => changeLanguages(sourceLanguage, e.target.value)}
+                  label={t('common.to')}
+                  disabled={isTranslating}
+                >
+                  {languages.map((lang) => (
+                    <MenuItem key={lang.code} value={lang.code}>
+                      {displayLanguageName(lang)}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Box>
+
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+              {isTranslating ? (
+                <Button variant="contained" color="error" startIcon={<Stop />} onClick={handleCancel}>
+                  {t('common.cancel')}
+                </Button>
+              ) : (
+                <>
+                  <Button
+                    variant="contained"
+                    startIcon={<Translate />}
+                    onClick={() => translateCues(cues)}
+                    disabled={cues.length === 0 || !translationAvailable}
+                  >
+                    {t('subtitles.translateAll')}
+                  </Button>
+                  <Button
+                    variant="outlined"
+                    onClick={() => translateCues(untranslated)}
+                    disabled={untranslated.length === 0 || untranslated.length === cues.length || !translationAvailable}
+                  >
+                    {t('subtitles.translateRemaining', { count: untranslated.length })}
+                  </Button>
+                </>
+              )}
+              <Box sx={{ flexGrow: 1 }} />
+              <FormControl sx={{ minWidth: 110 }} size="small">
+                <InputLabel id="subtitles-format-label">{t('common.format')}</InputLabel>
+                <Select
+                  labelId="subtitles-format-label"
+                  value={outputFormat}
+                  onChange={(e) => setOutputFormat(e.target.value as SubtitleFormat)}
+                  label={t('common.format')}
+                >
+                  <MenuItem value="srt">SRT</MenuItem>
+                  <MenuItem value="vtt">WebVTT</MenuItem>
+                </Select>
+              </FormControl>
+              <Button
+                variant="outlined"
+                startIcon={<Download />}
+                onClick={() => handleDownload()}
+                disabled={cues.length === 0 || isTranslating}
+              >
+                {t('common.download')}
+              </Button>
+            </Box>
+
+            {!translationAvailable && (
+              <Typography variant="caption" color="error" display="block" sx={{ mt: 1 }}>
+                {t('common.translationUnavailable')}
+              </Typography>
+            )}
+
+            {isTranslating && (
+              <LinearProgress variant="determinate" value={progress ?? 0} sx={{ mt: 2 }} />
+            )}
+
+            {pendingDownload && (
+              <Alert
+                severity="warning"
+                sx={{ mt: 2 }}
+                action={
+                  <>
+                    <Button color="inherit" size="small" onClick={() => handleDownload(true)}>
+                      {t('subtitles.downloadAnyway')}
+                    </Button>
+                    <Button color="inherit" size="small" onClick={() => setPendingDownload(false)}>
+                      {t('common.cancel')}
+                    </Button>
+                  </>
+                }
+              >
+                {t('subtitles.untranslatedWarning', { count: untranslated.length })}
+              </Alert>
+            )}
+          </CardContent>
+        </Card>
+      </Grid>
+
+      {error && (
+        <Grid item xs={12}>
+          <Alert severity="error" onClose={() => setError(null)}>
+            {t(error.key, error.params)}
+          </Alert>
+        </Grid>
+      )}
+
+      {cues.length > 0 && (
+        <Grid item xs={12}>
+          <TableContainer component={Card} sx={{ maxHeight: 600 }}>
+            <Table stickyHeader size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>#</TableCell>
+                  <TableCell>{t('subtitles.timing')}</TableCell>
+                  <TableCell sx={{ width: '35%' }}>{t('common.original')}</TableCell>
+                  <TableCell sx={{ width: '45%' }}>{t('common.translation')}</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {cues.map((cue, i) => (
+                  <TableRow key={cue.id}>
+                    <TableCell>{cue.identifier ?? i + 1}</TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap', fontFamily: 'monospace' }}>
+                      {formatTimestamp(cue.start, outputFormat)}
+                      <br />
+                      {formatTimestamp(cue.end, outputFormat)}
+                    </TableCell>
+                    <TableCell sx={{ whiteSpace: 'pre-line' }}>{cue.text}</TableCell>
+                    <TableCell>
+                      <TextField
+                        fullWidth
+                        multiline
+                        size="small"
+                        value={translations[cue.id] ?? ''}
+                        placeholder={cue.text}
+                        error={failedCues.has(cue.id)}
+                        helperText={failedCues.has(cue.id) ? t('subtitles.translationFailed') : undefined}
+                        onChange={(e) => setTranslations(prev => ({ ...prev, [cue.id]: e.target.value }))}
+                        inputProps={{ 'aria-label': t('subtitles.cueTranslation', { number: cue.identifier ?? i + 1 }) }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Tooltip title={t('subtitles.translateCue')}>
+                        <span>
+                          <IconButton
+                            size="small"
+                            onClick={() => translateCues([cue])}
+                            disabled={isTranslating || !translationAvailable}
+                            aria-label={t('subtitles.translateCue')}
+                          >
+                            <Replay fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Grid>
+      )}
+    </Grid>
+  );
+}
+
+export default SubtitleMode;
@@ -0,0 +1,434 @@
+import { useState, useRef, useEffect, ChangeEvent } from 'react';
+import {
+  Grid,
+  Typography,
+  TextField,
+  Button,
+  Select,
+  MenuItem,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Box,
+  Alert,
+  Card,
+  CardContent,
+  Checkbox,
+  IconButton,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip
+} from '@mui/material';
+import { Upload, Download, Delete } from '@mui/icons-material';
+import { useCreoleAPI } from '../hooks/useCreoleAPI';
+import { TranscriptionResult } from '../types/api';
+import { SubtitleCue } from '../types/subtitles';
+import {
+  formatPlainTranscript,
+  formatSubtitles,
+  formatTimestamp,
+  parseTimestamp,
+  transcriptionToCues
+} from '../utils/subtitles';
+import { extractAudioAsWav } from '../utils/audio';
+import { createDedupedTranslator } from '../utils/rateLimit';
+import { downloadText } from '../utils/download';
+import { AUTO_DETECT } from '../utils/languageDetection';
+import { describeError } from '../api/errors';
+import { useI18n } from '../hooks/useI18n';
+import { LocalizedMessage } from '../types/i18n';
+import { displayLanguageName } from '../i18n/format';
+
+type CreoleAPI = ReturnType<typeof useCreoleAPI>;
+
+interface TimedTranscriptModeProps {
+  languages: CreoleAPI['languages'];
+  transcribeAudio: CreoleAPI['transcribeAudio'];
+  translateText: CreoleAPI['translateText'];
+  sttAvailable?: boolean;
+  translationAvailable?: boolean;
+  onTranscribed?: (result: TranscriptionResult, fileName: string) => void;
+}
+
+type Track = 'original' | 'translation';
+type ExportFormat = 'srt' | 'vtt' | 'txt';
+
+const EXPORT_TYPES: Record<ExportFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  txt: 'text/plain'
+};
+
+interface TimestampFieldProps {
+  value: number;
+  label: string;
+  onChange: (value: number) => void;
+}
+
+// Edits a cue time as text and commits it on blur when it parses
+function TimestampField({ value, label, onChange }: TimestampFieldProps) {
+  const [draft, setDraft] = useState(formatTimestamp(value, 'vtt'));
+
+  useEffect(() => {
+    setDraft(formatTimestamp(value, 'vtt'));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = /^\s*(\d+:)?\d{1,2}:\d{2}([.,]\d{1,3})?\s*$/.test(draft) ? parseTimestamp(draft) : NaN;
+    if (Number.isNaN(parsed)) {
+      setDraft(formatTimestamp(value, 'vtt'));
+    } else {
+      onChange(parsed);
+    }
+  };
+
+  return (
+    <TextField
+      size="small"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      inputProps={{ 'aria-label': label, style: { fontFamily: 'monospace', width: 110 } }}
+    />
+  );
+}
+
+function TimedTranscriptMode(props: TimedTranscriptModeProps) {
+  const { languages, transcribeAudio, translateText, sttAvailable = true, translationAvailable = true, onTranscribed } = props;
+  const { t } = useI18n();
+
+  const [fileName, setFileName] = useState('');
+  const [language, setLanguage] = useState(AUTO_DETECT);
+  const [includeTranslation, setIncludeTranslation] = useState(false);
+  const [targetLanguage, setTargetLanguage] = useState('ht');
+  const [detectedLanguage, setDetectedLanguage] = useState<string | null>(null);
+  const [cues, setCues] = useState<SubtitleCue[]>([]);
+  const [translations, setTranslations] = useState<Record<string, string>>({});
+  const [status, setStatus] = useState<'idle' | 'transcribing' | 'translating'>('idle');
+  const [progress, setProgress] = useState(0);
+  const [exportTrack, setExportTrack] = useState<Track>('original');
+  const [error, setError] = useState<LocalizedMessage | null>(null);
+  // Set while asking whether to export a translation track that has untranslated segments
+  const [pendingExport, setPendingExport] = useState<ExportFormat | null>(null);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const translateCues = async (source: string, transcript: SubtitleCue[]) => {
+    const translator = createDedupedTranslator(async (text) => {
+      const result = await translateText(text, source, targetLanguage);
+      return result.translated_text;
+    });
+    let completed = 0;
+    setStatus('translating');
+    setProgress(0);
+
+    const outcomes = await Promise.allSettled(transcript.map(async (cue) => {
+      try {
+        const translated = await translator.translate(cue.text);
+        setTranslations(prev => ({ ...prev, [cue.id]: translated }));
+      } finally {
+        completed++;
+        setProgress((completed / transcript.length) * 100);
+      }
+    }));
+
+    const failures = outcomes.filter(outcome => outcome.status === 'rejected').length;
+    if (failures > 0) {
+      setError({ key: 'errors.segmentsUntranslated', params: { count: failures } });
+    }
+  };
+
+  const handleFileUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setStatus('transcribing');
+    setFileName(file.name);
+    setCues([]);
+    setTranslations({});
+    setDetectedLanguage(null);
+
+    try {
+      // Video containers are decoded locally so only the audio track is uploaded
+      const audioFile = file.type.startsWith('video/') ? await extractAudioAsWav(file) : file;
+      const result = await transcribeAudio(audioFile, language, 'word');
+      const transcript = transcriptionToCues(result).filter(cue => cue.text);
+
+      setCues(transcript);
+      setDetectedLanguage(result.language);
+      setExportTrack('original');
+      onTranscribed?.(result, file.name);
+
+      if (includeTranslation && translationAvailable && transcript.length > 0) {
+        await translateCues(result.language, transcript);
+      }
+    } catch (err) {
+      console.error('Transcription error:', err);
+      setError(describeError(err, 'errors.transcriptionFailed'));
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const updateCue = (id: string, changes: Partial<SubtitleCue>) => {
+    setCues(prev => prev.map(cue => (cue.id === id ? { ...cue, ...changes } : cue)));
+    // A translation of the old text would be exported as if it matched the new one
+    if (changes.text !== undefined) {
+      setTranslations(({ [id]: _stale, ...rest }) => rest);
+    }
+  };
+
+  const deleteCue = (id: string) => {
+    setCues(prev => prev.filter(cue => cue.id !== id));
+  };
+
+  const handleExport = (format: ExportFormat, confirmed = false) => {
+    if (exportTrack === 'translation' && untranslatedCount > 0 && !confirmed) {
+      setPendingExport(format);
+      return;
+    }
+    setPendingExport(null);
+
+    const track = exportTrack === 'translation'
+      ? cues.map(cue => ({ ...cue, text: translations[cue.id] ?? cue.text }))
+      : cues;
+    const content = format === 'txt' ? formatPlainTranscript(track) : formatSubtitles(track, format);
+    const trackLanguage = exportTrack === 'translation' ? targetLanguage : detectedLanguage ?? language;
+    const baseName = fileName.replace(/\.[^.]+$/, '') || 'transcript';
+    downloadText(content, `${baseName}.${trackLanguage}.${format}`, EXPORT_TYPES[format]);
+  };
+
+  const isBusy = status !== 'idle';
+  const hasTranslation = Object.keys(translations).length > 0;
+  const untranslatedCount = cues.filter(cue => translations[cue.id] === undefined).length;
+
+  return (
+    <Grid container spacing={3}>
+      <Grid item xs={12}>
+        <Card>
+          <CardContent>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, mb: 2 }}>
+              <FormControl sx={{ minWidth: 150 }} size="small">
+                <InputLabel id="timed-transcript-spoken-language-label">{t('transcript.spokenLanguage')}</InputLabel>
+                <Select
+                  labelId="timed-transcript-spoken-language-label"
+                  value={language}
+                  onChange={(e) => setLanguage(e.target.value)}
+                  label={t('transcript.spokenLanguage')}
+                  disabled={isBusy}
+                >
+                  <MenuItem value={AUTO_DETECT}>{t('common.autoDetect')}</MenuItem>
+                  {languages.map((lang) => (
+                    <MenuItem key={lang.code} value={lang.code}>
+                      {displayLanguageName(lang)}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={includeTranslation}
+                    onChange={(e) => setIncludeTranslation(e.target.checked)}
+                    disabled={isBusy || !translationAvailable}
+                  />
+                }
+                label={t('transcript.alsoTranslate')}
+              />
+              <FormControl sx={{ minWidth: 150 }} size="small">
+                <InputLabel id="timed-transcript-target-label">{t('transcript.target')}</InputLabel>
+                <Select
+                  labelId="timed-transcript-target-label"
+                  value={targetLanguage}
+                  onChange={(e) => setTargetLanguage(e.target.value)}
+                  label={t('transcript.target')}
+                  disabled={isBusy || !includeTranslation || !translationAvailable}
+                >
+                  {languages.map((lang) => (
+                    <MenuItem key={lang.code} value={lang.code}>
+                      {displayLanguageName(lang)}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <Box sx={{ flexGrow: 1 }} />
+              <input
+                type="file"
+                accept="audio/*,video/*"
+                style={{ display: 'none' }}
+                ref={fileInputRef}
+                onChange={handleFileUpload}
+              />
+              <Button
+                variant="contained"
+                startIcon={<Upload />}
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isBusy || !sttAvailable}
+              >
+                {t('transcript.upload')}
+              </Button>
+            </Box>
+
+            {(!sttAvailable || !translationAvailable) && (
+              <Typography variant="caption" color="error" display="block" sx={{ mb: 2 }}>
+                {t(!sttAvailable ? 'common.sttUnavailable' : 'common.translationUnavailable')}
+              </Typography>
+            )}
+
+            {status === 'transcribing' && (
+              <Box>
+                <LinearProgress />
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                  {t('transcript.transcribing', { file: fileName })}
+                </Typography>
+              </Box>
+            )}
+            {status === 'translating' && (
+              <Box>
+                <LinearProgress variant="determinate" value={progress} />
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                  {t('transcript.translating')}
+                </Typography>
+              </Box>
+            )}
+
+            {cues.length > 0 && (
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2 }}>
+                <Typography variant="body2" color="text.secondary" sx={{ flexGrow: 1 }}>
+                  {t('transcript.summary', { file: fileName, count: cues.length })}
+                  {detectedLanguage && ` (${detectedLanguage.toUpperCase()})`}
+                </Typography>
+                <FormControl sx={{ minWidth: 140 }} size="small">
+                  <InputLabel id="timed-transcript-track-label">{t('transcript.track')}</InputLabel>
+                  <Select
+                    labelId="timed-transcript-track-label"
+                    value={exportTrack}
+                    onChange={(e) => setExportTrack(e.target.value as Track)}
+                    label={t('transcript.track')}
+                  >
+                    <MenuItem value="original">{t('common.original')}</MenuItem>
+                    <MenuItem value="translation" disabled={!hasTranslation}>{t('common.translation')}</MenuItem>
+                  </Select>
+                </FormControl>
+                {(['srt', 'vtt', 'txt'] as ExportFormat[]).map((format) => (
+                  <Button
+                    key={format}
+                    variant="outlined"
+                    startIcon={<Download />}
+                    onClick={() => handleExport(format)}
+                    disabled={isBusy}
+                  >
+                    {format.toUpperCase()}
+                  </Button>
+                ))}
+              </Box>
+            )}
+
+            {pendingExport && (
+              <Alert
+                severity="warning"
+                sx={{ mt: 2 }}
+                action={
+                  <>
+                    <Button color="inherit" size="small" onClick={() => handleExport(pendingExport, true)}>
+                      {t('transcript.exportAnyway')}
+                    </Button>
+                    <Button color="inherit" size="small" onClick={() => setPendingExport(null)}>
+                      {t('common.cancel')}
+                    </Button>
+                  </>
+                }
+              >
+                {t('transcript.untranslatedWarning', { count: untranslatedCount })}
+              </Alert>
+            )}
+          </CardContent>
+        </Card>
+      </Grid>
+
+      {error && (
+        <Grid item xs={12}>
+          <Alert severity="error" onClose={() => setError(null)}>
+            {t(error.key, error.params)}
+          </Alert>
+        </Grid>
+      )}
+
+      {cues.length > 0 && (
+        <Grid item xs={12}>
+          <TableContainer component={Card} sx={{ maxHeight: 600 }}>
+            <Table stickyHeader size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('transcript.start')}</TableCell>
+                  <TableCell>{t('transcript.end')}</TableCell>
+                  <TableCell>{t('transcript.text')}</TableCell>
+                  {hasTranslation && <TableCell>{t('common.translation')}</TableCell>}
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {cues.map((cue, i) => (
+                  <TableRow key={cue.id}>
+                    <TableCell>
+                      <TimestampField
+                        value={cue.start}
+                        label={t('transcript.segmentStart', { number: i + 1 })}
+                        onChange={(start) => updateCue(cue.id, { start })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TimestampField
+                        value={cue.end}
+                        label={t('transcript.segmentEnd', { number: i + 1 })}
+                        onChange={(end) => updateCue(cue.id, { end })}
+                      />
+                    </TableCell>
+                    <TableCell sx={{ width: hasTranslation ? '35%' : '70%' }}>
+                      <TextField
+                        fullWidth
+                        multiline
+                        size="small"
+                        value={cue.text}
+                        onChange={(e) => updateCue(cue.id, { text: e.target.value })}
+                        inputProps={{ 'aria-label': t('transcript.segmentText', { number: i + 1 }) }}
+                      />
+                    </TableCell>
+                    {hasTranslation && (
+                      <TableCell sx={{ width: '35%' }}>
+                        <TextField
+                          fullWidth
+                          multiline
+                          size="small"
+                          value={translations[cue.id] ?? ''}
+                          onChange={(e) => setTranslations(prev => ({ ...prev, [cue.id]: e.target.value }))}
+                          inputProps={{ 'aria-label': t('transcript.segmentTranslation', { number: i + 1 }) }}
+                        />
+                      </TableCell>
+                    )}
+                    <TableCell>
+                      <Tooltip title={t('transcript.removeSegment')}>
+                        <IconButton size="small" onClick={() => deleteCue(cue.id)}>
+                          <Delete fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Grid>
+      )}
+    </Grid>
+  );
+}
+
+export default TimedTranscriptMode;
@@ -0,0 +1,99 @@
+import { Box, Button, Grid, Typography } from '@mui/material';
+import { Download, Replay, Save, Undo } from '@mui/icons-material';
+import { DiffPart } from '../types/review';
+import { diffWords } from '../utils/diff';
+import { useI18n } from '../hooks/useI18n';
+
+interface TranslationReviewProps {
+  machineTranslation: string;
+  correctedTranslation: string;
+  isSaved: boolean;
+  correctionCount: number;
+  failedFeedbackCount: number;
+  onSave: () => void;
+  onRevert: () => void;
+  onExport: () => void;
+  onRetryFeedback: () => void;
+}
+
+const PART_STYLES: Record<DiffPart['type'], object> = {
+  equal: {},
+  removed: { bgcolor: 'error.light', textDecoration: 'line-through' },
+  added: { bgcolor: 'success.light' }
+};
+
+// Machine output and the reviewer's correction side by side, with changed words marked
+function TranslationReview(props: TranslationReviewProps) {
+  const {
+    machineTranslation,
+    correctedTranslation,
+    isSaved,
+    correctionCount,
+    failedFeedbackCount,
+    onSave,
+    onRevert,
+    onExport,
+    onRetryFeedback
+  } = props;
+  const { t } = useI18n();
+
+  const isEdited = correctedTranslation !== machineTranslation;
+  const parts = isEdited ? diffWords(machineTranslation, correctedTranslation) : [];
+
+  const renderSide = (hidden: DiffPart['type']) => parts
+    .filter(part => part.type !== hidden)
+    .map((part, i) => (
+      <Box component="span" key={i} sx={{ ...PART_STYLES[part.type], borderRadius: 0.5 }}>
+        {part.text}
+      </Box>
+    ));
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      {isEdited && (
+        <>
+          <Grid container spacing={2} sx={{ mb: 1 }}>
+            <Grid item xs={12} sm={6}>
+              <Typography variant="caption" color="text.secondary">{t('review.machine')}</Typography>
+              <Typography variant="body2" sx={{ p: 1, bgcolor: 'grey.50', borderRadius: 1, whiteSpace: 'pre-wrap' }}>
+                {renderSide('added')}
+              </Typography>
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <Typography variant="caption" color="text.secondary">{t('review.yours')}</Typography>
+              <Typography variant="body2" sx={{ p: 1, bgcolor: 'grey.50', borderRadius: 1, whiteSpace: 'pre-wrap' }}>
+                {renderSide('removed')}
+              </Typography>
+            </Grid>
+          </Grid>
+          <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+            <Button size="small" variant="contained" startIcon={<Save />} onClick={onSave} disabled={!correctedTranslation.trim() || isSaved}>
+              {isSaved ? t('review.saved') : t('review.save')}
+            </Button>
+            <Button size="small" startIcon={<Undo />} onClick={onRevert}>
+              {t('review.revert')}
+            </Button>
+          </Box>
+        </>
+      )}
+
+      {correctionCount > 0 && (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Typography variant="caption" color="text.secondary" sx={{ flexGrow: 1 }}>
+            {t('review.savedCount', { count: correctionCount })}
+          </Typography>
+          {failedFeedbackCount > 0 && (
+            <Button size="small" startIcon={<Replay />} onClick={onRetryFeedback}>
+              {t('review.resend', { count: failedFeedbackCount })}
+            </Button>
+          )}
+          <Button size="small" startIcon={<Download />} onClick={onExport}>
+            {t('common.export')}
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+}
+
+export default TranslationReview;
@@ -0,0 +1,28 @@
+import { FormControl, MenuItem, Select } from '@mui/material';
+import { Language as LanguageIcon } from '@mui/icons-material';
+import { useI18n } from '../hooks/useI18n';
+import { UI_LANGUAGES } from '../i18n/catalogs';
+import { UiLanguage } from '../types/i18n';
+
+function UiLanguageSwitcher() {
+  const { uiLanguage, setUiLanguage, t } = useI18n();
+
+  return (
+    <FormControl size="small">
+      <Select
+        value={uiLanguage}
+        onChange={(e) => setUiLanguage(e.target.value as UiLanguage)}
+        startAdornment={<LanguageIcon fontSize="small" sx={{ mr: 1, color: 'text.secondary' }} />}
+        inputProps={{ 'aria-label': t('app.uiLanguage') }}
+      >
+        {UI_LANGUAGES.map(({ code, label }) => (
+          <MenuItem key={code} value={code} lang={code}>
+            {label}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+}
+
+export default UiLanguageSwitcher;
@@ -0,0 +1,182 @@
+import { useMemo, useState } from 'react';
+import {
+  Box,
+  Chip,
+  CircularProgress,
+  FormControl,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  MenuItem,
+  Radio,
+  Select,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { PlayArrow } from '@mui/icons-material';
+import { useCreoleAPI } from '../hooks/useCreoleAPI';
+import { DEFAULT_VOICE } from '../hooks/useVoicePreferences';
+import { VoiceFilters } from '../types/tts';
+import { playBlob } from '../utils/audio';
+import { describeError } from '../api/errors';
+import { useI18n } from '../hooks/useI18n';
+import { LocalizedMessage } from '../types/i18n';
+
+type CreoleAPI = ReturnType<typeof useCreoleAPI>;
+
+interface VoiceBrowserProps {
+  voices: CreoleAPI['voices'];
+  language: string;
+  selectedVoice: string;
+  onSelect: (voiceId: string) => void;
+  previewVoice: CreoleAPI['previewVoice'];
+  previewDisabled?: boolean;
+}
+
+const ANY = '';
+
+const PREVIEW_SAMPLES: Record<string, string> = {
+  ht: 'Bonjou, koman ou ye?',
+  fr: 'Bonjour, comment allez-vous ?',
+  en: 'Hello, how are you?'
+};
+
+const distinct = (values: string[]) => Array.from(new Set(values.filter(Boolean))).sort();
+
+function VoiceBrowser(props: VoiceBrowserProps) {
+  const { voices, language, selectedVoice, onSelect, previewVoice, previewDisabled = false } = props;
+  const { t } = useI18n();
+
+  const [filters, setFilters] = useState<VoiceFilters>({ gender: ANY, age: ANY, query: '' });
+  const [previewingId, setPreviewingId] = useState<string | null>(null);
+  const [error, setError] = useState<LocalizedMessage | null>(null);
+
+  const languageVoices = useMemo(() => voices.filter(voice => voice.language === language), [voices, language]);
+  const genders = useMemo(() => distinct(languageVoices.map(voice => voice.gender)), [languageVoices]);
+  const ages = useMemo(() => distinct(languageVoices.map(voice => voice.age)), [languageVoices]);
+
+  const filtered = useMemo(() => {
+    const query = filters.query.trim().toLowerCase();
+    return languageVoices.filter(voice =>
+      (filters.gender === ANY || voice.gender === filters.gender) &&
+      (filters.age === ANY || voice.age === filters.age) &&
+      (!query || `${voice.name} ${voice.description}`.toLowerCase().includes(query))
+    );
+  }, [languageVoices, filters]);
+
+  const updateFilters = (changes: Partial<VoiceFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+  };
+
+  const handlePreview = async (voiceId: string) => {
+    setError(null);
+    setPreviewingId(voiceId);
+    try {
+      const audioBlob = await previewVoice(voiceId, language, PREVIEW_SAMPLES[language]);
+      await playBlob(audioBlob);
+    } catch (err) {
+      console.error('Voice preview error:', err);
+      setError(describeError(err, 'errors.voicePreview'));
+    } finally {
+      setPreviewingId(null);
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 1 }}>
+        <FormControl size="small" sx={{ minWidth: 120 }}>
+          <InputLabel id="voice-gender-label">{t('voices.gender')}</InputLabel>
+          <Select labelId="voice-gender-label" value={filters.gender} onChange={(e) => updateFilters({ gender: e.target.value })} label={t('voices.gender')}>
+            <MenuItem value={ANY}>{t('voices.any')}</MenuItem>
+            {genders.map((gender) => (
+              <MenuItem key={gender} value={gender}>{gender}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 120 }}>
+          <InputLabel id="voice-age-label">{t('voices.age')}</InputLabel>
+          <Select labelId="voice-age-label" value={filters.age} onChange={(e) => updateFilters({ age: e.target.value })} label={t('voices.age')}>
+            <MenuItem value={ANY}>{t('voices.any')}</MenuItem>
+            {ages.map((age) => (
+              <MenuItem key={age} value={age}>{age}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <TextField
+          size="small"
+          label={t('voices.search')}
+          value={filters.query}
+          onChange={(e) => updateFilters({ query: e.target.value })}
+          sx={{ flex: 1, minWidth: 180 }}
+        />
+      </Box>
+
+      {error && (
+        <Typography variant="caption" color="error" display="block">
+          {t(error.key, error.params)}
+        </Typography>
+      )}
+
+      <List dense sx={{ maxHeight: 320, overflowY: 'auto' }}>
+        <ListItem disablePadding>
+          <ListItemButton selected={selectedVoice === DEFAULT_VOICE} onClick={() => onSelect(DEFAULT_VOICE)}>
+            <ListItemIcon>
+              <Radio edge="start" size="small" checked={selectedVoice === DEFAULT_VOICE} tabIndex={-1} />
+            </ListItemIcon>
+            <ListItemText primary={t('common.default')} secondary={t('voices.defaultDescription')} />
+          </ListItemButton>
+        </ListItem>
+        {filtered.map((voice) => (
+          <ListItem
+            key={voice.id}
+            disablePadding
+            secondaryAction={
+              <Tooltip title={t('voices.preview')}>
+                <span>
+                  <IconButton
+                    edge="end"
+                    onClick={() => handlePreview(voice.id)}
+                    disabled={previewDisabled || previewingId !== null}
+                    aria-label={t('voices.previewNamed', { name: voice.name })}
+                  >
+                    {previewingId === voice.id ? <CircularProgress size={20} /> : <PlayArrow />}
+                  </IconButton>
+                </span>
+              </Tooltip>
+            }
+          >
+            <ListItemButton selected={selectedVoice === voice.id} onClick={() => onSelect(voice.id)}>
+              <ListItemIcon>
+                <Radio edge="start" size="small" checked={selectedVoice === voice.id} tabIndex={-1} />
+              </ListItemIcon>
+              <ListItemText
+                primary={
+                  <Box component="span" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    {voice.name}
+                    {voice.gender && <Chip label={voice.gender} size="small" variant="outlined" />}
+                    {voice.age && <Chip label={voice.age} size="small" variant="outlined" />}
+                  </Box>
+                }
+                secondary={voice.description}
+              />
+            </ListItemButton>
+          </ListItem>
+        ))}
+      </List>
+
+      {languageVoices.length > 0 && filtered.length === 0 && (
+        <Typography variant="body2" color="text.secondary" align="center">
+          {t('voices.noMatches')}
+        </Typography>
+      )}
+    </Box>
+  );
+}
+
+export default VoiceBrowser;
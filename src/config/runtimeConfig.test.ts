@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConfigError, DEFAULT_FEATURES, DEFAULT_MOCK_SETTINGS, validateConfig } from './runtimeConfig';
+
+const API = { translation: '/translation', stt: 'https://stt.example.org/', tts: 'http://localhost:8003' };
+
+// The issues reported for an invalid config, or an empty list when it is accepted
+const issuesFor = (raw: unknown): string[] => {
+  try {
+    validateConfig(raw);
+    return [];
+  } catch (err) {
+    if (!(err instanceof ConfigError)) throw err;
+    return err.issues;
+  }
+};
+
+beforeEach(() => {
+  vi.stubGlobal('window', { location: new URL('https://app.example.org/translator/') });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('validateConfig', () => {
+  it('resolves base URLs against the page and fills in defaults', () => {
+    const config = validateConfig({ api: API });
+
+    expect(config.api).toEqual({
+      translation: 'https://app.example.org/translation',
+      stt: 'https://stt.example.org',
+      tts: 'http://localhost:8003'
+    });
+    expect(config.streamingUrl).toBe('wss://stt.example.org/api/v1/stream');
+    expect(config.features).toEqual(DEFAULT_FEATURES);
+    expect(config.mock).toEqual(DEFAULT_MOCK_SETTINGS);
+  });
+
+  it('keeps explicit socket URLs and converts relative ones to the page protocol', () => {
+    expect(validateConfig({ api: API, streamingUrl: 'ws://localhost:9000/stream' }).streamingUrl)
+      .toBe('ws://localhost:9000/stream');
+    expect(validateConfig({ api: API, streamingUrl: '/stream' }).streamingUrl)
+      .toBe('wss://app.example.org/stream');
+  });
+
+  it('applies feature toggles, defaults, mock and review settings', () => {
+    const config = validateConfig({
+      api: API,
+      features: { glossary: false },
+      defaults: { targetLanguage: 'fr' },
+      mock: { enabled: true, failureRate: 0.5 },
+      review: { confidenceThreshold: 0.9 }
+    });
+
+    expect(config.features.glossary).toBe(false);
+    expect(config.features.subtitles).toBe(true);
+    expect(config.defaults.targetLanguage).toBe('fr');
+    expect(config.mock).toMatchObject({ enabled: true, failureRate: 0.5 });
+    expect(config.review.confidenceThreshold).toBe(0.9);
+  });
+
+  it('rejects values that are not an object', () => {
+    expect(() => validateConfig(null)).toThrow(ConfigError);
+    expect(() => validateConfig([API])).toThrow(ConfigError);
+  });
+
+  it('reports every invalid field at once', () => {
+    expect(issuesFor({
+      api: { translation: 'ftp://example.org', stt: '/stt' },
+      features: { teleport: true, history: 'yes' },
+      defaults: { sourceLanguage: ' ' },
+      mock: { latencyMs: -1 },
+      review: { sendFeedback: 1 }
+    })).toEqual([
+      '"api.translation" must be an http(s) URL or a path.',
+      '"api.tts" must be an http(s) URL or a path.',
+      '"features.teleport" is not a known feature.',
+      '"features.history" must be true or false.',
+      '"defaults.sourceLanguage" must be a non-empty string.',
+      '"mock.latencyMs" must be a non-negative number.',
+      '"review.sendFeedback" must be true or false.'
+    ]);
+  });
+
+  it('reports a missing api section and a bad streaming URL', () => {
+    expect(issuesFor({})).toEqual(['"api" must be an object with translation, stt and tts base URLs.']);
+    expect(issuesFor({ api: API, streamingUrl: 'ftp://example.org' }))
+      .toEqual(['"streamingUrl" must be a ws(s) or http(s) URL or a path.']);
+  });
+});
@@ -0,0 +1,216 @@
+import { AppConfig, AppDefaults, FeatureName, FeatureToggles, MockSettings, ReviewSettings } from '../types/config';
+import { ServiceName } from '../types/api';
+
+const CONFIG_URL = '/config.json';
+const STREAMING_PATH = '/api/v1/stream';
+const SERVICES: ServiceName[] = ['translation', 'stt', 'tts'];
+
+export const DEFAULT_FEATURES: FeatureToggles = {
+  speechToText: true,
+  textToSpeech: true,
+  streaming: true,
+  conversation: true,
+  history: true,
+  phrasebook: true,
+  multiTarget: true,
+  subtitles: true,
+  timedTranscript: true,
+  glossary: true,
+  liveCaptions: true
+};
+
+export const DEFAULT_APP_DEFAULTS: AppDefaults = {
+  sourceLanguage: 'en',
+  targetLanguage: 'ht',
+  voice: 'default'
+};
+
+export const DEFAULT_MOCK_SETTINGS: MockSettings = {
+  enabled: false,
+  latencyMs: 400,
+  failureRate: 0
+};
+
+export const DEFAULT_REVIEW_SETTINGS: ReviewSettings = {
+  confidenceThreshold: 0.7,
+  sendFeedback: false
+};
+
+export class ConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'ConfigError';
+    this.issues = issues;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Relative base URLs ("/translation") are resolved against the page so one image can sit behind a proxy
+const resolveHttpUrl = (value: string): string | null => {
+  try {
+    const url = new URL(value, window.location.href);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    return url.href.replace(/\/+$/, '');
+  } catch {
+    return null;
+  }
+};
+
+const pageSocketProtocol = () => (window.location.protocol === 'https:' ? 'wss:' : 'ws:');
+
+// Explicit ws:// and wss:// URLs are kept; anything else gets the socket protocol matching the page
+const resolveStreamingUrl = (value: string | undefined, sttBaseUrl: string): string | null => {
+  try {
+    const url = value === undefined
+      ? new URL(`${sttBaseUrl}${STREAMING_PATH}`)
+      : new URL(value, window.location.href);
+    if (url.protocol === 'ws:' || url.protocol === 'wss:') return url.href;
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.protocol = pageSocketProtocol();
+    return url.href;
+  } catch {
+    return null;
+  }
+};
+
+export const validateConfig = (raw: unknown): AppConfig => {
+  const issues: string[] = [];
+
+  if (!isRecord(raw)) {
+    throw new ConfigError('Configuration must be a JSON object.');
+  }
+
+  const api = {} as Record<ServiceName, string>;
+  if (!isRecord(raw.api)) {
+    issues.push('"api" must be an object with translation, stt and tts base URLs.');
+  } else {
+    const urls = raw.api;
+    SERVICES.forEach(service => {
+      const value = urls[service];
+      const resolved = typeof value === 'string' ? resolveHttpUrl(value) : null;
+      if (resolved) {
+        api[service] = resolved;
+      } else {
+        issues.push(`"api.${service}" must be an http(s) URL or a path.`);
+      }
+    });
+  }
+
+  let streamingUrl: string | null = null;
+  if (raw.streamingUrl !== undefined && typeof raw.streamingUrl !== 'string') {
+    issues.push('"streamingUrl" must be a string.');
+  } else if (api.stt) {
+    streamingUrl = resolveStreamingUrl(raw.streamingUrl, api.stt);
+    if (!streamingUrl) {
+      issues.push('"streamingUrl" must be a ws(s) or http(s) URL or a path.');
+    }
+  }
+
+  const features = { ...DEFAULT_FEATURES };
+  if (raw.features !== undefined) {
+    if (!isRecord(raw.features)) {
+      issues.push('"features" must be an object of booleans.');
+    } else {
+      Object.entries(raw.features).forEach(([name, enabled]) => {
+        if (!(name in DEFAULT_FEATURES)) {
+          issues.push(`"features.${name}" is not a known feature.`);
+        } else if (typeof enabled !== 'boolean') {
+          issues.push(`"features.${name}" must be true or false.`);
+        } else {
+          features[name as FeatureName] = enabled;
+        }
+      });
+    }
+  }
+
+  const defaults = { ...DEFAULT_APP_DEFAULTS };
+  if (raw.defaults !== undefined) {
+    if (!isRecord(raw.defaults)) {
+      issues.push('"defaults" must be an object.');
+    } else {
+      Object.entries(raw.defaults).forEach(([name, value]) => {
+        if (!(name in DEFAULT_APP_DEFAULTS)) {
+          issues.push(`"defaults.${name}" is not a known setting.`);
+        } else if (typeof value !== 'string' || !value.trim()) {
+          issues.push(`"defaults.${name}" must be a non-empty string.`);
+        } else {
+          defaults[name as keyof AppDefaults] = value;
+        }
+      });
+    }
+  }
+
+  const mock = { ...DEFAULT_MOCK_SETTINGS };
+  if (raw.mock !== undefined) {
+    if (!isRecord(raw.mock)) {
+      issues.push('"mock" must be an object.');
+    } else {
+      const { enabled, latencyMs, failureRate } = raw.mock;
+      if (enabled !== undefined) {
+        if (typeof enabled === 'boolean') mock.enabled = enabled;
+        else issues.push('"mock.enabled" must be true or false.');
+      }
+      if (latencyMs !== undefined) {
+        if (typeof latencyMs === 'number' && latencyMs >= 0) mock.latencyMs = latencyMs;
+        else issues.push('"mock.latencyMs" must be a non-negative number.');
+      }
+      if (failureRate !== undefined) {
+        if (typeof failureRate === 'number' && failureRate >= 0 && failureRate <= 1) mock.failureRate = failureRate;
+        else issues.push('"mock.failureRate" must be a number between 0 and 1.');
+      }
+    }
+  }
+
+  const review = { ...DEFAULT_REVIEW_SETTINGS };
+  if (raw.review !== undefined) {
+    if (!isRecord(raw.review)) {
+      issues.push('"review" must be an object.');
+    } else {
+      const { confidenceThreshold, sendFeedback } = raw.review;
+      if (confidenceThreshold !== undefined) {
+        if (typeof confidenceThreshold === 'number' && confidenceThreshold >= 0 && confidenceThreshold <= 1) {
+          review.confidenceThreshold = confidenceThreshold;
+        } else {
+          issues.push('"review.confidenceThreshold" must be a number between 0 and 1.');
+        }
+      }
+      if (sendFeedback !== undefined) {
+        if (typeof sendFeedback === 'boolean') review.sendFeedback = sendFeedback;
+        else issues.push('"review.sendFeedback" must be true or false.');
+      }
+    }
+  }
+
+  if (issues.length > 0 || !streamingUrl) {
+    throw new ConfigError(`${CONFIG_URL} is invalid.`, issues);
+  }
+
+  return { api, streamingUrl, features, defaults, mock, review };
+};
+
+export const loadRuntimeConfig = async (): Promise<AppConfig> => {
+  let response: Response;
+  try {
+    // Always revalidated so a redeployed config takes effect without a rebuild
+    response = await fetch(CONFIG_URL, { cache: 'no-cache' });
+  } catch (err) {
+    throw new ConfigError(`Could not load ${CONFIG_URL}.`, [String(err)]);
+  }
+
+  if (!response.ok) {
+    throw new ConfigError(`Could not load ${CONFIG_URL} (HTTP ${response.status}).`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = await response.json();
+  } catch {
+    throw new ConfigError(`${CONFIG_URL} is not valid JSON.`);
+  }
+
+  return validateConfig(raw);
+};
@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Politeness } from '../types/a11y';
+
+// Screen readers only announce a change, so the region is emptied briefly before each message
+const ANNOUNCE_DELAY_MS = 100;
+
+export const useAnnouncer = () => {
+  const [messages, setMessages] = useState<Record<Politeness, string>>({ polite: '', assertive: '' });
+  const timersRef = useRef<Partial<Record<Politeness, number>>>({});
+
+  const announce = useCallback((message: string, politeness: Politeness = 'polite') => {
+    window.clearTimeout(timersRef.current[politeness]);
+    setMessages(prev => ({ ...prev, [politeness]: '' }));
+    timersRef.current[politeness] = window.setTimeout(() => {
+      setMessages(prev => ({ ...prev, [politeness]: message }));
+    }, ANNOUNCE_DELAY_MS);
+  }, []);
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => Object.values(timers).forEach(timer => window.clearTimeout(timer));
+  }, []);
+
+  return { messages, announce };
+};
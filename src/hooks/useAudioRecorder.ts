@@ -0,0 +1,196 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { CAPTURE_FORMAT, concatPcm, encodeWav } from '../utils/wav';
+
+const FRAME_DURATION_MS = 100;
+const FLUSH_TIMEOUT_MS = 500;
+
+// Downmixes to mono, resamples by box-filter decimation and emits Int16 frames.
+// Inlined so the worklet ships without a separate bundler entry.
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, frameSize } = options.processorOptions;
+    this.ratio = Math.max(1, sampleRate / targetSampleRate);
+    this.frameSize = frameSize;
+    this.frame = new Int16Array(frameSize);
+    this.length = 0;
+    this.sum = 0;
+    this.count = 0;
+    this.consumed = 0;
+    this.port.onmessage = (event) => {
+      if (event.data === 'flush') {
+        this.emit();
+        this.port.postMessage('flushed');
+      }
+    };
+  }
+
+  emit() {
+    if (this.length === 0) return;
+    const frame = this.frame.slice(0, this.length);
+    this.port.postMessage(frame.buffer, [frame.buffer]);
+    this.length = 0;
+  }
+
+  push(value) {
+    const sample = Math.max(-1, Math.min(1, value));
+    this.frame[this.length++] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+    if (this.length === this.frameSize) this.emit();
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || input.length === 0) return true;
+
+    const frames = input[0].length;
+    for (let i = 0; i < frames; i++) {
+      let mixed = 0;
+      for (let channel = 0; channel < input.length; channel++) {
+        mixed += input[channel][i];
+      }
+      this.sum += mixed / input.length;
+      this.count++;
+      this.consumed++;
+      if (this.consumed >= this.ratio) {
+        this.consumed -= this.ratio;
+        this.push(this.sum / this.count);
+        this.sum = 0;
+        this.count = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture-processor', PcmCaptureProcessor);
+`;
+
+interface CaptureSession {
+  stream: MediaStream;
+  context: AudioContext;
+  source: MediaStreamAudioSourceNode;
+  node: AudioWorkletNode;
+  chunks: Int16Array[];
+}
+
+interface AudioRecorderOptions {
+  onChunk?: (chunk: Int16Array) => void;
+  // Streaming-only callers can skip buffering, so hour-long sessions don't pile up PCM in memory
+  retainAudio?: boolean;
+}
+
+export const useAudioRecorder = (options: AudioRecorderOptions = {}) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sessionRef = useRef<CaptureSession | null>(null);
+  const onChunkRef = useRef(options.onChunk);
+  onChunkRef.current = options.onChunk;
+  const retainAudio = options.retainAudio ?? true;
+
+  const releaseSession = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+
+    session.node.port.onmessage = null;
+    session.source.disconnect();
+    session.node.disconnect();
+    session.stream.getTracks().forEach(track => track.stop());
+    session.context.close().catch(() => undefined);
+    sessionRef.current = null;
+  }, []);
+
+  const startRecording = useCallback(async () => {
+    if (sessionRef.current) {
+      return; // Already recording
+    }
+
+    // Declared out here so a failure part-way through setup can still release them
+    let stream: MediaStream | null = null;
+    let context: AudioContext | null = null;
+
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true }
+      });
+      context = new AudioContext();
+      const moduleUrl = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+      try {
+        await context.audioWorklet.addModule(moduleUrl);
+      } finally {
+        URL.revokeObjectURL(moduleUrl);
+      }
+
+      const source = context.createMediaStreamSource(stream);
+      const node = new AudioWorkletNode(context, 'pcm-capture-processor', {
+        numberOfOutputs: 0,
+        processorOptions: {
+          targetSampleRate: CAPTURE_FORMAT.sampleRate,
+          frameSize: (CAPTURE_FORMAT.sampleRate * FRAME_DURATION_MS) / 1000
+        }
+      });
+
+      const session: CaptureSession = { stream, context, source, node, chunks: [] };
+      node.port.onmessage = (event) => {
+        if (!(event.data instanceof ArrayBuffer)) return;
+        const chunk = new Int16Array(event.data);
+        if (retainAudio) session.chunks.push(chunk);
+        onChunkRef.current?.(chunk);
+      };
+      source.connect(node);
+
+      sessionRef.current = session;
+      setIsRecording(true);
+      setError(null);
+    } catch (err) {
+      console.error('Recording error:', err);
+      stream?.getTracks().forEach(track => track.stop());
+      context?.close().catch(() => undefined);
+      setError('Could not access microphone. Please check permissions.');
+      throw err;
+    }
+  }, [retainAudio]);
+
+  // Flushes the worklet's partial frame, then resolves with a 16 kHz mono WAV file
+  const stopRecording = useCallback(async (): Promise<File> => {
+    const session = sessionRef.current;
+    if (!session) {
+      throw new Error('Not recording');
+    }
+
+    await new Promise<void>((resolve) => {
+      const timeout = window.setTimeout(resolve, FLUSH_TIMEOUT_MS);
+      const handleChunk = session.node.port.onmessage;
+      session.node.port.onmessage = (event) => {
+        if (event.data === 'flushed') {
+          window.clearTimeout(timeout);
+          resolve();
+          return;
+        }
+        handleChunk?.call(session.node.port, event);
+      };
+      session.node.port.postMessage('flush');
+    });
+
+    releaseSession();
+    setIsRecording(false);
+
+    const audioBlob = encodeWav(concatPcm(session.chunks), CAPTURE_FORMAT.sampleRate, CAPTURE_FORMAT.channels);
+    return new File([audioBlob], 'recording.wav', { type: 'audio/wav' });
+  }, [releaseSession]);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      releaseSession();
+    };
+  }, [releaseSession]);
+
+  return {
+    isRecording,
+    error,
+    startRecording,
+    stopRecording
+  };
+};
@@ -0,0 +1,12 @@
+import { createContext, useContext } from 'react';
+import { AppConfig } from '../types/config';
+
+export const ConfigContext = createContext<AppConfig | null>(null);
+
+export const useConfig = (): AppConfig => {
+  const config = useContext(ConfigContext);
+  if (!config) {
+    throw new Error('useConfig must be used inside ConfigContext.Provider');
+  }
+  return config;
+};
@@ -0,0 +1,117 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useCreoleAPI } from './useCreoleAPI';
+import { Correction, NewCorrection } from '../types/review';
+import { getAll, putOne, deleteOne } from '../storage/db';
+import { createId } from '../utils/id';
+import { downloadText } from '../utils/download';
+import { LocalizedMessage } from '../types/i18n';
+
+type SubmitFeedback = ReturnType<typeof useCreoleAPI>['submitFeedback'];
+
+interface CorrectionsOptions {
+  submitFeedback: SubmitFeedback;
+  sendFeedback: boolean;
+}
+
+// Reviewer corrections, kept locally as a dataset and optionally reported to the feedback endpoint
+export const useCorrections = (options: CorrectionsOptions) => {
+  const { submitFeedback, sendFeedback } = options;
+
+  const [corrections, setCorrections] = useState<Correction[]>([]);
+  const [error, setError] = useState<LocalizedMessage | null>(null);
+
+  const persist = useCallback(async (correction: Correction) => {
+    setCorrections(prev => (prev.some(existing => existing.id === correction.id)
+      ? prev.map(existing => (existing.id === correction.id ? correction : existing))
+      : [correction, ...prev]));
+    await putOne('corrections', correction);
+  }, []);
+
+  const sendCorrection = useCallback(async (correction: Correction) => {
+    try {
+      await submitFeedback({
+        source_text: correction.sourceText,
+        source_language: correction.sourceLanguage,
+        target_language: correction.targetLanguage,
+        machine_translation: correction.machineTranslation,
+        corrected_translation: correction.correctedTranslation,
+        confidence: correction.confidence
+      });
+      await persist({ ...correction, feedbackStatus: 'sent' });
+    } catch (err) {
+      console.error('Failed to send correction feedback:', err);
+      await persist({ ...correction, feedbackStatus: 'failed' });
+    }
+  }, [submitFeedback, persist]);
+
+  const saveCorrection = useCallback(async (correction: NewCorrection) => {
+    setError(null);
+    const stored: Correction = {
+      ...correction,
+      id: createId(),
+      feedbackStatus: 'local',
+      createdAt: new Date().toISOString()
+    };
+
+    try {
+      await persist(stored);
+    } catch (err) {
+      console.error('Failed to save correction:', err);
+      setError({ key: 'errors.correctionSave' });
+      return;
+    }
+
+    if (sendFeedback) {
+      await sendCorrection(stored);
+    }
+  }, [persist, sendFeedback, sendCorrection]);
+
+  const retryFeedback = useCallback(async () => {
+    for (const correction of corrections.filter(item => item.feedbackStatus === 'failed')) {
+      await sendCorrection(correction);
+    }
+  }, [corrections, sendCorrection]);
+
+  const deleteCorrection = useCallback(async (id: string) => {
+    setCorrections(prev => prev.filter(correction => correction.id !== id));
+    try {
+      await deleteOne('corrections', id);
+    } catch (err) {
+      console.error('Failed to delete correction:', err);
+      setError({ key: 'errors.correctionDelete' });
+    }
+  }, []);
+
+  // One JSON object per line, the usual shape for training and evaluation datasets
+  const exportCorrections = useCallback(() => {
+    const lines = corrections.map(correction => JSON.stringify({
+      source_language: correction.sourceLanguage,
+      target_language: correction.targetLanguage,
+      source_text: correction.sourceText,
+      machine_translation: correction.machineTranslation,
+      corrected_translation: correction.correctedTranslation,
+      confidence: correction.confidence,
+      created_at: correction.createdAt
+    }));
+    const date = new Date().toISOString().slice(0, 10);
+    downloadText(lines.join('\n'), `corrections-${date}.jsonl`, 'application/x-ndjson');
+  }, [corrections]);
+
+  useEffect(() => {
+    getAll<Correction>('corrections')
+      .then(stored => setCorrections(stored.sort((a, b) => b.createdAt.localeCompare(a.createdAt))))
+      .catch((err) => {
+        console.error('Failed to load corrections:', err);
+        setError({ key: 'errors.correctionsLoad' });
+      });
+  }, []);
+
+  return {
+    corrections,
+    error,
+    saveCorrection,
+    deleteCorrection,
+    retryFeedback,
+    exportCorrections
+  };
+};
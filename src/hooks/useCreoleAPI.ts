@@ -1,269 +1,249 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useCallback, useMemo, useRef } from 'react';
+import { hashKey, isCancelledError, useQuery, useQueryClient } from '@tanstack/react-query';
 import {
   Language,
   Voice,
-  TranslationRequest,
   TranslationResult,
-  BatchTranslationRequest,
+  DetectedLanguage,
   BatchTranslationResult,
+  TranslationFeedback,
   TranscriptionResult,
-  SynthesisRequest,
-  ServiceHealth,
-  APIError
+  TranscriptionTimestamps,
+  LanguageDetectionResult,
+  SynthesisRequest
 } from '../types/api';
-
-// API Configuration
-const API_CONFIG = {
-  translation: import.meta.env.VITE_TRANSLATION_API_URL || 'http://localhost:8001',
-  stt: import.meta.env.VITE_STT_API_URL || 'http://localhost:8002',
-  tts: import.meta.env.VITE_TTS_API_URL || 'http://localhost:8003',
+import { createCreoleClient, RequestOptions } from '../api/client';
+import { isCancelled, RequestCancelledError } from '../api/errors';
+import { queryKeys } from '../api/queryClient';
+import { detectLanguageHeuristic } from '../utils/languageDetection';
+import { createClipCache, speechClipKey } from '../utils/clipCache';
+import { useConfig } from './useConfig';
+import { useServiceHealth } from './useServiceHealth';
+
+// Languages and voices change rarely: serve from cache and revalidate in the background
+const REFERENCE_DATA_STALE_TIME = 5 * 60 * 1000;
+const REFERENCE_DATA_CACHE_TIME = 24 * 60 * 60 * 1000;
+const TRANSLATION_STALE_TIME = 60 * 60 * 1000;
+// Recent synthesized clips are replayed from memory instead of being synthesized again
+const CLIP_CACHE_LIMITS = { maxEntries: 20, maxBytes: 20 * 1024 * 1024 };
+
+const EMPTY_LANGUAGES: Language[] = [];
+const EMPTY_VOICES: Voice[] = [];
+
+// Lets one caller stop waiting on a shared (de-duplicated) request
+const withSignal = <T>(promise: Promise<T>, signal: AbortSignal | undefined, onAbort: () => void): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) {
+    onAbort();
+    return Promise.reject(new RequestCancelledError('translation'));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const handleAbort = () => {
+      onAbort();
+      reject(new RequestCancelledError('translation'));
+    };
+    signal.addEventListener('abort', handleAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', handleAbort));
+  });
 };
 
 export const useCreoleAPI = () => {
-  const [languages, setLanguages] = useState<Language[]>([]);
-  const [voices, setVoices] = useState<Voice[]>([]);
-  const [isConnected, setIsConnected] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  // Generic API call function
-  const apiCall = useCallback(async <T>(
-    url: string,
-    options: RequestInit = {}
-  ): Promise<T> => {
-    try {
-      const response = await fetch(url, {
-        headers: {
-          'Content-Type': 'application/json',
-          ...options.headers,
-        },
-        ...options,
-      });
-
-      if (!response.ok) {
-        const errorData: APIError = await response.json().catch(() => ({
-          error: `HTTP ${response.status}: ${response.statusText}`,
-          status_code: response.status,
-          timestamp: new Date().toISOString()
-        }));
-        throw new Error(errorData.error || `API Error: ${response.status}`);
-      }
-
-      return await response.json();
-    } catch (err) {
-      console.error('API call failed:', err);
-      throw err;
-    }
-  }, []);
-
-  // Check service health
-  const checkServiceHealth = useCallback(async () => {
-    try {
-      const [translationHealth, sttHealth, ttsHealth] = await Promise.allSettled([
-        apiCall<ServiceHealth>(`${API_CONFIG.translation}/health`),
-        apiCall<ServiceHealth>(`${API_CONFIG.stt}/health`),
-        apiCall<ServiceHealth>(`${API_CONFIG.tts}/health`)
-      ]);
-
-      const allHealthy = [translationHealth, sttHealth, ttsHealth].every(
-        result => result.status === 'fulfilled' && result.value.status === 'healthy'
-      );
-
-      setIsConnected(allHealthy);
-      setError(allHealthy ? null : 'Some services are unavailable');
-    } catch (err) {
-      setIsConnected(false);
-      setError('Unable to connect to services');
-    }
-  }, [apiCall]);
-
-  // Load languages and voices
+  const queryClient = useQueryClient();
+  const { api, streamingUrl, features } = useConfig();
+  const client = useMemo(() => createCreoleClient({ baseUrls: api }), [api]);
+  // Callers waiting on each shared translation; it is only cancelled once none of them is left
+  const translationWaitersRef = useRef(new Map<string, number>());
+  // Clips are tied to the TTS backend that produced them
+  const clipCache = useMemo(() => createClipCache(CLIP_CACHE_LIMITS), [client]);
+  const {
+    statuses: serviceStatus,
+    outages,
+    availability,
+    checkServiceHealth
+  } = useServiceHealth({ client, streamingUrl, monitorStreaming: features.streaming });
+  const isConnected = availability.translation && availability.stt && availability.tts;
+
+  const languagesQuery = useQuery({
+    queryKey: queryKeys.languages,
+    queryFn: ({ signal }) => client.getLanguages({ signal }).then(res => res.supported_languages),
+    staleTime: REFERENCE_DATA_STALE_TIME,
+    gcTime: REFERENCE_DATA_CACHE_TIME
+  });
+
+  const voicesQuery = useQuery({
+    queryKey: queryKeys.voices,
+    queryFn: ({ signal }) => client.getVoices({ signal }).then(res => res.voices),
+    staleTime: REFERENCE_DATA_STALE_TIME,
+    gcTime: REFERENCE_DATA_CACHE_TIME
+  });
+
+  const languages = languagesQuery.data ?? EMPTY_LANGUAGES;
+  const voices = voicesQuery.data ?? EMPTY_VOICES;
+  const error = languagesQuery.isError || voicesQuery.isError ? 'Failed to load languages and voices' : null;
+
+  // Revalidate languages and voices
   const loadLanguagesAndVoices = useCallback(async () => {
-    try {
-      const [languagesRes, voicesRes] = await Promise.all([
-        apiCall<{ supported_languages: Language[] }>(`${API_CONFIG.translation}/api/v1/languages`),
-        apiCall<{ voices: Voice[] }>(`${API_CONFIG.tts}/api/v1/voices`)
-      ]);
-
-      setLanguages(languagesRes.supported_languages);
-      setVoices(voicesRes.voices);
-    } catch (err) {
-      console.error('Failed to load languages and voices:', err);
-      setError('Failed to load languages and voices');
-    }
-  }, [apiCall]);
+    await Promise.all([
+      queryClient.invalidateQueries({ queryKey: queryKeys.languages }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.voices })
+    ]);
+  }, [queryClient]);
 
   // Translation functions
+  // Identical (text, source, target) requests share one in-flight call and are memoized afterwards
   const translateText = useCallback(async (
     text: string,
     sourceLanguage: string,
-    targetLanguage: string
+    targetLanguage: string,
+    options?: RequestOptions
   ): Promise<TranslationResult> => {
-    const request: TranslationRequest = {
-      text,
-      source_language: sourceLanguage,
-      target_language: targetLanguage
+    const queryKey = queryKeys.translation(text, sourceLanguage, targetLanguage);
+    const request = queryClient.fetchQuery({
+      queryKey,
+      queryFn: ({ signal }) => client.translate({
+        text,
+        source_language: sourceLanguage,
+        target_language: targetLanguage
+      }, { ...options, signal }),
+      staleTime: TRANSLATION_STALE_TIME
+    }).catch((err) => {
+      throw isCancelledError(err) ? new RequestCancelledError('translation') : err;
+    });
+
+    const waiters = translationWaitersRef.current;
+    const hash = hashKey(queryKey);
+    waiters.set(hash, (waiters.get(hash) ?? 0) + 1);
+    let waiting = true;
+    const release = () => {
+      if (!waiting) return false;
+      waiting = false;
+      const remaining = (waiters.get(hash) ?? 1) - 1;
+      if (remaining > 0) {
+        waiters.set(hash, remaining);
+      } else {
+        waiters.delete(hash);
+      }
+      return remaining === 0;
     };
 
-    return apiCall<TranslationResult>(`${API_CONFIG.translation}/api/v1/translate`, {
-      method: 'POST',
-      body: JSON.stringify(request)
-    });
-  }, [apiCall]);
+    return withSignal(request, options?.signal, () => {
+      if (release()) queryClient.cancelQueries({ queryKey, exact: true });
+    }).finally(release);
+  }, [queryClient, client]);
 
   const translateTextBatch = useCallback(async (
     text: string,
     sourceLanguage: string,
-    targetLanguages: string[]
+    targetLanguages: string[],
+    options?: RequestOptions
   ): Promise<BatchTranslationResult> => {
-    const request: BatchTranslationRequest = {
+    return client.translateBatch({
       text,
       source_language: sourceLanguage,
       target_languages: targetLanguages
-    };
-
-    return apiCall<BatchTranslationResult>(`${API_CONFIG.translation}/api/v1/translate/batch`, {
-      method: 'POST',
-      body: JSON.stringify(request)
-    });
-  }, [apiCall]);
+    }, options);
+  }, [client]);
+
+  const submitFeedback = useCallback(async (
+    feedback: TranslationFeedback,
+    options?: RequestOptions
+  ): Promise<void> => {
+    await client.submitFeedback(feedback, options);
+  }, [client]);
+
+  // Falls back to a local en/fr/ht heuristic when the detection endpoint is unavailable
+  const detectTextLanguage = useCallback(async (
+    text: string,
+    options?: RequestOptions
+  ): Promise<DetectedLanguage> => {
+    try {
+      const result = await client.detectText(text, { retries: 0, ...options });
+      return { ...result, method: 'service' };
+    } catch (err) {
+      if (isCancelled(err)) throw err;
+      return { ...detectLanguageHeuristic(text), method: 'heuristic' };
+    }
+  }, [client]);
 
   // Speech-to-Text functions
   const transcribeAudio = useCallback(async (
     audioFile: File,
-    language: string = 'auto'
+    language: string = 'auto',
+    timestamps: TranscriptionTimestamps = 'none',
+    options?: RequestOptions
   ): Promise<TranscriptionResult> => {
-    const formData = new FormData();
-    formData.append('file', audioFile);
-    formData.append('language', language);
-
-    const response = await fetch(`${API_CONFIG.stt}/api/v1/transcribe`, {
-      method: 'POST',
-      body: formData
-    });
-
-    if (!response.ok) {
-      const errorData: APIError = await response.json().catch(() => ({
-        error: `HTTP ${response.status}: ${response.statusText}`,
-        status_code: response.status,
-        timestamp: new Date().toISOString()
-      }));
-      throw new Error(errorData.error || `Transcription failed: ${response.status}`);
-    }
-
-    return await response.json();
-  }, []);
-
-  const detectLanguage = useCallback(async (audioFile: File): Promise<{ detected_language: string; confidence: number }> => {
-    const formData = new FormData();
-    formData.append('file', audioFile);
+    return client.transcribe(audioFile, language, timestamps, options);
+  }, [client]);
 
-    const response = await fetch(`${API_CONFIG.stt}/api/v1/detect-language`, {
-      method: 'POST',
-      body: formData
-    });
-
-    if (!response.ok) {
-      throw new Error(`Language detection failed: ${response.status}`);
-    }
-
-    return await response.json();
-  }, []);
+  const detectLanguage = useCallback(async (
+    audioFile: File,
+    options?: RequestOptions
+  ): Promise<LanguageDetectionResult> => {
+    return client.detectAudioLanguage(audioFile, options);
+  }, [client]);
 
   // Text-to-Speech functions
   const synthesizeText = useCallback(async (
     text: string,
     language: string = 'ht',
     voice: string = 'default',
-    options: Partial<SynthesisRequest> = {}
+    settings: Partial<SynthesisRequest> = {},
+    options?: RequestOptions
   ): Promise<Blob> => {
-    const request: SynthesisRequest = {
+    const request = {
       text,
       language,
       voice,
       speed: 1.0,
       pitch: 1.0,
       volume: 1.0,
-      ...options
+      ...settings
     };
+    const key = speechClipKey(request);
+    const cached = clipCache.get(key);
+    if (cached) return cached;
 
-    const response = await fetch(`${API_CONFIG.tts}/api/v1/synthesize`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(request)
-    });
-
-    if (!response.ok) {
-      const errorData: APIError = await response.json().catch(() => ({
-        error: `HTTP ${response.status}: ${response.statusText}`,
-        status_code: response.status,
-        timestamp: new Date().toISOString()
-      }));
-      throw new Error(errorData.error || `Speech synthesis failed: ${response.status}`);
-    }
-
-    return await response.blob();
-  }, []);
+    const clip = await client.synthesize(request, options);
+    clipCache.set(key, clip);
+    return clip;
+  }, [client, clipCache]);
 
   const previewVoice = useCallback(async (
     voiceId: string,
     language: string = 'ht',
-    sampleText: string = 'Bonjou, koman ou ye?'
+    sampleText: string = 'Bonjou, koman ou ye?',
+    options?: RequestOptions
   ): Promise<Blob> => {
-    const response = await fetch(`${API_CONFIG.tts}/api/v1/preview`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        voice_id: voiceId,
-        language,
-        text: sampleText
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`Voice preview failed: ${response.status}`);
-    }
-
-    return await response.blob();
-  }, []);
-
-  // Initialize on mount
-  useEffect(() => {
-    checkServiceHealth();
-    loadLanguagesAndVoices();
-
-    // Set up periodic health checks
-    const healthCheckInterval = setInterval(checkServiceHealth, 30000);
-
-    return () => {
-      clearInterval(healthCheckInterval);
-    };
-  }, [checkServiceHealth, loadLanguagesAndVoices]);
+    return client.previewVoice(voiceId, language, sampleText, options);
+  }, [client]);
 
   return {
     // Data
     languages,
     voices,
     isConnected,
+    availability,
+    serviceStatus,
+    outages,
     error,
-    
+
     // Translation functions
     translateText,
     translateTextBatch,
-    
+    detectTextLanguage,
+    submitFeedback,
+
     // Speech-to-Text functions
     transcribeAudio,
     detectLanguage,
-    
+
     // Text-to-Speech functions
     synthesizeText,
     previewVoice,
-    
+
     // Utility functions
     checkServiceHealth,
     loadLanguagesAndVoices
   };
-};
\ No newline at end of file
+};
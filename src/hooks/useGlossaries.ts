@@ -0,0 +1,188 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Glossary, GlossaryFileFormat, GlossaryTerm } from '../types/glossary';
+import { getAll, putOne, deleteOne } from '../storage/db';
+import { createId } from '../utils/id';
+import { downloadText } from '../utils/download';
+import { glossaryToCSV, glossaryToTBX, parseGlossaryCSV, parseGlossaryTBX } from '../utils/glossary';
+import { LocalizedMessage } from '../types/i18n';
+
+// Glossary selection lasts for the browser session, glossaries themselves are stored in IndexedDB
+const ACTIVE_GLOSSARIES_KEY = 'creole-translator.activeGlossaries';
+
+const loadActiveIds = (): string[] => {
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(ACTIVE_GLOSSARIES_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const useGlossaries = () => {
+  const [glossaries, setGlossaries] = useState<Glossary[]>([]);
+  const [activeIds, setActiveIds] = useState<string[]>(loadActiveIds);
+  const [error, setError] = useState<LocalizedMessage | null>(null);
+  // Edits are applied to the latest list rather than the render closure, so quick successive
+  // term edits (one per keystroke) don't overwrite each other
+  const glossariesRef = useRef<Glossary[]>([]);
+
+  const commit = useCallback((next: Glossary[]) => {
+    glossariesRef.current = next;
+    setGlossaries(next);
+  }, []);
+
+  const persist = useCallback(async (glossary: Glossary) => {
+    const current = glossariesRef.current;
+    commit(current.some(existing => existing.id === glossary.id)
+      ? current.map(existing => (existing.id === glossary.id ? glossary : existing))
+      : [...current, glossary]);
+    try {
+      await putOne('glossaries', glossary);
+    } catch (err) {
+      console.error('Failed to save glossary:', err);
+      setError({ key: 'errors.glossarySave' });
+    }
+  }, [commit]);
+
+  const createGlossary = useCallback(async (
+    name: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    terms: GlossaryTerm[] = []
+  ): Promise<Glossary> => {
+    const now = new Date().toISOString();
+    const glossary: Glossary = {
+      id: createId(),
+      name: name.trim(),
+      sourceLanguage,
+      targetLanguage,
+      terms,
+      createdAt: now,
+      updatedAt: now
+    };
+    await persist(glossary);
+    return glossary;
+  }, [persist]);
+
+  const updateGlossary = useCallback(async (id: string, update: (glossary: Glossary) => Partial<Glossary>) => {
+    const glossary = glossariesRef.current.find(item => item.id === id);
+    if (!glossary) return;
+    await persist({ ...glossary, ...update(glossary), updatedAt: new Date().toISOString() });
+  }, [persist]);
+
+  const deleteGlossary = useCallback(async (id: string) => {
+    commit(glossariesRef.current.filter(glossary => glossary.id !== id));
+    setActiveIds(prev => prev.filter(activeId => activeId !== id));
+    try {
+      await deleteOne('glossaries', id);
+    } catch (err) {
+      console.error('Failed to delete glossary:', err);
+      setError({ key: 'errors.glossaryDelete' });
+    }
+  }, [commit]);
+
+  const addTerm = useCallback((glossaryId: string, term: Omit<GlossaryTerm, 'id'>) =>
+    updateGlossary(glossaryId, glossary => ({ terms: [...glossary.terms, { ...term, id: createId() }] })),
+  [updateGlossary]);
+
+  const updateTerm = useCallback((glossaryId: string, termId: string, changes: Partial<Omit<GlossaryTerm, 'id'>>) =>
+    updateGlossary(glossaryId, glossary => ({
+      terms: glossary.terms.map(term => (term.id === termId ? { ...term, ...changes } : term))
+    })),
+  [updateGlossary]);
+
+  const removeTerm = useCallback((glossaryId: string, termId: string) =>
+    updateGlossary(glossaryId, glossary => ({ terms: glossary.terms.filter(term => term.id !== termId) })),
+  [updateGlossary]);
+
+  const setGlossaryActive = useCallback((id: string, active: boolean) => {
+    setActiveIds(prev => (active ? Array.from(new Set([...prev, id])) : prev.filter(activeId => activeId !== id)));
+  }, []);
+
+  // Active glossaries that apply to a language pair
+  const getActiveGlossaries = useCallback((sourceLanguage: string, targetLanguage: string) =>
+    glossaries.filter(glossary =>
+      activeIds.includes(glossary.id) &&
+      glossary.sourceLanguage === sourceLanguage &&
+      glossary.targetLanguage === targetLanguage
+    ),
+  [glossaries, activeIds]);
+
+  // Imports CSV (source,target,note) or TBX terms into a new glossary for the given pair
+  const importGlossary = useCallback(async (
+    file: File,
+    sourceLanguage: string,
+    targetLanguage: string
+  ): Promise<number> => {
+    setError(null);
+
+    let terms: GlossaryTerm[];
+    try {
+      const content = await file.text();
+      terms = /\.(tbx|xml)$/i.test(file.name) || content.trimStart().startsWith('<')
+        ? parseGlossaryTBX(content, sourceLanguage, targetLanguage)
+        : parseGlossaryCSV(content);
+    } catch (err) {
+      console.error('Failed to import glossary:', err);
+      setError({ key: 'errors.glossaryUnreadable' });
+      return 0;
+    }
+
+    if (terms.length === 0) {
+      setError({
+        key: 'errors.glossaryNoTerms',
+        params: { source: sourceLanguage.toUpperCase(), target: targetLanguage.toUpperCase(), file: file.name }
+      });
+      return 0;
+    }
+
+    await createGlossary(file.name.replace(/\.[^.]+$/, '') || file.name, sourceLanguage, targetLanguage, terms);
+    return terms.length;
+  }, [createGlossary]);
+
+  const exportGlossary = useCallback((id: string, format: GlossaryFileFormat) => {
+    const glossary = glossaries.find(item => item.id === id);
+    if (!glossary) return;
+
+    const name = glossary.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    if (format === 'csv') {
+      downloadText(glossaryToCSV(glossary), `${name}.csv`, 'text/csv');
+    } else {
+      downloadText(glossaryToTBX(glossary), `${name}.tbx`, 'application/x-tbx+xml');
+    }
+  }, [glossaries]);
+
+  useEffect(() => {
+    sessionStorage.setItem(ACTIVE_GLOSSARIES_KEY, JSON.stringify(activeIds));
+  }, [activeIds]);
+
+  useEffect(() => {
+    getAll<Glossary>('glossaries')
+      .then((stored) => {
+        // Glossaries created while the store was loading are kept
+        const current = glossariesRef.current;
+        const ids = new Set(current.map(glossary => glossary.id));
+        commit([...stored.filter(glossary => !ids.has(glossary.id)), ...current]
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt)));
+      })
+      .catch((err) => {
+        console.error('Failed to load glossaries:', err);
+        setError({ key: 'errors.glossaryLoad' });
+      });
+  }, [commit]);
+
+  return {
+    glossaries,
+    activeIds,
+    error,
+    createGlossary,
+    deleteGlossary,
+    addTerm,
+    updateTerm,
+    removeTerm,
+    setGlossaryActive,
+    getActiveGlossaries,
+    importGlossary,
+    exportGlossary
+  };
+};
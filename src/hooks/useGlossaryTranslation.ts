@@ -0,0 +1,72 @@
+import { useCallback } from 'react';
+import { useCreoleAPI } from './useCreoleAPI';
+import { BatchTranslationResult, TranslationResult } from '../types/api';
+import { Glossary } from '../types/glossary';
+import { RequestOptions } from '../api/client';
+import { translateWithGlossaries } from '../utils/glossary';
+
+type CreoleAPI = ReturnType<typeof useCreoleAPI>;
+
+interface GlossaryTranslationOptions {
+  translateText: CreoleAPI['translateText'];
+  translateTextBatch: CreoleAPI['translateTextBatch'];
+  getActiveGlossaries: (sourceLanguage: string, targetLanguage: string) => Glossary[];
+}
+
+// Drop-in replacements for translateText and translateTextBatch that enforce the active glossaries,
+// so every mode and the offline queue translate terminology the same way as the main view
+export const useGlossaryTranslation = ({
+  translateText,
+  translateTextBatch,
+  getActiveGlossaries
+}: GlossaryTranslationOptions) => {
+  const translateWithActiveGlossaries = useCallback(async (
+    text: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    options?: RequestOptions
+  ): Promise<TranslationResult> => {
+    const { result } = await translateWithGlossaries(
+      text,
+      sourceLanguage,
+      targetLanguage,
+      getActiveGlossaries(sourceLanguage, targetLanguage),
+      (t, s, tg) => translateText(t, s, tg, options)
+    );
+    return result;
+  }, [translateText, getActiveGlossaries]);
+
+  // Terms are masked per language pair, so targets with glossaries leave the batch and go one by one
+  const translateBatchWithActiveGlossaries = useCallback(async (
+    text: string,
+    sourceLanguage: string,
+    targetLanguages: string[],
+    options?: RequestOptions
+  ): Promise<BatchTranslationResult> => {
+    const enforced = targetLanguages.filter(target => getActiveGlossaries(sourceLanguage, target).length > 0);
+    const batched = targetLanguages.filter(target => !enforced.includes(target));
+
+    const [batch, settled] = await Promise.all([
+      batched.length > 0
+        ? translateTextBatch(text, sourceLanguage, batched, options)
+        : Promise.resolve<BatchTranslationResult>({ translations: {} }),
+      Promise.allSettled(enforced.map(target => translateWithActiveGlossaries(text, sourceLanguage, target, options)))
+    ]);
+
+    const translations = { ...batch.translations };
+    const errors = { ...batch.errors };
+    settled.forEach((outcome, i) => {
+      if (outcome.status === 'fulfilled') {
+        translations[enforced[i]] = outcome.value;
+      } else {
+        errors[enforced[i]] = outcome.reason instanceof Error ? outcome.reason.message : 'Translation failed';
+      }
+    });
+    return { translations, errors };
+  }, [translateTextBatch, translateWithActiveGlossaries, getActiveGlossaries]);
+
+  return {
+    translateText: translateWithActiveGlossaries,
+    translateTextBatch: translateBatchWithActiveGlossaries
+  };
+};
@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback } from 'react';
+import { HistoryEntry, NewHistoryEntry } from '../types/history';
+import { getAll, putOne, deleteOne, clearStore } from '../storage/db';
+import { createId } from '../utils/id';
+import { downloadText, toCSV } from '../utils/download';
+import { LocalizedMessage } from '../types/i18n';
+
+const byNewest = (a: HistoryEntry, b: HistoryEntry) => b.timestamp.localeCompare(a.timestamp);
+
+export const useHistory = () => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [error, setError] = useState<LocalizedMessage | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      const stored = await getAll<HistoryEntry>('history');
+      // Entries added while the store was loading are kept
+      setEntries(prev => {
+        const ids = new Set(prev.map(entry => entry.id));
+        return [...prev, ...stored.filter(entry => !ids.has(entry.id))].sort(byNewest);
+      });
+    } catch (err) {
+      console.error('Failed to load history:', err);
+      setError({ key: 'errors.historyLoad' });
+    }
+  }, []);
+
+  const addEntry = useCallback(async (entry: NewHistoryEntry) => {
+    const stored: HistoryEntry = {
+      ...entry,
+      id: createId(),
+      timestamp: new Date().toISOString()
+    };
+
+    setEntries(prev => [stored, ...prev]);
+    try {
+      await putOne('history', stored);
+    } catch (err) {
+      console.error('Failed to save history entry:', err);
+      setError({ key: 'errors.historySave' });
+    }
+  }, []);
+
+  const deleteEntry = useCallback(async (id: string) => {
+    setEntries(prev => prev.filter(entry => entry.id !== id));
+    try {
+      await deleteOne('history', id);
+    } catch (err) {
+      console.error('Failed to delete history entry:', err);
+      setError({ key: 'errors.historyDelete' });
+    }
+  }, []);
+
+  const clearHistory = useCallback(async () => {
+    setEntries([]);
+    try {
+      await clearStore('history');
+    } catch (err) {
+      console.error('Failed to clear history:', err);
+      setError({ key: 'errors.historyClear' });
+    }
+  }, []);
+
+  const exportHistory = useCallback((format: 'json' | 'csv', selection: HistoryEntry[] = entries) => {
+    const date = new Date().toISOString().slice(0, 10);
+
+    if (format === 'json') {
+      downloadText(JSON.stringify(selection, null, 2), `translation-history-${date}.json`, 'application/json');
+      return;
+    }
+
+    const rows = [
+      ['timestamp', 'kind', 'source_language', 'target_language', 'input', 'output', 'confidence'],
+      ...selection.map(entry => [
+        entry.timestamp,
+        entry.kind,
+        entry.sourceLanguage,
+        entry.targetLanguage,
+        entry.input,
+        entry.output,
+        entry.confidence
+      ])
+    ];
+    downloadText(toCSV(rows), `translation-history-${date}.csv`, 'text/csv');
+  }, [entries]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  return {
+    entries,
+    error,
+    addEntry,
+    deleteEntry,
+    clearHistory,
+    exportHistory
+  };
+};
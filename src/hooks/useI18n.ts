@@ -0,0 +1,19 @@
+import { createContext, useContext } from 'react';
+import { MessageKey } from '../i18n/messages/en';
+import { MessageParams, UiLanguage } from '../types/i18n';
+
+export interface I18nContextValue {
+  uiLanguage: UiLanguage;
+  setUiLanguage: (language: UiLanguage) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+}
+
+export const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const useI18n = (): I18nContextValue => {
+  const i18n = useContext(I18nContext);
+  if (!i18n) {
+    throw new Error('useI18n must be used inside I18nProvider');
+  }
+  return i18n;
+};
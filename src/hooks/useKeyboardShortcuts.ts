@@ -0,0 +1,29 @@
+import { useEffect, useRef } from 'react';
+import { ShortcutId } from '../types/a11y';
+import { matchesShortcut, SHORTCUTS } from '../utils/shortcuts';
+
+type ShortcutHandlers = Partial<Record<ShortcutId, () => void>>;
+
+// Global shortcuts; handlers are read from a ref so the listener is only attached once
+export const useKeyboardShortcuts = (handlers: ShortcutHandlers) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.repeat) return;
+      // Open dialogs own the keyboard
+      if (event.target instanceof Element && event.target.closest('[role="dialog"]')) return;
+
+      const match = (Object.keys(SHORTCUTS) as ShortcutId[]).find(id => matchesShortcut(event, SHORTCUTS[id]));
+      const handler = match && handlersRef.current[match];
+      if (!handler) return;
+
+      event.preventDefault();
+      handler();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+};
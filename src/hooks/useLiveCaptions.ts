@@ -0,0 +1,267 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCreoleAPI } from './useCreoleAPI';
+import { useWebSocket } from './useWebSocket';
+import { useAudioRecorder } from './useAudioRecorder';
+import { CaptionLine, CaptionSession, CaptionSpeechSettings, PartialCaption } from '../types/captions';
+import { CAPTURE_FORMAT, pcmToBase64 } from '../utils/wav';
+import { translateBySentence } from '../utils/sentenceTranslation';
+import { playBlob } from '../utils/audio';
+import { createId } from '../utils/id';
+import { isCancelled } from '../api/errors';
+import { LocalizedMessage } from '../types/i18n';
+
+type CreoleAPI = ReturnType<typeof useCreoleAPI>;
+
+// The server flushes the last utterance after "stop"; wait this long for it before closing the socket
+const FINAL_FLUSH_TIMEOUT_MS = 1500;
+
+interface LiveCaptionsOptions {
+  streamingUrl: string;
+  translateText: CreoleAPI['translateText'];
+  synthesizeText: CreoleAPI['synthesizeText'];
+}
+
+// Latest-wins translation of the in-progress utterance: intermediate partials are dropped while one is in flight
+interface PartialJob {
+  pending: string | null;
+  running: boolean;
+  controller: AbortController | null;
+}
+
+export const useLiveCaptions = ({ streamingUrl, translateText, synthesizeText }: LiveCaptionsOptions) => {
+  const [session, setSession] = useState<CaptionSession | null>(null);
+  const [partial, setPartial] = useState<PartialCaption | null>(null);
+  const [isLive, setIsLive] = useState(false);
+  const [error, setError] = useState<LocalizedMessage | null>(null);
+
+  const sessionRef = useRef<CaptionSession | null>(null);
+  const startedAtRef = useRef(0);
+  const segmentStartRef = useRef<number | null>(null);
+  const partialJobRef = useRef<PartialJob>({ pending: null, running: false, controller: null });
+  const speechRef = useRef<CaptionSpeechSettings>({ enabled: false, language: '', voice: 'default' });
+  const speechQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const flushWaiterRef = useRef<(() => void) | null>(null);
+
+  const {
+    isConnected,
+    error: socketError,
+    connect,
+    disconnect,
+    subscribe,
+    sendAudioChunk,
+    sendConfig,
+    sendStop
+  } = useWebSocket(streamingUrl);
+
+  const { isRecording, startRecording, stopRecording } = useAudioRecorder({
+    onChunk: (chunk) => {
+      if (isConnected) sendAudioChunk(pcmToBase64(chunk));
+    },
+    retainAudio: false
+  });
+
+  const elapsed = () => Date.now() - startedAtRef.current;
+
+  const updateLine = (sessionId: string, lineId: string, target: string, text: string) => {
+    setSession(prev => {
+      if (!prev || prev.id !== sessionId) return prev;
+      const next = {
+        ...prev,
+        lines: prev.lines.map(line =>
+          line.id === lineId ? { ...line, translations: { ...line.translations, [target]: text } } : line
+        )
+      };
+      sessionRef.current = next;
+      return next;
+    });
+  };
+
+  // Finalized translations are spoken one after another, never overlapping
+  const speak = (sessionId: string, text: string) => {
+    const { language, voice } = speechRef.current;
+    speechQueueRef.current = speechQueueRef.current
+      .then(async () => {
+        if (sessionRef.current?.id !== sessionId || !speechRef.current.enabled) return;
+        await playBlob(await synthesizeText(text, language, voice));
+      })
+      .catch((err) => console.error('Caption speech error:', err));
+  };
+
+  const translatePartial = async (text: string) => {
+    const job = partialJobRef.current;
+    job.pending = text;
+    if (job.running) return;
+
+    job.running = true;
+    while (job.pending !== null) {
+      const current = sessionRef.current;
+      const source = job.pending;
+      job.pending = null;
+      if (!current) break;
+
+      const controller = new AbortController();
+      job.controller = controller;
+      const translate = (t: string, s: string, tg: string) => translateText(t, s, tg, { signal: controller.signal });
+      // Completed sentences of a long utterance come from the cache, so only the newest one is sent
+      const outcomes = await Promise.allSettled(current.targetLanguages.map(target =>
+        translateBySentence(source, current.sourceLanguage, target, translate)
+      ));
+      if (controller.signal.aborted) continue;
+
+      const translations: Record<string, string> = {};
+      outcomes.forEach((outcome, i) => {
+        if (outcome.status === 'fulfilled') translations[current.targetLanguages[i]] = outcome.value.translated_text;
+      });
+      setPartial(prev => (prev ? { ...prev, translations: { ...prev.translations, ...translations } } : prev));
+    }
+    job.running = false;
+    job.controller = null;
+  };
+
+  const handlePartial = (text: string) => {
+    if (!sessionRef.current || !text.trim()) return;
+    if (segmentStartRef.current === null) segmentStartRef.current = elapsed();
+    setPartial(prev => ({ text, translations: prev?.translations ?? {} }));
+    translatePartial(text);
+  };
+
+  const handleFinal = (text: string, language: string) => {
+    const current = sessionRef.current;
+    const job = partialJobRef.current;
+    job.pending = null;
+    job.controller?.abort();
+    setPartial(null);
+    flushWaiterRef.current?.();
+    if (!current || !text.trim()) return;
+
+    const end = elapsed();
+    const line: CaptionLine = {
+      id: createId(),
+      text,
+      language: language || current.sourceLanguage,
+      translations: {},
+      start: segmentStartRef.current ?? end,
+      end
+    };
+    segmentStartRef.current = null;
+
+    const next = { ...current, lines: [...current.lines, line] };
+    sessionRef.current = next;
+    setSession(next);
+
+    current.targetLanguages.forEach(async (target) => {
+      try {
+        const result = await translateText(text, line.language, target);
+        updateLine(current.id, line.id, target, result.translated_text);
+        if (speechRef.current.enabled && speechRef.current.language === target) {
+          speak(current.id, result.translated_text);
+        }
+      } catch (err) {
+        if (isCancelled(err)) return;
+        console.error('Caption translation error:', err);
+        setError({ key: 'errors.captionsUntranslated' });
+      }
+    });
+  };
+
+  // Handlers read the latest state through refs, so they can be subscribed once
+  const handlersRef = useRef({ handlePartial, handleFinal });
+  handlersRef.current = { handlePartial, handleFinal };
+
+  useEffect(() => {
+    const unsubscribers = [
+      subscribe('partial_transcript', (message) => handlersRef.current.handlePartial(message.data.text)),
+      subscribe('final_transcript', (message) =>
+        handlersRef.current.handleFinal(message.data.text, message.data.language)
+      )
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [subscribe]);
+
+  // Describe the audio format once the stream is open so the server can decode the frames
+  useEffect(() => {
+    const current = sessionRef.current;
+    if (isConnected && isRecording && current) {
+      sendConfig({
+        language: current.sourceLanguage,
+        sample_rate: CAPTURE_FORMAT.sampleRate,
+        encoding: CAPTURE_FORMAT.encoding,
+        interim_results: true
+      });
+    }
+  }, [isConnected, isRecording, sendConfig]);
+
+  const setSpeech = useCallback((settings: CaptionSpeechSettings) => {
+    speechRef.current = settings;
+  }, []);
+
+  const start = useCallback(async (sourceLanguage: string, targetLanguages: string[]) => {
+    setError(null);
+    setPartial(null);
+    segmentStartRef.current = null;
+    speechQueueRef.current = Promise.resolve();
+
+    const next: CaptionSession = {
+      id: createId(),
+      sourceLanguage,
+      targetLanguages,
+      startedAt: new Date().toISOString(),
+      lines: []
+    };
+    sessionRef.current = next;
+    setSession(next);
+    startedAtRef.current = Date.now();
+
+    try {
+      await startRecording();
+      connect();
+      setIsLive(true);
+    } catch (err) {
+      setError({ key: 'errors.microphone' });
+    }
+  }, [startRecording, connect]);
+
+  const stop = useCallback(async () => {
+    setIsLive(false);
+    partialJobRef.current.pending = null;
+    partialJobRef.current.controller?.abort();
+    setPartial(null);
+
+    try {
+      await stopRecording();
+    } catch (err) {
+      console.error('Recording error:', err);
+    }
+    if (isConnected) {
+      sendStop();
+      await new Promise<void>((resolve) => {
+        const timeout = window.setTimeout(resolve, FINAL_FLUSH_TIMEOUT_MS);
+        flushWaiterRef.current = () => {
+          window.clearTimeout(timeout);
+          resolve();
+        };
+      });
+      flushWaiterRef.current = null;
+    }
+    disconnect();
+
+    setSession(prev => {
+      if (!prev) return prev;
+      const ended = { ...prev, endedAt: new Date().toISOString() };
+      sessionRef.current = ended;
+      return ended;
+    });
+  }, [isConnected, sendStop, stopRecording, disconnect]);
+
+  return {
+    session,
+    partial,
+    isLive,
+    isConnected,
+    error: error ?? socketError,
+    clearError: () => setError(null),
+    start,
+    stop,
+    setSpeech
+  };
+};
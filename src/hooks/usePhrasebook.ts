@@ -0,0 +1,209 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useCreoleAPI } from './useCreoleAPI';
+import { Phrase, PhraseAudio, PhrasebookExport, ExportedPhrase } from '../types/phrasebook';
+import { getAll, getOne, putOne, deleteOne } from '../storage/db';
+import { createId } from '../utils/id';
+import { blobToDataURL, dataURLToBlob, isAudioDataURL } from '../utils/blob';
+import { downloadText } from '../utils/download';
+import { LocalizedMessage } from '../types/i18n';
+import { I18nContextValue } from './useI18n';
+
+// Stored id of the built-in category; it is shown through the phrasebook.defaultCategory message
+export const DEFAULT_CATEGORY = 'general';
+// What phrases saved before the id existed carry
+const LEGACY_DEFAULT_CATEGORY = 'General';
+
+const normalizeCategory = (category?: string): string => {
+  const trimmed = category?.trim();
+  return !trimmed || trimmed === LEGACY_DEFAULT_CATEGORY ? DEFAULT_CATEGORY : trimmed;
+};
+
+export const categoryLabel = (category: string, t: I18nContextValue['t']): string =>
+  category === DEFAULT_CATEGORY ? t('phrasebook.defaultCategory') : category;
+
+type SynthesizeText = ReturnType<typeof useCreoleAPI>['synthesizeText'];
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+const isExportedPhrase = (value: unknown): value is ExportedPhrase => {
+  const phrase = value as ExportedPhrase;
+  return (
+    !!phrase &&
+    typeof phrase.id === 'string' &&
+    typeof phrase.sourceText === 'string' &&
+    typeof phrase.translatedText === 'string' &&
+    typeof phrase.sourceLanguage === 'string' &&
+    typeof phrase.targetLanguage === 'string' &&
+    isOptionalString(phrase.category) &&
+    isOptionalString(phrase.voice) &&
+    isOptionalString(phrase.createdAt) &&
+    (phrase.audio === undefined || (typeof phrase.audio === 'string' && isAudioDataURL(phrase.audio)))
+  );
+};
+
+export const usePhrasebook = (synthesizeText: SynthesizeText) => {
+  const [phrases, setPhrases] = useState<Phrase[]>([]);
+  const [error, setError] = useState<LocalizedMessage | null>(null);
+
+  const categories = useMemo(
+    () => [
+      DEFAULT_CATEGORY,
+      ...Array.from(new Set(phrases.map(phrase => phrase.category)))
+        .filter(category => category !== DEFAULT_CATEGORY)
+        .sort()
+    ],
+    [phrases]
+  );
+
+  const loadPhrases = useCallback(async () => {
+    try {
+      const stored = await getAll<Phrase>('phrases');
+      setPhrases(stored
+        .map(phrase => ({ ...phrase, category: normalizeCategory(phrase.category) }))
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt)));
+    } catch (err) {
+      console.error('Failed to load phrasebook:', err);
+      setError({ key: 'errors.phrasebookLoad' });
+    }
+  }, []);
+
+  // Returns cached audio, synthesizing and caching it on a miss
+  const getPhraseAudio = useCallback(async (phrase: Phrase): Promise<Blob> => {
+    const cached = await getOne<PhraseAudio>('phraseAudio', phrase.id).catch(() => undefined);
+    if (cached && cached.voice === phrase.voice) {
+      return cached.blob;
+    }
+
+    const blob = await synthesizeText(phrase.translatedText, phrase.targetLanguage, phrase.voice);
+    await putOne<PhraseAudio>('phraseAudio', { phraseId: phrase.id, voice: phrase.voice, blob }).catch((err) => {
+      console.error('Failed to cache phrase audio:', err);
+    });
+    return blob;
+  }, [synthesizeText]);
+
+  const savePhrase = useCallback(async (phrase: Omit<Phrase, 'id' | 'createdAt'>) => {
+    const stored: Phrase = {
+      ...phrase,
+      category: normalizeCategory(phrase.category),
+      id: createId(),
+      createdAt: new Date().toISOString()
+    };
+
+    try {
+      await putOne('phrases', stored);
+      setPhrases(prev => [...prev, stored]);
+    } catch (err) {
+      console.error('Failed to save phrase:', err);
+      setError({ key: 'errors.phraseSave' });
+      return;
+    }
+
+    // Warm the audio cache so the phrase replays instantly, even offline
+    getPhraseAudio(stored).catch((err) => {
+      console.error('Failed to pre-cache phrase audio:', err);
+    });
+  }, [getPhraseAudio]);
+
+  const updatePhrase = useCallback(async (id: string, changes: Partial<Omit<Phrase, 'id'>>) => {
+    const phrase = phrases.find(item => item.id === id);
+    if (!phrase) return;
+
+    const updated = { ...phrase, ...changes };
+    setPhrases(prev => prev.map(item => (item.id === id ? updated : item)));
+    try {
+      await putOne('phrases', updated);
+    } catch (err) {
+      console.error('Failed to update phrase:', err);
+      setError({ key: 'errors.phraseUpdate' });
+    }
+  }, [phrases]);
+
+  const deletePhrase = useCallback(async (id: string) => {
+    setPhrases(prev => prev.filter(phrase => phrase.id !== id));
+    try {
+      await Promise.all([deleteOne('phrases', id), deleteOne('phraseAudio', id)]);
+    } catch (err) {
+      console.error('Failed to delete phrase:', err);
+      setError({ key: 'errors.phraseDelete' });
+    }
+  }, []);
+
+  const exportPhrasebook = useCallback(async (category?: string) => {
+    const selection = category ? phrases.filter(phrase => phrase.category === category) : phrases;
+
+    const exported: PhrasebookExport = {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      phrases: await Promise.all(selection.map(async (phrase) => {
+        const cached = await getOne<PhraseAudio>('phraseAudio', phrase.id).catch(() => undefined);
+        return cached ? { ...phrase, audio: await blobToDataURL(cached.blob) } : phrase;
+      }))
+    };
+
+    const name = (category ?? 'all').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    downloadText(JSON.stringify(exported, null, 2), `phrasebook-${name}.json`, 'application/json');
+  }, [phrases]);
+
+  // Merges an exported phrasebook; phrases with the same id are overwritten.
+  // Returns how many phrases were stored, even when the import stops partway through.
+  const importPhrasebook = useCallback(async (file: File): Promise<number> => {
+    setError(null);
+
+    let data: PhrasebookExport;
+    try {
+      data = JSON.parse(await file.text());
+    } catch (err) {
+      setError({ key: 'errors.phrasebookInvalidJson' });
+      return 0;
+    }
+
+    if (data?.version !== 1 || !Array.isArray(data.phrases)) {
+      setError({ key: 'errors.phrasebookUnsupported' });
+      return 0;
+    }
+
+    const imported = data.phrases.filter(isExportedPhrase);
+    let count = 0;
+    try {
+      for (const { audio, ...phrase } of imported) {
+        const stored: Phrase = {
+          ...phrase,
+          category: normalizeCategory(phrase.category),
+          voice: phrase.voice || 'default',
+          createdAt: phrase.createdAt || new Date().toISOString()
+        };
+        await putOne('phrases', stored);
+        count += 1;
+        if (audio) {
+          await putOne<PhraseAudio>('phraseAudio', {
+            phraseId: stored.id,
+            voice: stored.voice,
+            blob: dataURLToBlob(audio)
+          });
+        }
+      }
+    } catch (err) {
+      console.error('Failed to import phrasebook:', err);
+      setError({ key: 'errors.phrasebookImport' });
+    }
+
+    await loadPhrases();
+    return count;
+  }, [loadPhrases]);
+
+  useEffect(() => {
+    loadPhrases();
+  }, [loadPhrases]);
+
+  return {
+    phrases,
+    categories,
+    error,
+    savePhrase,
+    updatePhrase,
+    deletePhrase,
+    getPhraseAudio,
+    exportPhrasebook,
+    importPhrasebook
+  };
+};
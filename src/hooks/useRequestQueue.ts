@@ -0,0 +1,179 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useCreoleAPI } from './useCreoleAPI';
+import { QueuedRequest, QueuedRequestResult } from '../types/queue';
+import { getAll, putOne, deleteOne } from '../storage/db';
+import { createId } from '../utils/id';
+import { NetworkError } from '../api/errors';
+
+type CreoleAPI = ReturnType<typeof useCreoleAPI>;
+
+type QueueService = 'translation' | 'stt';
+
+const QUEUE_SERVICES: QueueService[] = ['translation', 'stt'];
+
+const serviceFor = (item: QueuedRequest): QueueService => (item.kind === 'translation' ? 'translation' : 'stt');
+
+interface RequestQueueOptions {
+  availability: CreoleAPI['availability'];
+  translateText: CreoleAPI['translateText'];
+  transcribeAudio: CreoleAPI['transcribeAudio'];
+  onComplete: (completed: QueuedRequestResult) => void;
+}
+
+// Holds translation/transcription requests made while offline and replays them once services return
+export const useRequestQueue = (options: RequestQueueOptions) => {
+  const { availability, translateText, transcribeAudio } = options;
+
+  const [items, setItems] = useState<QueuedRequest[]>([]);
+  const itemsRef = useRef<QueuedRequest[]>([]);
+  const availabilityRef = useRef(availability);
+  const previousAvailabilityRef = useRef(availability);
+  // Services reported up that still failed with a network error; their requests wait for a down-to-up change
+  const heldServicesRef = useRef(new Set<QueueService>());
+  const isProcessingRef = useRef(false);
+  const onCompleteRef = useRef(options.onComplete);
+  availabilityRef.current = availability;
+  onCompleteRef.current = options.onComplete;
+
+  // Keeps the ref in step with state so the replay loop always sees the latest queue
+  const updateItems = useCallback((update: (prev: QueuedRequest[]) => QueuedRequest[]) => {
+    itemsRef.current = update(itemsRef.current);
+    setItems(itemsRef.current);
+  }, []);
+
+  const saveItem = useCallback(async (item: QueuedRequest) => {
+    updateItems(prev => (prev.some(existing => existing.id === item.id)
+      ? prev.map(existing => (existing.id === item.id ? item : existing))
+      : [...prev, item]));
+    await putOne('requestQueue', item).catch((err) => {
+      console.error('Failed to persist queued request:', err);
+    });
+  }, [updateItems]);
+
+  const removeItem = useCallback(async (id: string) => {
+    updateItems(prev => prev.filter(item => item.id !== id));
+    await deleteOne('requestQueue', id).catch((err) => {
+      console.error('Failed to remove queued request:', err);
+    });
+  }, [updateItems]);
+
+  // Replays pending requests one at a time, in submission order, for whichever services are reachable
+  const processQueue = useCallback(async () => {
+    if (isProcessingRef.current) return;
+    isProcessingRef.current = true;
+
+    try {
+      while (true) {
+        const item = itemsRef.current.find(queued =>
+          queued.status === 'pending'
+          && availabilityRef.current[serviceFor(queued)]
+          && !heldServicesRef.current.has(serviceFor(queued))
+        );
+        if (!item) break;
+
+        await saveItem({ ...item, status: 'running', attempts: item.attempts + 1 });
+        try {
+          if (item.kind === 'translation') {
+            const result = await translateText(item.text, item.sourceLanguage, item.targetLanguage);
+            onCompleteRef.current({ kind: 'translation', request: item, result });
+          } else {
+            const result = await transcribeAudio(item.file, item.language);
+            onCompleteRef.current({ kind: 'transcription', request: item, result });
+          }
+          await removeItem(item.id);
+        } catch (err) {
+          console.error('Queued request failed:', err);
+          if (err instanceof NetworkError) {
+            heldServicesRef.current.add(serviceFor(item));
+            await saveItem({ ...item, status: 'pending', attempts: item.attempts + 1 });
+          } else {
+            await saveItem({
+              ...item,
+              status: 'failed',
+              attempts: item.attempts + 1,
+              error: err instanceof Error ? err.message : 'Request failed'
+            });
+          }
+        }
+      }
+    } finally {
+      isProcessingRef.current = false;
+    }
+  }, [translateText, transcribeAudio, saveItem, removeItem]);
+
+  const queueTranslation = useCallback(async (text: string, sourceLanguage: string, targetLanguage: string) => {
+    // Queued while reported up means the request just hit a network error, so replaying now would fail again
+    if (availabilityRef.current.translation) heldServicesRef.current.add('translation');
+    await saveItem({
+      id: createId(),
+      kind: 'translation',
+      text,
+      sourceLanguage,
+      targetLanguage,
+      status: 'pending',
+      attempts: 0,
+      createdAt: new Date().toISOString()
+    });
+    processQueue();
+  }, [saveItem, processQueue]);
+
+  const queueTranscription = useCallback(async (file: File, language: string) => {
+    if (availabilityRef.current.stt) heldServicesRef.current.add('stt');
+    await saveItem({
+      id: createId(),
+      kind: 'transcription',
+      file,
+      language,
+      status: 'pending',
+      attempts: 0,
+      createdAt: new Date().toISOString()
+    });
+    processQueue();
+  }, [saveItem, processQueue]);
+
+  const retry = useCallback(async (id?: string) => {
+    const failed = itemsRef.current.filter(item => item.status === 'failed' && (!id || item.id === id));
+    for (const item of failed) {
+      await saveItem({ ...item, status: 'pending', error: undefined });
+    }
+    // An explicit retry tries held services again too
+    heldServicesRef.current.clear();
+    processQueue();
+  }, [saveItem, processQueue]);
+
+  useEffect(() => {
+    getAll<QueuedRequest>('requestQueue')
+      .then((stored) => {
+        // Anything left 'running' was interrupted by a reload
+        const restored = stored
+          .map(item => (item.status === 'running' ? { ...item, status: 'pending' as const } : item))
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+        updateItems(prev => [...restored, ...prev.filter(item => !restored.some(r => r.id === item.id))]);
+        processQueue();
+      })
+      .catch((err) => {
+        console.error('Failed to load request queue:', err);
+      });
+  }, [updateItems, processQueue]);
+
+  useEffect(() => {
+    const current = { translation: availability.translation, stt: availability.stt };
+    const previous = previousAvailabilityRef.current;
+    previousAvailabilityRef.current = { ...previous, ...current };
+    QUEUE_SERVICES.forEach((service) => {
+      if (!previous[service] && current[service]) heldServicesRef.current.delete(service);
+    });
+
+    if (current.translation || current.stt) {
+      processQueue();
+    }
+  }, [availability.translation, availability.stt, processQueue]);
+
+  return {
+    items,
+    queueTranslation,
+    queueTranscription,
+    removeItem,
+    retry
+  };
+};
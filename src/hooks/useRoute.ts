@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AppRoute } from '../types/routes';
+import { buildRoutePath, parseRoute } from '../utils/routes';
+
+interface NavigateOptions {
+  replace?: boolean;
+}
+
+// A minimal History API router: the app writes its state to the URL with navigate, and
+// `route` only changes on load and back/forward
+export const useRoute = () => {
+  const [route, setRoute] = useState<AppRoute>(() => parseRoute(window.location));
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(parseRoute(window.location));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = useCallback((next: AppRoute, { replace = false }: NavigateOptions = {}) => {
+    const path = buildRoutePath(next);
+    if (path === `${window.location.pathname}${window.location.search}`) return;
+    if (replace) {
+      window.history.replaceState(null, '', path);
+    } else {
+      window.history.pushState(null, '', path);
+    }
+  }, []);
+
+  return { route, navigate };
+};
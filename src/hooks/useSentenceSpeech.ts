@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCreoleAPI } from './useCreoleAPI';
+import { SentenceSpan } from '../types/text';
+import { SentenceClipStatus, SentenceSpeechStatus, SpeechSettings } from '../types/tts';
+import { splitSentences } from '../utils/sentences';
+import { createRateLimiter } from '../utils/rateLimit';
+import { isCancelled } from '../api/errors';
+import { LocalizedMessage } from '../types/i18n';
+
+type SynthesizeText = ReturnType<typeof useCreoleAPI>['synthesizeText'];
+
+// Enough to stay ahead of playback without flooding the TTS service
+const SYNTHESIS_CONCURRENCY = 2;
+
+interface SpeechSession {
+  clips: Promise<Blob>[];
+  controller: AbortController;
+  limiter: ReturnType<typeof createRateLimiter>;
+  audio: HTMLAudioElement;
+  audioUrl: string | null;
+  index: number;
+}
+
+// Reads long text sentence by sentence: chunks are synthesized ahead of playback and played in order
+export const useSentenceSpeech = (synthesizeText: SynthesizeText) => {
+  const [sentences, setSentences] = useState<SentenceSpan[]>([]);
+  const [clipStatus, setClipStatus] = useState<SentenceClipStatus[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(-1);
+  const [status, setStatus] = useState<SentenceSpeechStatus>('idle');
+  const [error, setError] = useState<LocalizedMessage | null>(null);
+
+  const sessionRef = useRef<SpeechSession | null>(null);
+
+  const releaseAudio = (session: SpeechSession) => {
+    session.audio.pause();
+    session.audio.onended = null;
+    session.audio.removeAttribute('src');
+    if (session.audioUrl) {
+      URL.revokeObjectURL(session.audioUrl);
+      session.audioUrl = null;
+    }
+  };
+
+  const stop = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    sessionRef.current = null;
+    session.controller.abort();
+    session.limiter.clear();
+    releaseAudio(session);
+    setStatus('idle');
+    setCurrentIndex(-1);
+  }, []);
+
+  const clear = useCallback(() => {
+    stop();
+    setSentences([]);
+    setClipStatus([]);
+    setError(null);
+  }, [stop]);
+
+  const playFrom = useCallback(async (session: SpeechSession, index: number) => {
+    if (sessionRef.current !== session) return;
+    if (index >= session.clips.length) {
+      stop();
+      return;
+    }
+
+    session.index = index;
+    releaseAudio(session);
+    setCurrentIndex(index);
+    setStatus('loading');
+
+    let clip: Blob;
+    try {
+      clip = await session.clips[index];
+    } catch (err) {
+      if (sessionRef.current !== session || session.index !== index) return;
+      // A failed sentence is skipped rather than ending the whole reading
+      console.error('Sentence synthesis error:', err);
+      setError({ key: 'errors.sentencesSkipped' });
+      playFrom(session, index + 1);
+      return;
+    }
+
+    // The listener may have skipped or stopped while this chunk was still being synthesized
+    if (sessionRef.current !== session || session.index !== index) return;
+
+    session.audioUrl = URL.createObjectURL(clip);
+    session.audio.src = session.audioUrl;
+    session.audio.onended = () => playFrom(session, index + 1);
+    try {
+      await session.audio.play();
+      if (sessionRef.current === session && session.index === index) setStatus('playing');
+    } catch {
+      // Autoplay was blocked; the listener can resume manually
+      if (sessionRef.current === session && session.index === index) setStatus('paused');
+    }
+  }, [stop]);
+
+  const speak = useCallback((
+    text: string,
+    language: string,
+    voice: string,
+    settings: SpeechSettings
+  ) => {
+    stop();
+    setError(null);
+
+    const spans = splitSentences(text);
+    if (spans.length === 0) return;
+
+    const controller = new AbortController();
+    const limiter = createRateLimiter({ concurrency: SYNTHESIS_CONCURRENCY });
+    const clips = spans.map((span, index) => {
+      const clip = limiter.schedule(() =>
+        synthesizeText(span.text, language, voice, settings, { signal: controller.signal })
+      );
+      clip.then(
+        () => !controller.signal.aborted && setClipStatus(prev => prev.map((s, i) => (i === index ? 'ready' : s))),
+        (err) => !controller.signal.aborted && !isCancelled(err) &&
+          setClipStatus(prev => prev.map((s, i) => (i === index ? 'failed' : s)))
+      );
+      return clip;
+    });
+
+    const session: SpeechSession = { clips, controller, limiter, audio: new Audio(), audioUrl: null, index: 0 };
+    sessionRef.current = session;
+    setSentences(spans);
+    setClipStatus(spans.map(() => 'pending'));
+    playFrom(session, 0);
+  }, [stop, playFrom, synthesizeText]);
+
+  const skip = useCallback((delta: number) => {
+    const session = sessionRef.current;
+    if (!session) return;
+    const target = Math.max(0, Math.min(session.clips.length - 1, session.index + delta));
+    if (target !== session.index) playFrom(session, target);
+  }, [playFrom]);
+
+  const jumpTo = useCallback((index: number) => {
+    const session = sessionRef.current;
+    if (session && index >= 0 && index < session.clips.length) playFrom(session, index);
+  }, [playFrom]);
+
+  const togglePause = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session || !session.audioUrl) return;
+    if (session.audio.paused) {
+      session.audio.play().then(() => setStatus('playing')).catch(() => setStatus('paused'));
+    } else {
+      session.audio.pause();
+      setStatus('paused');
+    }
+  }, []);
+
+  useEffect(() => stop, [stop]);
+
+  return {
+    sentences,
+    clipStatus,
+    currentIndex,
+    status,
+    error,
+    speak,
+    skip,
+    jumpTo,
+    togglePause,
+    stop,
+    clear
+  };
+};
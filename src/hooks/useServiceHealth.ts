@@ -0,0 +1,187 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { CreoleClient } from '../api/client';
+import { describeError } from '../api/errors';
+import { ServiceName } from '../types/api';
+import { MonitoredService, Outage, ServiceStatus } from '../types/health';
+import { createId } from '../utils/id';
+
+interface ServiceHealthOptions {
+  client: CreoleClient;
+  streamingUrl: string;
+  monitorStreaming: boolean;
+}
+
+type CheckOutcome = Omit<ServiceStatus, 'service'>;
+
+const HTTP_SERVICES: ServiceName[] = ['translation', 'stt', 'tts'];
+const HEALTH_CHECK_INTERVAL_MS = 30000;
+// Each probe opens a real stream on the server, so the socket is checked far less often
+const STREAMING_CHECK_INTERVAL_MS = 300000;
+const SOCKET_PROBE_TIMEOUT_MS = 5000;
+const MAX_OUTAGES = 50;
+
+const initialStatus = (service: MonitoredService): ServiceStatus => ({
+  service,
+  state: 'unknown',
+  lastChecked: null,
+  latencyMs: null,
+  version: null,
+  error: null
+});
+
+const checkHttpService = async (client: CreoleClient, service: ServiceName): Promise<CheckOutcome> => {
+  const started = performance.now();
+  try {
+    const health = await client.health(service);
+    return {
+      state: health.status === 'healthy' ? 'healthy' : 'degraded',
+      lastChecked: new Date().toISOString(),
+      latencyMs: Math.round(performance.now() - started),
+      version: health.version ?? null,
+      error: health.status === 'healthy' ? null : { key: 'errors.reportedStatus', params: { status: health.status } }
+    };
+  } catch (err) {
+    return {
+      state: 'down',
+      lastChecked: new Date().toISOString(),
+      latencyMs: null,
+      version: null,
+      error: describeError(err, 'errors.healthCheck')
+    };
+  }
+};
+
+// The socket has no /health endpoint, so a successful open is the signal
+const probeSocket = (url: string): Promise<CheckOutcome> =>
+  new Promise((resolve) => {
+    const started = performance.now();
+    let settled = false;
+    let socket: WebSocket;
+
+    const finish = (outcome: Omit<CheckOutcome, 'lastChecked' | 'version'>) => {
+      if (settled) return;
+      settled = true;
+      window.clearTimeout(timer);
+      socket.onopen = socket.onerror = socket.onclose = null;
+      if (socket.readyState === WebSocket.CONNECTING || socket.readyState === WebSocket.OPEN) {
+        socket.close(1000, 'Health check');
+      }
+      resolve({ ...outcome, lastChecked: new Date().toISOString(), version: null });
+    };
+
+    const timer = window.setTimeout(() => {
+      finish({ state: 'down', latencyMs: null, error: { key: 'errors.connectionTimedOut' } });
+    }, SOCKET_PROBE_TIMEOUT_MS);
+
+    try {
+      socket = new WebSocket(url);
+    } catch (err) {
+      window.clearTimeout(timer);
+      resolve({
+        state: 'down',
+        lastChecked: new Date().toISOString(),
+        latencyMs: null,
+        version: null,
+        error: { key: 'errors.invalidStreamingUrl' }
+      });
+      return;
+    }
+
+    socket.onopen = () => finish({ state: 'healthy', latencyMs: Math.round(performance.now() - started), error: null });
+    socket.onerror = () => finish({ state: 'down', latencyMs: null, error: { key: 'errors.connectionFailed' } });
+    socket.onclose = () => finish({ state: 'down', latencyMs: null, error: { key: 'errors.connectionClosed' } });
+  });
+
+// Polls every service separately and keeps a rolling log of outages
+export const useServiceHealth = (options: ServiceHealthOptions) => {
+  const { client, streamingUrl, monitorStreaming } = options;
+
+  const [statuses, setStatuses] = useState<Record<MonitoredService, ServiceStatus>>({
+    translation: initialStatus('translation'),
+    stt: initialStatus('stt'),
+    tts: initialStatus('tts'),
+    streaming: initialStatus('streaming')
+  });
+  const [outages, setOutages] = useState<Outage[]>([]);
+  const statusesRef = useRef(statuses);
+
+  const recordOutcome = useCallback((service: MonitoredService, outcome: CheckOutcome) => {
+    const previous = statusesRef.current[service];
+    const wasDown = previous.state === 'down';
+    const isDown = outcome.state === 'down';
+
+    statusesRef.current = { ...statusesRef.current, [service]: { service, ...outcome } };
+    setStatuses(statusesRef.current);
+
+    if (isDown && !wasDown) {
+      setOutages(prev => [
+        { id: createId(), service, startedAt: outcome.lastChecked ?? new Date().toISOString(), endedAt: null, error: outcome.error },
+        ...prev
+      ].slice(0, MAX_OUTAGES));
+    } else if (!isDown && wasDown) {
+      setOutages(prev => prev.map(outage => (
+        outage.service === service && outage.endedAt === null
+          ? { ...outage, endedAt: outcome.lastChecked }
+          : outage
+      )));
+    }
+  }, []);
+
+  const checkHttpServices = useCallback(async () => {
+    await Promise.all(HTTP_SERVICES.map(service =>
+      checkHttpService(client, service).then(outcome => recordOutcome(service, outcome))
+    ));
+  }, [client, recordOutcome]);
+
+  const checkStreaming = useCallback(async () => {
+    if (!monitorStreaming) return;
+    recordOutcome('streaming', await probeSocket(streamingUrl));
+  }, [streamingUrl, monitorStreaming, recordOutcome]);
+
+  const checkServiceHealth = useCallback(async () => {
+    await Promise.all([checkHttpServices(), checkStreaming()]);
+  }, [checkHttpServices, checkStreaming]);
+
+  const markOffline = useCallback(() => {
+    const lastChecked = new Date().toISOString();
+    (Object.keys(statusesRef.current) as MonitoredService[]).forEach((service) => {
+      if (service === 'streaming' && !monitorStreaming) return;
+      recordOutcome(service, { state: 'down', lastChecked, latencyMs: null, version: null, error: { key: 'errors.offline' } });
+    });
+  }, [monitorStreaming, recordOutcome]);
+
+  useEffect(() => {
+    checkServiceHealth();
+
+    const healthCheckInterval = setInterval(checkHttpServices, HEALTH_CHECK_INTERVAL_MS);
+    const streamingCheckInterval = setInterval(checkStreaming, STREAMING_CHECK_INTERVAL_MS);
+
+    // React to connectivity changes without waiting for the next health check
+    const handleOnline = () => checkServiceHealth();
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', markOffline);
+
+    return () => {
+      clearInterval(healthCheckInterval);
+      clearInterval(streamingCheckInterval);
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', markOffline);
+    };
+  }, [checkServiceHealth, checkHttpServices, checkStreaming, markOffline]);
+
+  // Degraded services still answer requests; unknown ones are treated as unavailable until checked
+  const isUp = (status: ServiceStatus) => status.state === 'healthy' || status.state === 'degraded';
+  const availability: Record<MonitoredService, boolean> = {
+    translation: isUp(statuses.translation),
+    stt: isUp(statuses.stt),
+    tts: isUp(statuses.tts),
+    streaming: monitorStreaming && isUp(statuses.streaming)
+  };
+
+  return {
+    statuses,
+    outages,
+    availability,
+    checkServiceHealth
+  };
+};
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Voice } from '../types/api';
+import { SpeechSettings, VoicePreferences } from '../types/tts';
+
+// Voice choices outlive the session, unlike the glossary selection
+const VOICE_PREFERENCES_KEY = 'creole-translator.voicePreferences';
+
+export const DEFAULT_VOICE = 'default';
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  speed: 1.0,
+  pitch: 1.0,
+  volume: 1.0
+};
+
+const loadPreferences = (): VoicePreferences => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(VOICE_PREFERENCES_KEY) ?? '{}');
+    const voices = Object.fromEntries(
+      Object.entries(stored.voices ?? {}).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    );
+    const settings = { ...DEFAULT_SPEECH_SETTINGS };
+    (Object.keys(settings) as (keyof SpeechSettings)[]).forEach(name => {
+      if (typeof stored.settings?.[name] === 'number') settings[name] = stored.settings[name];
+    });
+    return { voices, settings };
+  } catch {
+    return { voices: {}, settings: { ...DEFAULT_SPEECH_SETTINGS } };
+  }
+};
+
+export const supportsVoice = (voices: Voice[], language: string, voiceId: string) =>
+  voiceId === DEFAULT_VOICE || voices.some(voice => voice.id === voiceId && voice.language === language);
+
+export const useVoicePreferences = () => {
+  const [preferences, setPreferences] = useState<VoicePreferences>(loadPreferences);
+
+  useEffect(() => {
+    localStorage.setItem(VOICE_PREFERENCES_KEY, JSON.stringify(preferences));
+  }, [preferences]);
+
+  const getPreferredVoice = useCallback((language: string): string | undefined => {
+    return preferences.voices[language];
+  }, [preferences.voices]);
+
+  const setPreferredVoice = useCallback((language: string, voiceId: string) => {
+    setPreferences(prev => ({ ...prev, voices: { ...prev.voices, [language]: voiceId } }));
+  }, []);
+
+  const updateSpeechSettings = useCallback((changes: Partial<SpeechSettings>) => {
+    setPreferences(prev => ({ ...prev, settings: { ...prev.settings, ...changes } }));
+  }, []);
+
+  const resetSpeechSettings = useCallback(() => {
+    setPreferences(prev => ({ ...prev, settings: { ...DEFAULT_SPEECH_SETTINGS } }));
+  }, []);
+
+  return {
+    speechSettings: preferences.settings,
+    getPreferredVoice,
+    setPreferredVoice,
+    updateSpeechSettings,
+    resetSpeechSettings
+  };
+};
@@ -1,18 +1,68 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { WebSocketMessage, WebSocketResponse } from '../types/api';
+import {
+  StreamConfig,
+  WebSocketMessage,
+  WebSocketResponse,
+  WebSocketResponseOf,
+  WebSocketResponseType
+} from '../types/api';
+import { LocalizedMessage } from '../types/i18n';
+
+export type WebSocketListener<T extends WebSocketResponseType> = (message: WebSocketResponseOf<T>) => void;
+
+type ResponseHandler = (message: WebSocketResponse) => void;
+
+const RESPONSE_TYPES: WebSocketResponseType[] = ['connected', 'partial_transcript', 'final_transcript', 'error'];
+
+const parseResponse = (raw: string): WebSocketResponse => {
+  const message = JSON.parse(raw);
+  if (
+    !message
+    || !RESPONSE_TYPES.includes(message.type)
+    || typeof message.data !== 'object'
+    || message.data === null
+  ) {
+    throw new Error(`Unexpected WebSocket message: ${raw}`);
+  }
+  return message as WebSocketResponse;
+};
+
+const isResponseOf = <T extends WebSocketResponseType>(
+  message: WebSocketResponse,
+  type: T
+): message is WebSocketResponseOf<T> => message.type === type;
 
 export const useWebSocket = (url: string) => {
-  const [socket, setSocket] = useState<WebSocket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
-  const [lastMessage, setLastMessage] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<LocalizedMessage | null>(null);
   
+  // Kept in a ref so the callbacks below keep their identity while the socket changes
+  const socketRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<number | null>(null);
   const reconnectAttemptsRef = useRef(0);
   const maxReconnectAttempts = 5;
+  const listenersRef = useRef(new Map<WebSocketResponseType, Set<ResponseHandler>>());
+
+  const subscribe = useCallback(<T extends WebSocketResponseType>(
+    type: T,
+    listener: WebSocketListener<T>
+  ) => {
+    const listeners = listenersRef.current.get(type) ?? new Set<ResponseHandler>();
+    // Narrowed here so each listener only ever sees messages of the type it subscribed to
+    const handler: ResponseHandler = (message) => {
+      if (isResponseOf(message, type)) listener(message);
+    };
+    listeners.add(handler);
+    listenersRef.current.set(type, listeners);
+
+    return () => {
+      listeners.delete(handler);
+    };
+  }, []);
 
   const connect = useCallback(() => {
-    if (socket?.readyState === WebSocket.OPEN) {
+    const current = socketRef.current;
+    if (current?.readyState === WebSocket.OPEN || current?.readyState === WebSocket.CONNECTING) {
       return; // Already connected
     }
 
@@ -27,23 +77,36 @@ export const useWebSocket = (url: string) => {
       };
 
       ws.onmessage = (event) => {
+        let message: WebSocketResponse;
         try {
-          const message: WebSocketResponse = JSON.parse(event.data);
-          setLastMessage(event.data);
-          
-          if (message.type === 'error') {
-            setError(message.data.message || 'WebSocket error');
-          }
+          message = parseResponse(event.data);
         } catch (err) {
           console.error('Failed to parse WebSocket message:', err);
-          setError('Failed to parse server message');
+          setError({ key: 'errors.socketParse' });
+          return;
         }
+
+        if (message.type === 'error') {
+          setError(message.data.message
+            ? { key: 'errors.socketServer', params: { message: message.data.message } }
+            : { key: 'errors.socketServerUnknown' });
+        }
+
+        listenersRef.current.get(message.type)?.forEach((listener) => {
+          try {
+            listener(message);
+          } catch (err) {
+            console.error('WebSocket listener failed:', err);
+          }
+        });
       };
 
       ws.onclose = (event) => {
         console.log('WebSocket disconnected:', event.code, event.reason);
+        // A socket replaced by a newer one must not clear or reconnect it
+        if (socketRef.current !== ws) return;
         setIsConnected(false);
-        setSocket(null);
+        socketRef.current = null;
         
         // Attempt to reconnect if not a normal closure
         if (event.code !== 1000 && reconnectAttemptsRef.current < maxReconnectAttempts) {
@@ -57,15 +120,15 @@ export const useWebSocket = (url: string) => {
 
       ws.onerror = (event) => {
         console.error('WebSocket error:', event);
-        setError('WebSocket connection error');
+        setError({ key: 'errors.socketConnection' });
       };
 
-      setSocket(ws);
+      socketRef.current = ws;
     } catch (err) {
       console.error('Failed to create WebSocket:', err);
-      setError('Failed to create WebSocket connection');
+      setError({ key: 'errors.socketCreate' });
     }
-  }, [url, socket]);
+  }, [url]);
 
   const disconnect = useCallback(() => {
     if (reconnectTimeoutRef.current) {
@@ -73,28 +136,28 @@ export const useWebSocket = (url: string) => {
       reconnectTimeoutRef.current = null;
     }
     
-    if (socket) {
-      socket.close(1000, 'Manual disconnect');
-    }
+    const socket = socketRef.current;
+    socketRef.current = null;
+    socket?.close(1000, 'Manual disconnect');
     
-    setSocket(null);
     setIsConnected(false);
     reconnectAttemptsRef.current = 0;
-  }, [socket]);
+  }, []);
 
   const sendMessage = useCallback((message: WebSocketMessage) => {
+    const socket = socketRef.current;
     if (socket?.readyState === WebSocket.OPEN) {
       try {
         socket.send(JSON.stringify(message));
       } catch (err) {
         console.error('Failed to send WebSocket message:', err);
-        setError('Failed to send message');
+        setError({ key: 'errors.socketSend' });
       }
     } else {
       console.warn('WebSocket not connected');
-      setError('WebSocket not connected');
+      setError({ key: 'errors.socketNotConnected' });
     }
-  }, [socket]);
+  }, []);
 
   const sendAudioChunk = useCallback((base64Audio: string) => {
     sendMessage({
@@ -103,7 +166,7 @@ export const useWebSocket = (url: string) => {
     });
   }, [sendMessage]);
 
-  const sendConfig = useCallback((config: any) => {
+  const sendConfig = useCallback((config: StreamConfig) => {
     sendMessage({
       type: 'config',
       data: JSON.stringify(config)
@@ -116,22 +179,29 @@ export const useWebSocket = (url: string) => {
     });
   }, [sendMessage]);
 
-  // Cleanup on unmount
+  // Cleanup on unmount only; the callbacks above are stable, so this never runs on reconnects
   useEffect(() => {
     return () => {
-      disconnect();
+      if (reconnectTimeoutRef.current) {
+        window.clearTimeout(reconnectTimeoutRef.current);
+      }
+      const socket = socketRef.current;
+      socketRef.current = null;
+      socket?.close(1000, 'Manual disconnect');
     };
-  }, [disconnect]);
+  }, []);
 
   return {
     // Connection state
     isConnected,
     error,
-    lastMessage,
     
     // Connection management
     connect,
     disconnect,
+
+    // Message subscription
+    subscribe,
     
     // Message sending
     sendMessage,
@@ -0,0 +1,63 @@
+import { ReactNode, useCallback, useEffect, useMemo, useState } from 'react';
+import { I18nContext, I18nContextValue } from '../hooks/useI18n';
+import { UiLanguage } from '../types/i18n';
+import { CATALOGS, isUiLanguage, SOURCE_LANGUAGE } from './catalogs';
+import { checkCatalogs } from './check';
+import { formatMessage } from './format';
+import { MessageKey } from './messages/en';
+
+const UI_LANGUAGE_KEY = 'creole-translator.uiLanguage';
+
+if (import.meta.env.DEV) {
+  const issues = checkCatalogs();
+  if (issues.length > 0) {
+    console.warn('Message catalog issues:', issues);
+  }
+}
+
+// Stored choice first, then the browser's preferred languages
+const initialUiLanguage = (): UiLanguage => {
+  const stored = localStorage.getItem(UI_LANGUAGE_KEY);
+  if (isUiLanguage(stored)) return stored;
+
+  const preferred = navigator.languages
+    .map(tag => tag.split('-')[0].toLowerCase())
+    .find(isUiLanguage);
+  return preferred ?? SOURCE_LANGUAGE;
+};
+
+interface I18nProviderProps {
+  children: ReactNode;
+}
+
+function I18nProvider({ children }: I18nProviderProps) {
+  const [uiLanguage, setUiLanguageState] = useState<UiLanguage>(initialUiLanguage);
+
+  useEffect(() => {
+    document.documentElement.lang = uiLanguage;
+  }, [uiLanguage]);
+
+  const setUiLanguage = useCallback((language: UiLanguage) => {
+    localStorage.setItem(UI_LANGUAGE_KEY, language);
+    setUiLanguageState(language);
+  }, []);
+
+  const value = useMemo<I18nContextValue>(() => {
+    const catalog = CATALOGS[uiLanguage];
+    const source = CATALOGS[SOURCE_LANGUAGE];
+
+    return {
+      uiLanguage,
+      setUiLanguage,
+      // Falls back to the source text rather than showing a raw key
+      t: (key: MessageKey, params) => {
+        const message = catalog[key] ?? source[key];
+        return message === undefined ? key : formatMessage(uiLanguage, message, params);
+      }
+    };
+  }, [uiLanguage, setUiLanguage]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export default I18nProvider;
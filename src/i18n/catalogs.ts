@@ -0,0 +1,18 @@
+import { UiLanguage } from '../types/i18n';
+import { en, Messages } from './messages/en';
+import { fr } from './messages/fr';
+import { ht } from './messages/ht';
+
+export const SOURCE_LANGUAGE: UiLanguage = 'en';
+
+export const CATALOGS: Record<UiLanguage, Messages> = { ht, fr, en };
+
+// Labels are shown in their own language so people can find theirs
+export const UI_LANGUAGES: { code: UiLanguage; label: string }[] = [
+  { code: 'ht', label: 'Kreyòl' },
+  { code: 'fr', label: 'Français' },
+  { code: 'en', label: 'English' }
+];
+
+export const isUiLanguage = (value: unknown): value is UiLanguage =>
+  typeof value === 'string' && value in CATALOGS;
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { checkCatalogs } from './check';
+
+afterEach(() => {
+  vi.doUnmock('./catalogs');
+  vi.resetModules();
+});
+
+// Runs the check in a fresh module graph that sees these catalogs instead of the real ones
+const checkWith = async (catalogs: Record<string, Record<string, unknown>>) => {
+  vi.resetModules();
+  vi.doMock('./catalogs', () => ({ SOURCE_LANGUAGE: 'en', CATALOGS: catalogs }));
+  const { checkCatalogs: check } = await import('./check');
+  return check();
+};
+
+describe('checkCatalogs', () => {
+  it('finds no issues in the shipped catalogs', () => {
+    expect(checkCatalogs()).toEqual([]);
+  });
+
+  it('reports missing, empty, unknown and mismatched messages', async () => {
+    const issues = await checkWith({
+      en: {
+        greeting: 'Hello {name}',
+        files: { one: '{count} file', other: '{count} files' },
+        close: 'Close'
+      },
+      fr: {
+        greeting: 'Bonjour {nom}',
+        files: { one: '{count} fichier', other: '{count} fichiers' },
+        extra: 'En trop'
+      },
+      ht: {
+        greeting: 'Bonjou {name}',
+        files: { one: ' ', other: '{count} fichye' },
+        close: 'Fèmen'
+      }
+    });
+
+    expect(issues).toEqual([
+      { language: 'fr', key: 'greeting', problem: 'placeholders' },
+      { language: 'fr', key: 'close', problem: 'missing' },
+      { language: 'fr', key: 'extra', problem: 'unknown' },
+      { language: 'ht', key: 'files', problem: 'empty' }
+    ]);
+  });
+
+  it('accepts plural forms that use the placeholders in any form', async () => {
+    const issues = await checkWith({
+      en: { files: { one: 'One file', other: '{count} files' } },
+      ht: { files: { other: '{count} fichye' } }
+    });
+
+    expect(issues).toEqual([]);
+  });
+});
@@ -0,0 +1,46 @@
+import { Message, UiLanguage } from '../types/i18n';
+import { CATALOGS, SOURCE_LANGUAGE } from './catalogs';
+import { PLACEHOLDER_PATTERN } from './format';
+
+export interface CatalogIssue {
+  language: UiLanguage;
+  key: string;
+  problem: 'missing' | 'empty' | 'unknown' | 'placeholders';
+}
+
+const forms = (message: Message): string[] => (typeof message === 'string' ? [message] : Object.values(message));
+
+const placeholders = (message: Message): string =>
+  Array.from(new Set(forms(message).flatMap(form => Array.from(form.matchAll(PLACEHOLDER_PATTERN), m => m[1]))))
+    .sort()
+    .join(',');
+
+// Compares every catalog with the source catalog. The Messages type already rejects missing keys at
+// build time; this also catches empty strings and placeholders that don't match the source text
+export const checkCatalogs = (): CatalogIssue[] => {
+  const source = CATALOGS[SOURCE_LANGUAGE] as Record<string, Message>;
+  const issues: CatalogIssue[] = [];
+
+  (Object.keys(CATALOGS) as UiLanguage[])
+    .filter(language => language !== SOURCE_LANGUAGE)
+    .forEach((language) => {
+      const catalog = CATALOGS[language] as Record<string, Message | undefined>;
+
+      Object.keys(source).forEach((key) => {
+        const message = catalog[key];
+        if (message === undefined) {
+          issues.push({ language, key, problem: 'missing' });
+        } else if (forms(message).some(form => !form.trim())) {
+          issues.push({ language, key, problem: 'empty' });
+        } else if (placeholders(message) !== placeholders(source[key])) {
+          issues.push({ language, key, problem: 'placeholders' });
+        }
+      });
+
+      Object.keys(catalog)
+        .filter(key => !(key in source))
+        .forEach(key => issues.push({ language, key, problem: 'unknown' }));
+    });
+
+  return issues;
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { displayLanguageName, formatMessage } from './format';
+
+const FILES = { one: '{count} file', other: '{count} files' };
+
+describe('formatMessage', () => {
+  it('fills placeholders and leaves unknown ones visible', () => {
+    expect(formatMessage('en', 'Hello {name}, {missing}', { name: 'Marie' })).toBe('Hello Marie, {missing}');
+  });
+
+  it('picks the plural form with the rules of the interface language', () => {
+    expect(formatMessage('en', FILES, { count: 1 })).toBe('1 file');
+    expect(formatMessage('en', FILES, { count: 0 })).toBe('0 files');
+    // French treats zero as singular
+    expect(formatMessage('fr', { one: '{count} fichier', other: '{count} fichiers' }, { count: 0 })).toBe('0 fichier');
+  });
+
+  it('falls back to the other form when the language has no matching one', () => {
+    expect(formatMessage('en', { other: '{count} fichye' }, { count: 1 })).toBe('1 fichye');
+  });
+
+  it('formats numbers for the interface language', () => {
+    expect(formatMessage('en', FILES, { count: 1234 })).toBe('1,234 files');
+    // French groups thousands with a narrow no-break space
+    expect(formatMessage('fr', '{value} %', { value: 1234.5 })).toBe('1\u202f234,5 %');
+  });
+
+  it('picks the form for zero and leaves {count} visible without a count', () => {
+    expect(formatMessage('en', FILES)).toBe('{count} files');
+  });
+});
+
+describe('displayLanguageName', () => {
+  it('prefers the native name and falls back to the English one', () => {
+    expect(displayLanguageName({ code: 'ht', name: 'Haitian Creole', native_name: 'Kreyòl ayisyen' })).toBe('Kreyòl ayisyen');
+    expect(displayLanguageName({ code: 'xx', name: 'Example', native_name: '' })).toBe('Example');
+  });
+});
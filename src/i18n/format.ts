@@ -0,0 +1,38 @@
+import { Language } from '../types/api';
+import { Message, MessageParams, UiLanguage } from '../types/i18n';
+
+const pluralRules = new Map<UiLanguage, Intl.PluralRules>();
+const numberFormats = new Map<UiLanguage, Intl.NumberFormat>();
+
+const cached = <T>(cache: Map<UiLanguage, T>, language: UiLanguage, create: () => T): T => {
+  let value = cache.get(language);
+  if (!value) {
+    value = create();
+    cache.set(language, value);
+  }
+  return value;
+};
+
+export const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+// Picks the plural form for params.count, then fills {placeholders}; unknown placeholders are left visible
+export const formatMessage = (language: UiLanguage, message: Message, params: MessageParams = {}): string => {
+  let template: string;
+  if (typeof message === 'string') {
+    template = message;
+  } else {
+    const rules = cached(pluralRules, language, () => new Intl.PluralRules(language));
+    template = message[rules.select(Number(params.count ?? 0))] ?? message.other;
+  }
+
+  return template.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number'
+      ? cached(numberFormats, language, () => new Intl.NumberFormat(language)).format(value)
+      : value;
+  });
+};
+
+// Languages are listed by their own name, which is how speakers look for them
+export const displayLanguageName = (language: Language): string => language.native_name || language.name;
@@ -0,0 +1,350 @@
+import { Message } from '../../types/i18n';
+
+// The source catalog: every key used in the UI is defined here first
+export const en = {
+  'app.title': 'Creole Translation Platform',
+  'app.subtitle': 'Professional translation, speech-to-text, and text-to-speech services',
+  'app.demoMode': 'Demo mode',
+  'app.languageCount': { one: '{count} Language', other: '{count} Languages' },
+  'app.voiceCount': { one: '{count} Voice', other: '{count} Voices' },
+  'app.uiLanguage': 'Interface language',
+
+  'tabs.translate': 'Text Translation',
+  'tabs.speech': 'Speech to Text',
+  'tabs.tts': 'Text to Speech',
+  'tabs.conversation': 'Conversation',
+  'tabs.captions': 'Live Captions',
+  'tabs.history': 'History',
+  'tabs.phrasebook': 'Phrasebook',
+  'tabs.multiTarget': 'Multi-Target',
+  'tabs.subtitles': 'Subtitles',
+  'tabs.timedTranscript': 'Timed Transcript',
+  'tabs.glossary': 'Glossary',
+
+  'common.from': 'From',
+  'common.to': 'To',
+  'common.autoDetect': 'Auto-detect',
+  'common.language': 'Language',
+  'common.confident': '{percent}% confident',
+  'common.name': 'Name',
+  'common.default': 'Default',
+  'common.original': 'Original',
+  'common.translation': 'Translation',
+  'common.format': 'Format',
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.clear': 'Clear',
+  'common.delete': 'Delete',
+  'common.retry': 'Retry',
+  'common.copy': 'Copy',
+  'common.download': 'Download',
+  'common.import': 'Import',
+  'common.export': 'Export',
+  'common.playAudio': 'Play audio',
+  'common.translationUnavailable': 'Translation is currently unavailable.',
+  'common.sttUnavailable': 'Speech recognition is currently unavailable.',
+
+  'translate.placeholder': 'Enter text to translate...',
+  'translate.translate': 'Translate',
+  'translate.translating': 'Translating...',
+  'translate.live': 'Live',
+  'translate.result': 'Translation Result',
+  'translate.glossariesActive': { one: '{count} glossary active', other: '{count} glossaries active' },
+  'translate.lowConfidence': 'Low confidence: review this translation and correct it if needed.',
+  'translate.playAudio': 'Play Audio',
+
+  'speech.audioInput': 'Audio Input',
+  'speech.spokenLanguage': 'Spoken language',
+  'speech.startRecording': 'Start Recording',
+  'speech.stopRecording': 'Stop Recording',
+  'speech.uploadFile': 'Upload File',
+  'speech.streamingUnavailable': 'Live transcription is unavailable. Recordings are transcribed when you stop.',
+  'speech.recording': 'Recording... Speak clearly into your microphone',
+  'speech.realtimeActive': 'Real-time transcription active',
+  'speech.result': 'Transcription Result',
+  'speech.useForTranslation': 'Use for Translation',
+  'speech.microphoneRecording': 'Microphone recording',
+
+  'tts.settings': 'Text-to-Speech Settings',
+  'tts.voice': 'Voice',
+  'tts.delivery': 'Delivery',
+  'tts.speed': 'Speed',
+  'tts.pitch': 'Pitch',
+  'tts.volume': 'Volume',
+  'tts.reset': 'Reset',
+  'tts.placeholder': 'Enter text to synthesize...',
+  'tts.generate': 'Generate Speech',
+  'tts.generating': 'Generating...',
+  'tts.unavailable': 'The text-to-speech service is unavailable.',
+
+  'a11y.swapLanguages': 'Swap languages',
+  'a11y.copyInput': 'Copy text',
+  'a11y.copyResult': 'Copy translation',
+  'a11y.savePhrase': 'Save to phrasebook',
+  'a11y.inputText': 'Text to translate',
+  'a11y.resultText': 'Translation',
+  'a11y.ttsText': 'Text to read aloud',
+  'a11y.translationReady': 'Translation: {text}',
+  'a11y.transcriptionReady': 'Transcription: {text}',
+  'a11y.recordingStarted': 'Recording started',
+  'a11y.recordingStopped': 'Recording stopped',
+  'a11y.copied': 'Copied to clipboard',
+
+  'shortcuts.title': 'Keyboard shortcuts',
+  'shortcuts.open': 'Show keyboard shortcuts',
+  'shortcuts.translate': 'Translate',
+  'shortcuts.swap': 'Swap languages',
+  'shortcuts.record': 'Start or stop recording',
+  'shortcuts.play': 'Play the translation',
+  'shortcuts.help': 'Show this list',
+  'shortcuts.close': 'Close',
+
+  'share.copyLink': 'Copy a link to this translation',
+  'share.copied': 'Link copied',
+  'share.copiedWithoutText': 'Link copied without the text, which is too long to include',
+
+  'conversation.speakerA': 'Speaker A',
+  'conversation.speakerB': 'Speaker B',
+  'conversation.speak': '{name} Speak',
+  'conversation.stopAndTranslate': 'Stop & Translate',
+  'conversation.empty': 'Take turns pressing your speak button. Each turn is translated and spoken to the other party.',
+  'conversation.transcribing': 'Transcribing...',
+  'conversation.translating': 'Translating...',
+  'conversation.speaking': 'Speaking...',
+  'conversation.done': 'Done',
+  'conversation.failed': 'Failed',
+
+  'subtitles.upload': 'Upload Subtitles',
+  'subtitles.fileSummary': { one: '{file} ({count} cue, {format})', other: '{file} ({count} cues, {format})' },
+  'subtitles.translateAll': 'Translate All',
+  'subtitles.translateRemaining': 'Translate Remaining ({count})',
+  'subtitles.downloadAnyway': 'Download anyway',
+  'subtitles.untranslatedWarning': { one: '{count} cue has no translation and will keep the original text.', other: '{count} cues have no translation and will keep the original text.' },
+  'subtitles.timing': 'Timing',
+  'subtitles.translationFailed': 'Translation failed',
+  'subtitles.cueTranslation': 'Translation of cue {number}',
+  'subtitles.translateCue': 'Translate this cue',
+
+  'transcript.spokenLanguage': 'Spoken language',
+  'transcript.alsoTranslate': 'Also translate to',
+  'transcript.target': 'Target',
+  'transcript.upload': 'Upload Audio or Video',
+  'transcript.transcribing': 'Transcribing {file}...',
+  'transcript.translating': 'Translating segments...',
+  'transcript.summary': { one: '{file}: {count} segment', other: '{file}: {count} segments' },
+  'transcript.track': 'Track',
+  'transcript.exportAnyway': 'Export anyway',
+  'transcript.untranslatedWarning': { one: '{count} segment has no translation and will keep the original text.', other: '{count} segments have no translation and will keep the original text.' },
+  'transcript.start': 'Start',
+  'transcript.end': 'End',
+  'transcript.text': 'Text',
+  'transcript.segmentStart': 'Segment {number} start',
+  'transcript.segmentEnd': 'Segment {number} end',
+  'transcript.segmentText': 'Segment {number} text',
+  'transcript.segmentTranslation': 'Segment {number} translation',
+  'transcript.removeSegment': 'Remove segment',
+
+  'multi.placeholder': 'Enter text to translate into every selected language...',
+  'multi.translateTo': { one: 'Translate to {count} language', other: 'Translate to {count} languages' },
+  'multi.noResult': 'No translation returned',
+
+  'glossary.title': 'Glossaries',
+  'glossary.termTooltip': 'Glossary: {source} → {target}',
+  'glossary.notFollowed': 'Glossary not followed',
+  'glossary.violation': '"{source}" should be translated as "{target}" ({glossary})',
+  'glossary.newGlossary': 'New glossary',
+  'glossary.untitled': 'Untitled glossary',
+  'glossary.create': 'Create',
+  'glossary.import': 'Import CSV/TBX',
+  'glossary.imported': { one: 'Imported {count} term from {file}', other: 'Imported {count} terms from {file}' },
+  'glossary.empty': 'No glossaries yet. Create one or import a CSV (source,target,note) or TBX file.',
+  'glossary.useThisSession': 'Use for translations this session',
+  'glossary.termCount': { one: '{pair} · {count} term', other: '{pair} · {count} terms' },
+  'glossary.delete': 'Delete glossary',
+  'glossary.sourceTerm': 'Source term',
+  'glossary.requiredTranslation': 'Required translation',
+  'glossary.matchCase': 'Match case',
+  'glossary.requiredTranslationFor': 'Required translation for {term}',
+  'glossary.matchCaseFor': 'Match case for {term}',
+  'glossary.removeTerm': 'Remove {term}',
+  'glossary.newSourceTerm': 'New source term',
+  'glossary.newRequiredTranslation': 'New required translation',
+  'glossary.addTerm': 'Add term',
+  'glossary.selectPrompt': 'Select a glossary to edit its terms.',
+
+  'history.search': 'Search history...',
+  'history.languages': 'Languages',
+  'history.allLanguages': 'All',
+  'history.empty': 'No translations or transcriptions yet.',
+  'history.noMatches': 'No entries match your search.',
+  'history.translateAgain': 'Translate again',
+  'history.useForTranslation': 'Use for translation',
+  'history.kind.translation': 'translation',
+  'history.kind.transcription': 'transcription',
+
+  'phrasebook.all': 'All',
+  'phrasebook.defaultCategory': 'General',
+  'phrasebook.imported': { one: 'Imported {count} phrase', other: 'Imported {count} phrases' },
+  'phrasebook.empty': 'Star a translation to save it to your phrasebook.',
+  'phrasebook.play': 'Play',
+  'phrasebook.saveTitle': 'Save to Phrasebook',
+  'phrasebook.category': 'Category',
+  'phrasebook.categoryPlaceholder': 'e.g. Triage, Pharmacy',
+
+  'voices.gender': 'Gender',
+  'voices.age': 'Age',
+  'voices.any': 'Any',
+  'voices.search': 'Search descriptions',
+  'voices.defaultDescription': 'Let the service pick a voice for this language',
+  'voices.preview': 'Preview voice',
+  'voices.previewNamed': 'Preview {name}',
+  'voices.noMatches': 'No voices match these filters.',
+
+  'audio.play': 'Play',
+  'audio.pause': 'Pause',
+  'audio.replay': 'Replay',
+  'audio.position': 'Playback position',
+  'audio.download': 'Download audio',
+
+  'reader.previous': 'Previous sentence',
+  'reader.next': 'Next sentence',
+  'reader.pause': 'Pause',
+  'reader.resume': 'Resume',
+  'reader.stop': 'Stop',
+  'reader.position': 'Sentence {current} of {total}',
+  'reader.positionLoading': 'Sentence {current} of {total} (synthesizing...)',
+  'reader.count': { one: '{count} sentence', other: '{count} sentences' },
+
+  'queue.translation': 'Translation {source} → {target}',
+  'queue.transcription': 'Transcription ({language})',
+  'queue.retryAll': 'Retry all',
+  'queue.queued': { one: '{count} queued request', other: '{count} queued requests' },
+  'queue.offline': { one: 'Offline: {count} request will run when services are back', other: 'Offline: {count} requests will run when services are back' },
+  'queue.status.pending': 'pending',
+  'queue.status.running': 'running',
+  'queue.status.failed': 'failed',
+  'queue.remove': 'Remove',
+
+  'health.service.translation': 'Translation',
+  'health.service.stt': 'Speech to Text',
+  'health.service.tts': 'Text to Speech',
+  'health.service.streaming': 'Live Streaming',
+  'health.state.unknown': 'Checking',
+  'health.state.healthy': 'Healthy',
+  'health.state.degraded': 'Degraded',
+  'health.state.down': 'Down',
+  'health.chip': '{service} · {detail}',
+  'health.latencyMs': '{latency} ms',
+  'health.seconds': '{seconds}s',
+  'health.minutes': '{minutes}m {seconds}s',
+  'health.title': 'Service health',
+  'health.service': 'Service',
+  'health.status': 'Status',
+  'health.latency': 'Latency',
+  'health.version': 'Version',
+  'health.lastCheck': 'Last check',
+  'health.recentOutages': 'Recent outages',
+  'health.noOutages': 'No outages recorded this session.',
+  'health.outageResolved': '{service}: resolved ({duration})',
+  'health.outageOngoing': '{service}: ongoing ({duration})',
+  'health.checkNow': 'Check now',
+  'health.close': 'Close',
+
+  'detection.heuristic': 'Estimated locally; detection service unavailable',
+  'detection.service': 'Detected by the service',
+  'detection.detected': 'Detected: {language} ({percent}%)',
+  'detection.override': 'Not right?',
+
+  'captions.spokenLanguage': 'Spoken language',
+  'captions.captionLanguages': 'Caption languages',
+  'captions.start': 'Start Captions',
+  'captions.stop': 'Stop Captions',
+  'captions.showOriginal': 'Show original',
+  'captions.textSize': 'Text size',
+  'captions.speakIn': 'Speak translations in',
+  'captions.voice': 'Voice',
+  'captions.streamingUnavailable': 'The streaming service is unavailable, so live captions can\'t start.',
+  'captions.fullscreen': 'Fullscreen',
+  'captions.exitFullscreen': 'Exit fullscreen',
+  'captions.listening': 'Listening...',
+  'captions.idle': 'Start captions to show live translations here.',
+  'captions.sessionSummary': { one: 'Session of {date}: {count} caption', other: 'Session of {date}: {count} captions' },
+  'captions.track': 'Track',
+  'captions.saved': 'Saved',
+  'captions.saveToHistory': 'Save to History',
+  'config.title': 'Configuration error',
+  'config.loadFailed': 'The app configuration could not be loaded.',
+  'config.hint': 'The app reads its service URLs from config.json next to index.html. Fix the file on the server and reload.',
+  'config.reload': 'Reload',
+
+  'review.machine': 'Machine translation',
+  'review.yours': 'Your correction',
+  'review.save': 'Save correction',
+  'review.saved': 'Correction saved',
+  'review.revert': 'Revert',
+  'review.savedCount': { one: '{count} correction saved on this device', other: '{count} corrections saved on this device' },
+  'review.resend': 'Resend {count}',
+
+  'errors.translationFailed': 'Translation failed. Please try again.',
+  'errors.transcriptionFailed': 'Transcription failed. Please try again.',
+  'errors.microphone': 'Could not access microphone. Please check permissions.',
+  'errors.recordingFailed': 'Recording failed. Please try again.',
+  'errors.synthesisFailed': 'Speech synthesis failed. Please try again.',
+  'errors.shareFailed': 'Could not copy the link. Please try again.',
+  'errors.network': 'Could not reach the server. Check your connection and try again.',
+  'errors.timeout': 'The server took too long to respond. Please try again.',
+  'errors.unavailable.translation': 'The translation service is temporarily unavailable. Please try again later.',
+  'errors.unavailable.stt': 'The speech recognition service is temporarily unavailable. Please try again later.',
+  'errors.unavailable.tts': 'The text-to-speech service is temporarily unavailable. Please try again later.',
+  'errors.rejected': 'The request was rejected: {message}',
+  'errors.turnFailed': 'Turn could not be processed. Please try again.',
+  'errors.voicePreview': 'Voice preview failed.',
+  'errors.noSpeech': 'No speech detected',
+  'errors.phrasePlayback': 'Could not play this phrase. Please try again.',
+  'errors.segmentsUntranslated': { one: '{count} segment could not be translated.', other: '{count} segments could not be translated.' },
+  'errors.historyLoad': 'Failed to load history',
+  'errors.historySave': 'Failed to save history',
+  'errors.historyDelete': 'Failed to delete history entry',
+  'errors.historyClear': 'Failed to clear history',
+  'errors.phrasebookLoad': 'Failed to load phrasebook',
+  'errors.phraseSave': 'Failed to save phrase',
+  'errors.phraseUpdate': 'Failed to update phrase',
+  'errors.phraseDelete': 'Failed to delete phrase',
+  'errors.phrasebookInvalidJson': 'Phrasebook file is not valid JSON',
+  'errors.phrasebookUnsupported': 'Unsupported phrasebook file',
+  'errors.phrasebookImport': 'Failed to import phrasebook',
+  'errors.glossaryLoad': 'Failed to load glossaries',
+  'errors.glossarySave': 'Failed to save glossary',
+  'errors.glossaryDelete': 'Failed to delete glossary',
+  'errors.glossaryUnreadable': 'Could not read glossary file. Please use CSV (source,target,note) or TBX.',
+  'errors.glossaryNoTerms': 'No {source} → {target} terms found in {file}',
+  'errors.correctionsLoad': 'Failed to load corrections',
+  'errors.correctionSave': 'Failed to save correction',
+  'errors.correctionDelete': 'Failed to delete correction',
+  'errors.sentencesSkipped': 'Some sentences could not be synthesized and were skipped.',
+  'errors.captionsUntranslated': 'Some captions could not be translated.',
+  'errors.socketConnection': 'WebSocket connection error',
+  'errors.socketCreate': 'Failed to create WebSocket connection',
+  'errors.socketNotConnected': 'WebSocket not connected',
+  'errors.socketSend': 'Failed to send message',
+  'errors.socketParse': 'Failed to parse server message',
+  'errors.socketServer': 'Streaming error: {message}',
+  'errors.socketServerUnknown': 'Streaming error',
+  'errors.healthCheck': 'Health check failed',
+  'errors.reportedStatus': 'Reported status: {status}',
+  'errors.connectionTimedOut': 'Connection timed out',
+  'errors.connectionFailed': 'Connection failed',
+  'errors.connectionClosed': 'Connection closed',
+  'errors.invalidStreamingUrl': 'Invalid streaming URL',
+  'errors.offline': 'Browser is offline',
+  'errors.subtitlesUnreadable': 'Could not read subtitles. Please upload a valid .srt or .vtt file.',
+  'errors.translationCancelled': 'Translation cancelled. Use "Translate Remaining" to continue.',
+  'errors.cuesUntranslated': { one: '{count} cue could not be translated. Retry it individually or translate again.', other: '{count} cues could not be translated. Retry them individually or translate again.' },
+  'errors.targetFailed': 'Translation failed',
+  'errors.allTargetsFailed': 'Translation failed for every language. Please try again.',
+  'errors.synthesisFailedFor': 'Speech synthesis failed for {language}.'
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, Message>;
@@ -0,0 +1,345 @@
+import { Messages } from './en';
+
+export const fr: Messages = {
+  'app.title': 'Plateforme de traduction créole',
+  'app.subtitle': 'Services professionnels de traduction, de transcription et de synthèse vocale',
+  'app.demoMode': 'Mode démo',
+  'app.languageCount': { one: '{count} langue', other: '{count} langues' },
+  'app.voiceCount': { one: '{count} voix', other: '{count} voix' },
+  'app.uiLanguage': 'Langue de l’interface',
+
+  'tabs.translate': 'Traduction de texte',
+  'tabs.speech': 'Parole en texte',
+  'tabs.tts': 'Texte en parole',
+  'tabs.conversation': 'Conversation',
+  'tabs.captions': 'Sous-titres en direct',
+  'tabs.history': 'Historique',
+  'tabs.phrasebook': 'Guide de conversation',
+  'tabs.multiTarget': 'Multi-langues',
+  'tabs.subtitles': 'Sous-titres',
+  'tabs.timedTranscript': 'Transcription horodatée',
+  'tabs.glossary': 'Glossaire',
+
+  'common.from': 'De',
+  'common.to': 'Vers',
+  'common.autoDetect': 'Détection automatique',
+  'common.language': 'Langue',
+  'common.confident': 'Confiance : {percent} %',
+  'common.name': 'Nom',
+  'common.default': 'Par défaut',
+  'common.original': 'Original',
+  'common.translation': 'Traduction',
+  'common.format': 'Format',
+  'common.cancel': 'Annuler',
+  'common.save': 'Enregistrer',
+  'common.clear': 'Effacer',
+  'common.delete': 'Supprimer',
+  'common.retry': 'Réessayer',
+  'common.copy': 'Copier',
+  'common.download': 'Télécharger',
+  'common.import': 'Importer',
+  'common.export': 'Exporter',
+  'common.playAudio': 'Écouter',
+  'common.translationUnavailable': 'La traduction est indisponible pour le moment.',
+  'common.sttUnavailable': 'La reconnaissance vocale est indisponible pour le moment.',
+
+  'translate.placeholder': 'Saisissez le texte à traduire...',
+  'translate.translate': 'Traduire',
+  'translate.translating': 'Traduction...',
+  'translate.live': 'En direct',
+  'translate.result': 'Résultat de la traduction',
+  'translate.glossariesActive': { one: '{count} glossaire actif', other: '{count} glossaires actifs' },
+  'translate.lowConfidence': 'Confiance faible : vérifiez cette traduction et corrigez-la si nécessaire.',
+  'translate.playAudio': 'Écouter',
+
+  'speech.audioInput': 'Entrée audio',
+  'speech.spokenLanguage': 'Langue parlée',
+  'speech.startRecording': 'Démarrer l’enregistrement',
+  'speech.stopRecording': 'Arrêter l’enregistrement',
+  'speech.uploadFile': 'Importer un fichier',
+  'speech.streamingUnavailable': 'La transcription en direct est indisponible. Les enregistrements sont transcrits à l’arrêt.',
+  'speech.recording': 'Enregistrement... Parlez clairement dans le micro',
+  'speech.realtimeActive': 'Transcription en temps réel active',
+  'speech.result': 'Résultat de la transcription',
+  'speech.useForTranslation': 'Utiliser pour la traduction',
+  'speech.microphoneRecording': 'Enregistrement du micro',
+
+  'tts.settings': 'Paramètres de synthèse vocale',
+  'tts.voice': 'Voix',
+  'tts.delivery': 'Diction',
+  'tts.speed': 'Vitesse',
+  'tts.pitch': 'Hauteur',
+  'tts.volume': 'Volume',
+  'tts.reset': 'Réinitialiser',
+  'tts.placeholder': 'Saisissez le texte à synthétiser...',
+  'tts.generate': 'Générer la parole',
+  'tts.generating': 'Génération...',
+  'tts.unavailable': 'Le service de synthèse vocale est indisponible.',
+
+  'a11y.swapLanguages': 'Inverser les langues',
+  'a11y.copyInput': 'Copier le texte',
+  'a11y.copyResult': 'Copier la traduction',
+  'a11y.savePhrase': 'Enregistrer dans le guide de conversation',
+  'a11y.inputText': 'Texte à traduire',
+  'a11y.resultText': 'Traduction',
+  'a11y.ttsText': 'Texte à lire à voix haute',
+  'a11y.translationReady': 'Traduction : {text}',
+  'a11y.transcriptionReady': 'Transcription : {text}',
+  'a11y.recordingStarted': 'Enregistrement démarré',
+  'a11y.recordingStopped': 'Enregistrement arrêté',
+  'a11y.copied': 'Copié dans le presse-papiers',
+
+  'shortcuts.title': 'Raccourcis clavier',
+  'shortcuts.open': 'Afficher les raccourcis clavier',
+  'shortcuts.translate': 'Traduire',
+  'shortcuts.swap': 'Inverser les langues',
+  'shortcuts.record': 'Démarrer ou arrêter l’enregistrement',
+  'shortcuts.play': 'Écouter la traduction',
+  'shortcuts.help': 'Afficher cette liste',
+  'shortcuts.close': 'Fermer',
+
+  'share.copyLink': 'Copier un lien vers cette traduction',
+  'share.copied': 'Lien copié',
+  'share.copiedWithoutText': 'Lien copié sans le texte, trop long pour y figurer',
+
+  'conversation.speakerA': 'Interlocuteur A',
+  'conversation.speakerB': 'Interlocuteur B',
+  'conversation.speak': '{name} parle',
+  'conversation.stopAndTranslate': 'Arrêter et traduire',
+  'conversation.empty': 'Appuyez chacun à votre tour sur votre bouton. Chaque tour est traduit et lu à l’autre personne.',
+  'conversation.transcribing': 'Transcription...',
+  'conversation.translating': 'Traduction...',
+  'conversation.speaking': 'Lecture...',
+  'conversation.done': 'Terminé',
+  'conversation.failed': 'Échec',
+
+  'subtitles.upload': 'Importer des sous-titres',
+  'subtitles.fileSummary': { one: '{file} ({count} sous-titre, {format})', other: '{file} ({count} sous-titres, {format})' },
+  'subtitles.translateAll': 'Tout traduire',
+  'subtitles.translateRemaining': 'Traduire le reste ({count})',
+  'subtitles.downloadAnyway': 'Télécharger quand même',
+  'subtitles.untranslatedWarning': { one: '{count} sous-titre n’est pas traduit et gardera le texte original.', other: '{count} sous-titres ne sont pas traduits et garderont le texte original.' },
+  'subtitles.timing': 'Minutage',
+  'subtitles.translationFailed': 'Échec de la traduction',
+  'subtitles.cueTranslation': 'Traduction du sous-titre {number}',
+  'subtitles.translateCue': 'Traduire ce sous-titre',
+
+  'transcript.spokenLanguage': 'Langue parlée',
+  'transcript.alsoTranslate': 'Traduire aussi en',
+  'transcript.target': 'Langue cible',
+  'transcript.upload': 'Importer un fichier audio ou vidéo',
+  'transcript.transcribing': 'Transcription de {file}...',
+  'transcript.translating': 'Traduction des segments...',
+  'transcript.summary': { one: '{file} : {count} segment', other: '{file} : {count} segments' },
+  'transcript.track': 'Piste',
+  'transcript.exportAnyway': 'Exporter quand même',
+  'transcript.untranslatedWarning': { one: '{count} segment n’est pas traduit et gardera le texte original.', other: '{count} segments ne sont pas traduits et garderont le texte original.' },
+  'transcript.start': 'Début',
+  'transcript.end': 'Fin',
+  'transcript.text': 'Texte',
+  'transcript.segmentStart': 'Début du segment {number}',
+  'transcript.segmentEnd': 'Fin du segment {number}',
+  'transcript.segmentText': 'Texte du segment {number}',
+  'transcript.segmentTranslation': 'Traduction du segment {number}',
+  'transcript.removeSegment': 'Supprimer le segment',
+
+  'multi.placeholder': 'Saisissez le texte à traduire dans chaque langue sélectionnée...',
+  'multi.translateTo': { one: 'Traduire en {count} langue', other: 'Traduire en {count} langues' },
+  'multi.noResult': 'Aucune traduction reçue',
+
+  'glossary.title': 'Glossaires',
+  'glossary.termTooltip': 'Glossaire : {source} → {target}',
+  'glossary.notFollowed': 'Glossaire non respecté',
+  'glossary.violation': '« {source} » devrait être traduit par « {target} » ({glossary})',
+  'glossary.newGlossary': 'Nouveau glossaire',
+  'glossary.untitled': 'Glossaire sans titre',
+  'glossary.create': 'Créer',
+  'glossary.import': 'Importer CSV/TBX',
+  'glossary.imported': { one: '{count} terme importé depuis {file}', other: '{count} termes importés depuis {file}' },
+  'glossary.empty': 'Aucun glossaire pour l’instant. Créez-en un ou importez un fichier CSV (source,cible,note) ou TBX.',
+  'glossary.useThisSession': 'Utiliser pour les traductions de cette session',
+  'glossary.termCount': { one: '{pair} · {count} terme', other: '{pair} · {count} termes' },
+  'glossary.delete': 'Supprimer le glossaire',
+  'glossary.sourceTerm': 'Terme source',
+  'glossary.requiredTranslation': 'Traduction imposée',
+  'glossary.matchCase': 'Respecter la casse',
+  'glossary.requiredTranslationFor': 'Traduction imposée pour {term}',
+  'glossary.matchCaseFor': 'Respecter la casse pour {term}',
+  'glossary.removeTerm': 'Supprimer {term}',
+  'glossary.newSourceTerm': 'Nouveau terme source',
+  'glossary.newRequiredTranslation': 'Nouvelle traduction imposée',
+  'glossary.addTerm': 'Ajouter le terme',
+  'glossary.selectPrompt': 'Sélectionnez un glossaire pour modifier ses termes.',
+
+  'history.search': 'Rechercher dans l’historique...',
+  'history.languages': 'Langues',
+  'history.allLanguages': 'Toutes',
+  'history.empty': 'Aucune traduction ni transcription pour l’instant.',
+  'history.noMatches': 'Aucune entrée ne correspond à votre recherche.',
+  'history.translateAgain': 'Traduire à nouveau',
+  'history.useForTranslation': 'Utiliser pour la traduction',
+  'history.kind.translation': 'traduction',
+  'history.kind.transcription': 'transcription',
+
+  'phrasebook.all': 'Toutes',
+  'phrasebook.defaultCategory': 'Général',
+  'phrasebook.imported': { one: '{count} phrase importée', other: '{count} phrases importées' },
+  'phrasebook.empty': 'Ajoutez une traduction aux favoris pour l’enregistrer dans votre guide de conversation.',
+  'phrasebook.play': 'Écouter',
+  'phrasebook.saveTitle': 'Enregistrer dans le carnet de phrases',
+  'phrasebook.category': 'Catégorie',
+  'phrasebook.categoryPlaceholder': 'ex. Triage, Pharmacie',
+
+  'voices.gender': 'Genre',
+  'voices.age': 'Âge',
+  'voices.any': 'Tous',
+  'voices.search': 'Rechercher dans les descriptions',
+  'voices.defaultDescription': 'Laisser le service choisir une voix pour cette langue',
+  'voices.preview': 'Écouter un extrait',
+  'voices.previewNamed': 'Écouter {name}',
+  'voices.noMatches': 'Aucune voix ne correspond à ces filtres.',
+
+  'audio.play': 'Lecture',
+  'audio.pause': 'Pause',
+  'audio.replay': 'Réécouter',
+  'audio.position': 'Position de lecture',
+  'audio.download': 'Télécharger l’audio',
+
+  'reader.previous': 'Phrase précédente',
+  'reader.next': 'Phrase suivante',
+  'reader.pause': 'Pause',
+  'reader.resume': 'Reprendre',
+  'reader.stop': 'Arrêter',
+  'reader.position': 'Phrase {current} sur {total}',
+  'reader.positionLoading': 'Phrase {current} sur {total} (synthèse...)',
+  'reader.count': { one: '{count} phrase', other: '{count} phrases' },
+
+  'queue.translation': 'Traduction {source} → {target}',
+  'queue.transcription': 'Transcription ({language})',
+  'queue.retryAll': 'Tout réessayer',
+  'queue.queued': { one: '{count} demande en attente', other: '{count} demandes en attente' },
+  'queue.offline': { one: 'Hors ligne : {count} demande sera envoyée au retour des services', other: 'Hors ligne : {count} demandes seront envoyées au retour des services' },
+  'queue.status.pending': 'en attente',
+  'queue.status.running': 'en cours',
+  'queue.status.failed': 'échec',
+  'queue.remove': 'Retirer',
+
+  'health.service.translation': 'Traduction',
+  'health.service.stt': 'Parole en texte',
+  'health.service.tts': 'Synthèse vocale',
+  'health.service.streaming': 'Diffusion en direct',
+  'health.state.unknown': 'Vérification',
+  'health.state.healthy': 'Opérationnel',
+  'health.state.degraded': 'Dégradé',
+  'health.state.down': 'Hors service',
+  'health.chip': '{service} · {detail}',
+  'health.latencyMs': '{latency} ms',
+  'health.seconds': '{seconds} s',
+  'health.minutes': '{minutes} min {seconds} s',
+  'health.title': 'État des services',
+  'health.service': 'Service',
+  'health.status': 'État',
+  'health.latency': 'Latence',
+  'health.version': 'Version',
+  'health.lastCheck': 'Dernière vérification',
+  'health.recentOutages': 'Pannes récentes',
+  'health.noOutages': 'Aucune panne enregistrée pendant cette session.',
+  'health.outageResolved': '{service} : résolue ({duration})',
+  'health.outageOngoing': '{service} : en cours ({duration})',
+  'health.checkNow': 'Vérifier maintenant',
+  'health.close': 'Fermer',
+
+  'detection.heuristic': 'Estimation locale : service de détection indisponible',
+  'detection.service': 'Détectée par le service',
+  'detection.detected': 'Détectée : {language} ({percent} %)',
+  'detection.override': 'Incorrect ?',
+
+  'captions.spokenLanguage': 'Langue parlée',
+  'captions.captionLanguages': 'Langues des sous-titres',
+  'captions.start': 'Démarrer les sous-titres',
+  'captions.stop': 'Arrêter les sous-titres',
+  'captions.showOriginal': 'Afficher l\'original',
+  'captions.textSize': 'Taille du texte',
+  'captions.speakIn': 'Lire les traductions en',
+  'captions.voice': 'Voix',
+  'captions.streamingUnavailable': 'Le service de diffusion est indisponible, les sous-titres en direct ne peuvent pas démarrer.',
+  'captions.fullscreen': 'Plein écran',
+  'captions.exitFullscreen': 'Quitter le plein écran',
+  'captions.listening': 'Écoute en cours...',
+  'captions.idle': 'Démarrez les sous-titres pour afficher ici les traductions en direct.',
+  'captions.sessionSummary': { one: 'Session du {date} : {count} sous-titre', other: 'Session du {date} : {count} sous-titres' },
+  'captions.track': 'Piste',
+  'captions.saved': 'Enregistrée',
+  'captions.saveToHistory': 'Enregistrer dans l\'historique',
+  'config.title': 'Erreur de configuration',
+  'config.loadFailed': 'La configuration de l\'application n\'a pas pu être chargée.',
+  'config.hint': 'L\'application lit les URL de ses services dans config.json, à côté de index.html. Corrigez le fichier sur le serveur puis rechargez.',
+  'config.reload': 'Recharger',
+
+  'review.machine': 'Traduction automatique',
+  'review.yours': 'Votre correction',
+  'review.save': 'Enregistrer la correction',
+  'review.saved': 'Correction enregistrée',
+  'review.revert': 'Annuler les modifications',
+  'review.savedCount': { one: '{count} correction enregistrée sur cet appareil', other: '{count} corrections enregistrées sur cet appareil' },
+  'review.resend': 'Renvoyer {count}',
+
+  'errors.translationFailed': 'La traduction a échoué. Veuillez réessayer.',
+  'errors.transcriptionFailed': 'La transcription a échoué. Veuillez réessayer.',
+  'errors.microphone': 'Impossible d’accéder au micro. Vérifiez les autorisations.',
+  'errors.recordingFailed': 'L’enregistrement a échoué. Veuillez réessayer.',
+  'errors.synthesisFailed': 'La synthèse vocale a échoué. Veuillez réessayer.',
+  'errors.shareFailed': 'Impossible de copier le lien. Veuillez réessayer.',
+  'errors.network': 'Impossible de joindre le serveur. Vérifiez votre connexion et réessayez.',
+  'errors.timeout': 'Le serveur a mis trop de temps à répondre. Veuillez réessayer.',
+  'errors.unavailable.translation': 'Le service de traduction est momentanément indisponible. Veuillez réessayer plus tard.',
+  'errors.unavailable.stt': 'Le service de reconnaissance vocale est momentanément indisponible. Veuillez réessayer plus tard.',
+  'errors.unavailable.tts': 'Le service de synthèse vocale est momentanément indisponible. Veuillez réessayer plus tard.',
+  'errors.rejected': 'La demande a été refusée : {message}',
+  'errors.turnFailed': 'Ce tour de parole n’a pas pu être traité. Veuillez réessayer.',
+  'errors.voicePreview': 'L’aperçu de la voix a échoué.',
+  'errors.noSpeech': 'Aucune parole détectée',
+  'errors.phrasePlayback': 'Impossible de lire cette phrase. Veuillez réessayer.',
+  'errors.segmentsUntranslated': { one: '{count} segment n’a pas pu être traduit.', other: '{count} segments n’ont pas pu être traduits.' },
+  'errors.historyLoad': 'Impossible de charger l’historique',
+  'errors.historySave': 'Impossible d’enregistrer l’historique',
+  'errors.historyDelete': 'Impossible de supprimer l’entrée de l’historique',
+  'errors.historyClear': 'Impossible d’effacer l’historique',
+  'errors.phrasebookLoad': 'Impossible de charger le guide de conversation',
+  'errors.phraseSave': 'Impossible d’enregistrer la phrase',
+  'errors.phraseUpdate': 'Impossible de modifier la phrase',
+  'errors.phraseDelete': 'Impossible de supprimer la phrase',
+  'errors.phrasebookInvalidJson': 'Le fichier du guide de conversation n’est pas un JSON valide',
+  'errors.phrasebookUnsupported': 'Fichier de guide de conversation non pris en charge',
+  'errors.phrasebookImport': 'Impossible d’importer le guide de conversation',
+  'errors.glossaryLoad': 'Impossible de charger les glossaires',
+  'errors.glossarySave': 'Impossible d’enregistrer le glossaire',
+  'errors.glossaryDelete': 'Impossible de supprimer le glossaire',
+  'errors.glossaryUnreadable': 'Impossible de lire le fichier de glossaire. Utilisez le format CSV (source,cible,note) ou TBX.',
+  'errors.glossaryNoTerms': 'Aucun terme {source} → {target} trouvé dans {file}',
+  'errors.correctionsLoad': 'Impossible de charger les corrections',
+  'errors.correctionSave': 'Impossible d’enregistrer la correction',
+  'errors.correctionDelete': 'Impossible de supprimer la correction',
+  'errors.sentencesSkipped': 'Certaines phrases n’ont pas pu être synthétisées et ont été ignorées.',
+  'errors.captionsUntranslated': 'Certains sous-titres n’ont pas pu être traduits.',
+  'errors.socketConnection': 'Erreur de connexion WebSocket',
+  'errors.socketCreate': 'Impossible d’ouvrir la connexion WebSocket',
+  'errors.socketNotConnected': 'WebSocket non connecté',
+  'errors.socketSend': 'Impossible d’envoyer le message',
+  'errors.socketParse': 'Message du serveur illisible',
+  'errors.socketServer': 'Erreur de diffusion : {message}',
+  'errors.socketServerUnknown': 'Erreur de diffusion',
+  'errors.healthCheck': 'La vérification de l’état a échoué',
+  'errors.reportedStatus': 'État signalé : {status}',
+  'errors.connectionTimedOut': 'Délai de connexion dépassé',
+  'errors.connectionFailed': 'Échec de la connexion',
+  'errors.connectionClosed': 'Connexion fermée',
+  'errors.invalidStreamingUrl': 'URL de diffusion invalide',
+  'errors.offline': 'Le navigateur est hors ligne',
+  'errors.subtitlesUnreadable': 'Impossible de lire les sous-titres. Importez un fichier .srt ou .vtt valide.',
+  'errors.translationCancelled': 'Traduction annulée. Utilisez « Traduire le reste » pour continuer.',
+  'errors.cuesUntranslated': { one: '{count} sous-titre n’a pas pu être traduit. Réessayez-le individuellement ou relancez la traduction.', other: '{count} sous-titres n’ont pas pu être traduits. Réessayez-les individuellement ou relancez la traduction.' },
+  'errors.targetFailed': 'La traduction a échoué',
+  'errors.allTargetsFailed': 'La traduction a échoué pour toutes les langues. Veuillez réessayer.',
+  'errors.synthesisFailedFor': 'La synthèse vocale a échoué pour {language}.'
+};
@@ -0,0 +1,346 @@
+import { Messages } from './en';
+
+// Haitian Creole marks plurals with "yo" or a number, so counted messages need a single form
+export const ht: Messages = {
+  'app.title': 'Platfòm Tradiksyon Kreyòl',
+  'app.subtitle': 'Sèvis pwofesyonèl pou tradiksyon, transkripsyon ak lekti vwa',
+  'app.demoMode': 'Mòd demonstrasyon',
+  'app.languageCount': { other: '{count} lang' },
+  'app.voiceCount': { other: '{count} vwa' },
+  'app.uiLanguage': 'Lang entèfas la',
+
+  'tabs.translate': 'Tradiksyon tèks',
+  'tabs.speech': 'Pawòl an tèks',
+  'tabs.tts': 'Tèks an pawòl',
+  'tabs.conversation': 'Konvèsasyon',
+  'tabs.captions': 'Soutit an dirèk',
+  'tabs.history': 'Istorik',
+  'tabs.phrasebook': 'Liv fraz',
+  'tabs.multiTarget': 'Plizyè lang',
+  'tabs.subtitles': 'Soutit',
+  'tabs.timedTranscript': 'Transkripsyon ak lè',
+  'tabs.glossary': 'Glosè',
+
+  'common.from': 'Soti nan',
+  'common.to': 'Ale nan',
+  'common.autoDetect': 'Detekte otomatikman',
+  'common.language': 'Lang',
+  'common.confident': '{percent}% konfyans',
+  'common.name': 'Non',
+  'common.default': 'Pa defo',
+  'common.original': 'Orijinal',
+  'common.translation': 'Tradiksyon',
+  'common.format': 'Fòma',
+  'common.cancel': 'Anile',
+  'common.save': 'Anrejistre',
+  'common.clear': 'Efase',
+  'common.delete': 'Efase',
+  'common.retry': 'Eseye ankò',
+  'common.copy': 'Kopye',
+  'common.download': 'Telechaje',
+  'common.import': 'Enpòte',
+  'common.export': 'Ekspòte',
+  'common.playAudio': 'Jwe odyo a',
+  'common.translationUnavailable': 'Tradiksyon pa disponib kounye a.',
+  'common.sttUnavailable': 'Rekonesans vwa pa disponib kounye a.',
+
+  'translate.placeholder': 'Ekri tèks pou tradui a...',
+  'translate.translate': 'Tradui',
+  'translate.translating': 'Ap tradui...',
+  'translate.live': 'An dirèk',
+  'translate.result': 'Rezilta tradiksyon an',
+  'translate.glossariesActive': { other: '{count} glosè aktif' },
+  'translate.lowConfidence': 'Konfyans ba: verifye tradiksyon sa a epi korije l si sa nesesè.',
+  'translate.playAudio': 'Jwe odyo a',
+
+  'speech.audioInput': 'Antre odyo',
+  'speech.spokenLanguage': 'Lang yo pale a',
+  'speech.startRecording': 'Kòmanse anrejistre',
+  'speech.stopRecording': 'Sispann anrejistre',
+  'speech.uploadFile': 'Voye yon fichye',
+  'speech.streamingUnavailable': 'Transkripsyon an dirèk pa disponib. Anrejistreman yo ap transkri lè ou sispann.',
+  'speech.recording': 'Ap anrejistre... Pale klè nan mikwo a',
+  'speech.realtimeActive': 'Transkripsyon an tan reyèl ap mache',
+  'speech.result': 'Rezilta transkripsyon an',
+  'speech.useForTranslation': 'Sèvi ak li pou tradiksyon',
+  'speech.microphoneRecording': 'Anrejistreman mikwo',
+
+  'tts.settings': 'Paramèt lekti tèks',
+  'tts.voice': 'Vwa',
+  'tts.delivery': 'Fason pou li',
+  'tts.speed': 'Vitès',
+  'tts.pitch': 'Wotè',
+  'tts.volume': 'Volim',
+  'tts.reset': 'Remete',
+  'tts.placeholder': 'Ekri tèks pou li a...',
+  'tts.generate': 'Kreye pawòl',
+  'tts.generating': 'Ap kreye...',
+  'tts.unavailable': 'Sèvis lekti tèks la pa disponib.',
+
+  'a11y.swapLanguages': 'Chanje lang yo de bò',
+  'a11y.copyInput': 'Kopye tèks la',
+  'a11y.copyResult': 'Kopye tradiksyon an',
+  'a11y.savePhrase': 'Sere nan liv fraz yo',
+  'a11y.inputText': 'Tèks pou tradui',
+  'a11y.resultText': 'Tradiksyon',
+  'a11y.ttsText': 'Tèks pou li fò',
+  'a11y.translationReady': 'Tradiksyon: {text}',
+  'a11y.transcriptionReady': 'Transkripsyon: {text}',
+  'a11y.recordingStarted': 'Anrejistreman an kòmanse',
+  'a11y.recordingStopped': 'Anrejistreman an kanpe',
+  'a11y.copied': 'Kopye',
+
+  'shortcuts.title': 'Rakousi klavye',
+  'shortcuts.open': 'Montre rakousi klavye yo',
+  'shortcuts.translate': 'Tradui',
+  'shortcuts.swap': 'Chanje lang yo de bò',
+  'shortcuts.record': 'Kòmanse oswa kanpe anrejistreman an',
+  'shortcuts.play': 'Koute tradiksyon an',
+  'shortcuts.help': 'Montre lis sa a',
+  'shortcuts.close': 'Fèmen',
+
+  'share.copyLink': 'Kopye yon lyen pou tradiksyon sa a',
+  'share.copied': 'Lyen an kopye',
+  'share.copiedWithoutText': 'Lyen an kopye san tèks la, li twò long pou mete ladan l',
+
+  'conversation.speakerA': 'Moun A',
+  'conversation.speakerB': 'Moun B',
+  'conversation.speak': '{name} pale',
+  'conversation.stopAndTranslate': 'Kanpe epi tradui',
+  'conversation.empty': 'Chak moun peze bouton pa l lè se tou pa l. Nou tradui chak tou epi li l pou lòt moun nan.',
+  'conversation.transcribing': 'N ap transkri...',
+  'conversation.translating': 'N ap tradui...',
+  'conversation.speaking': 'N ap li...',
+  'conversation.done': 'Fini',
+  'conversation.failed': 'Pa mache',
+
+  'subtitles.upload': 'Chaje soutit',
+  'subtitles.fileSummary': { one: '{file} ({count} soutit, {format})', other: '{file} ({count} soutit, {format})' },
+  'subtitles.translateAll': 'Tradui tout',
+  'subtitles.translateRemaining': 'Tradui sa ki rete yo ({count})',
+  'subtitles.downloadAnyway': 'Telechaje kanmenm',
+  'subtitles.untranslatedWarning': { one: '{count} soutit pa tradui, l ap kenbe tèks orijinal la.', other: '{count} soutit pa tradui, y ap kenbe tèks orijinal la.' },
+  'subtitles.timing': 'Lè',
+  'subtitles.translationFailed': 'Tradiksyon an pa mache',
+  'subtitles.cueTranslation': 'Tradiksyon soutit {number}',
+  'subtitles.translateCue': 'Tradui soutit sa a',
+
+  'transcript.spokenLanguage': 'Lang ki pale a',
+  'transcript.alsoTranslate': 'Tradui tou nan',
+  'transcript.target': 'Lang sib',
+  'transcript.upload': 'Chaje odyo oswa videyo',
+  'transcript.transcribing': 'N ap transkri {file}...',
+  'transcript.translating': 'N ap tradui segman yo...',
+  'transcript.summary': { one: '{file}: {count} segman', other: '{file}: {count} segman' },
+  'transcript.track': 'Pis',
+  'transcript.exportAnyway': 'Ekspòte kanmenm',
+  'transcript.untranslatedWarning': { one: '{count} segman pa tradui, l ap kenbe tèks orijinal la.', other: '{count} segman pa tradui, y ap kenbe tèks orijinal la.' },
+  'transcript.start': 'Kòmansman',
+  'transcript.end': 'Fen',
+  'transcript.text': 'Tèks',
+  'transcript.segmentStart': 'Kòmansman segman {number}',
+  'transcript.segmentEnd': 'Fen segman {number}',
+  'transcript.segmentText': 'Tèks segman {number}',
+  'transcript.segmentTranslation': 'Tradiksyon segman {number}',
+  'transcript.removeSegment': 'Retire segman an',
+
+  'multi.placeholder': 'Ekri tèks pou tradui nan chak lang ou chwazi yo...',
+  'multi.translateTo': { one: 'Tradui nan {count} lang', other: 'Tradui nan {count} lang' },
+  'multi.noResult': 'Nou pa resevwa okenn tradiksyon',
+
+  'glossary.title': 'Glosè yo',
+  'glossary.termTooltip': 'Glosè: {source} → {target}',
+  'glossary.notFollowed': 'Glosè a pa respekte',
+  'glossary.violation': '"{source}" ta dwe tradui kòm "{target}" ({glossary})',
+  'glossary.newGlossary': 'Nouvo glosè',
+  'glossary.untitled': 'Glosè san tit',
+  'glossary.create': 'Kreye',
+  'glossary.import': 'Enpòte CSV/TBX',
+  'glossary.imported': { one: 'Nou enpòte {count} tèm soti nan {file}', other: 'Nou enpòte {count} tèm soti nan {file}' },
+  'glossary.empty': 'Pa gen glosè ankò. Kreye youn oswa enpòte yon fichye CSV (sous,sib,nòt) oswa TBX.',
+  'glossary.useThisSession': 'Itilize l pou tradiksyon pandan sesyon sa a',
+  'glossary.termCount': { one: '{pair} · {count} tèm', other: '{pair} · {count} tèm' },
+  'glossary.delete': 'Efase glosè a',
+  'glossary.sourceTerm': 'Tèm sous',
+  'glossary.requiredTranslation': 'Tradiksyon obligatwa',
+  'glossary.matchCase': 'Respekte majiskil',
+  'glossary.requiredTranslationFor': 'Tradiksyon obligatwa pou {term}',
+  'glossary.matchCaseFor': 'Respekte majiskil pou {term}',
+  'glossary.removeTerm': 'Retire {term}',
+  'glossary.newSourceTerm': 'Nouvo tèm sous',
+  'glossary.newRequiredTranslation': 'Nouvo tradiksyon obligatwa',
+  'glossary.addTerm': 'Ajoute tèm nan',
+  'glossary.selectPrompt': 'Chwazi yon glosè pou modifye tèm li yo.',
+
+  'history.search': 'Chèche nan istorik la...',
+  'history.languages': 'Lang yo',
+  'history.allLanguages': 'Tout',
+  'history.empty': 'Poko gen tradiksyon ni transkripsyon.',
+  'history.noMatches': 'Pa gen okenn antre ki koresponn ak rechèch ou a.',
+  'history.translateAgain': 'Tradui ankò',
+  'history.useForTranslation': 'Itilize l pou tradiksyon',
+  'history.kind.translation': 'tradiksyon',
+  'history.kind.transcription': 'transkripsyon',
+
+  'phrasebook.all': 'Tout',
+  'phrasebook.defaultCategory': 'Jeneral',
+  'phrasebook.imported': { one: 'Nou enpòte {count} fraz', other: 'Nou enpòte {count} fraz' },
+  'phrasebook.empty': 'Mete yon etwal sou yon tradiksyon pou sere l nan gid fraz ou.',
+  'phrasebook.play': 'Jwe',
+  'phrasebook.saveTitle': 'Anrejistre nan kaye fraz yo',
+  'phrasebook.category': 'Kategori',
+  'phrasebook.categoryPlaceholder': 'egz. Triyaj, Famasi',
+
+  'voices.gender': 'Sèks',
+  'voices.age': 'Laj',
+  'voices.any': 'Nenpòt',
+  'voices.search': 'Chèche nan deskripsyon yo',
+  'voices.defaultDescription': 'Kite sèvis la chwazi yon vwa pou lang sa a',
+  'voices.preview': 'Tande vwa a',
+  'voices.previewNamed': 'Tande {name}',
+  'voices.noMatches': 'Pa gen okenn vwa ki koresponn ak filt sa yo.',
+
+  'audio.play': 'Jwe',
+  'audio.pause': 'Pran poz',
+  'audio.replay': 'Jwe ankò',
+  'audio.position': 'Kote lekti a ye',
+  'audio.download': 'Telechaje odyo a',
+
+  'reader.previous': 'Fraz anvan an',
+  'reader.next': 'Fraz apre a',
+  'reader.pause': 'Pran poz',
+  'reader.resume': 'Kontinye',
+  'reader.stop': 'Kanpe',
+  'reader.position': 'Fraz {current} sou {total}',
+  'reader.positionLoading': 'Fraz {current} sou {total} (n ap prepare odyo a...)',
+  'reader.count': { one: '{count} fraz', other: '{count} fraz' },
+
+  'queue.translation': 'Tradiksyon {source} → {target}',
+  'queue.transcription': 'Transkripsyon ({language})',
+  'queue.retryAll': 'Eseye tout ankò',
+  'queue.queued': { one: '{count} demann k ap tann', other: '{count} demann k ap tann' },
+  'queue.offline': { one: 'Pa konekte: {count} demann ap pati lè sèvis yo tounen', other: 'Pa konekte: {count} demann ap pati lè sèvis yo tounen' },
+  'queue.status.pending': 'ap tann',
+  'queue.status.running': 'ap mache',
+  'queue.status.failed': 'pa mache',
+  'queue.remove': 'Retire',
+
+  'health.service.translation': 'Tradiksyon',
+  'health.service.stt': 'Vwa an tèks',
+  'health.service.tts': 'Tèks an vwa',
+  'health.service.streaming': 'Difizyon an dirèk',
+  'health.state.unknown': 'N ap verifye',
+  'health.state.healthy': 'Ap mache byen',
+  'health.state.degraded': 'Ap mache mal',
+  'health.state.down': 'Pa mache',
+  'health.chip': '{service} · {detail}',
+  'health.latencyMs': '{latency} ms',
+  'health.seconds': '{seconds}s',
+  'health.minutes': '{minutes}m {seconds}s',
+  'health.title': 'Eta sèvis yo',
+  'health.service': 'Sèvis',
+  'health.status': 'Eta',
+  'health.latency': 'Reta',
+  'health.version': 'Vèsyon',
+  'health.lastCheck': 'Dènye verifikasyon',
+  'health.recentOutages': 'Pàn resan yo',
+  'health.noOutages': 'Pa gen okenn pàn pandan sesyon sa a.',
+  'health.outageResolved': '{service}: rezoud ({duration})',
+  'health.outageOngoing': '{service}: toujou ap dire ({duration})',
+  'health.checkNow': 'Verifye kounye a',
+  'health.close': 'Fèmen',
+
+  'detection.heuristic': 'Estimasyon lokal; sèvis deteksyon an pa disponib',
+  'detection.service': 'Sèvis la detekte l',
+  'detection.detected': 'Detekte: {language} ({percent}%)',
+  'detection.override': 'Se pa sa?',
+
+  'captions.spokenLanguage': 'Lang yo pale',
+  'captions.captionLanguages': 'Lang soutit yo',
+  'captions.start': 'Kòmanse soutit yo',
+  'captions.stop': 'Kanpe soutit yo',
+  'captions.showOriginal': 'Montre orijinal la',
+  'captions.textSize': 'Gwosè tèks la',
+  'captions.speakIn': 'Li tradiksyon yo an',
+  'captions.voice': 'Vwa',
+  'captions.streamingUnavailable': 'Sèvis difizyon an pa disponib, kidonk soutit an dirèk yo pa ka kòmanse.',
+  'captions.fullscreen': 'Plen ekran',
+  'captions.exitFullscreen': 'Soti nan plen ekran',
+  'captions.listening': 'Ap koute...',
+  'captions.idle': 'Kòmanse soutit yo pou w wè tradiksyon an dirèk isit la.',
+  'captions.sessionSummary': { one: 'Sesyon {date}: {count} soutit', other: 'Sesyon {date}: {count} soutit' },
+  'captions.track': 'Pis',
+  'captions.saved': 'Anrejistre',
+  'captions.saveToHistory': 'Anrejistre nan istorik',
+  'config.title': 'Erè konfigirasyon',
+  'config.loadFailed': 'Nou pa t ka chaje konfigirasyon aplikasyon an.',
+  'config.hint': 'Aplikasyon an li URL sèvis li yo nan config.json, bò kote index.html. Korije fichye a sou sèvè a epi rechaje.',
+  'config.reload': 'Rechaje',
+
+  'review.machine': 'Tradiksyon otomatik',
+  'review.yours': 'Koreksyon ou',
+  'review.save': 'Anrejistre koreksyon an',
+  'review.saved': 'Koreksyon an anrejistre',
+  'review.revert': 'Retounen jan li te ye',
+  'review.savedCount': { one: '{count} koreksyon anrejistre sou aparèy sa a', other: '{count} koreksyon anrejistre sou aparèy sa a' },
+  'review.resend': 'Voye {count} ankò',
+
+  'errors.translationFailed': 'Tradiksyon an pa mache. Tanpri eseye ankò.',
+  'errors.transcriptionFailed': 'Transkripsyon an pa mache. Tanpri eseye ankò.',
+  'errors.microphone': 'Nou pa ka itilize mikwo a. Tanpri verifye pèmisyon yo.',
+  'errors.recordingFailed': 'Anrejistreman an pa mache. Tanpri eseye ankò.',
+  'errors.synthesisFailed': 'Lekti tèks la pa mache. Tanpri eseye ankò.',
+  'errors.shareFailed': 'Nou pa ka kopye lyen an. Tanpri eseye ankò.',
+  'errors.network': 'Nou pa ka jwenn sèvè a. Verifye koneksyon ou epi eseye ankò.',
+  'errors.timeout': 'Sèvè a pran twòp tan pou reponn. Tanpri eseye ankò.',
+  'errors.unavailable.translation': 'Sèvis tradiksyon an pa disponib kounye a. Tanpri eseye pita.',
+  'errors.unavailable.stt': 'Sèvis rekonesans vwa a pa disponib kounye a. Tanpri eseye pita.',
+  'errors.unavailable.tts': 'Sèvis lekti tèks la pa disponib kounye a. Tanpri eseye pita.',
+  'errors.rejected': 'Demann lan pa pase: {message}',
+  'errors.turnFailed': 'Nou pa ka trete tou pawòl sa a. Tanpri eseye ankò.',
+  'errors.voicePreview': 'Nou pa ka fè tande vwa a.',
+  'errors.noSpeech': 'Nou pa tande okenn pawòl',
+  'errors.phrasePlayback': 'Nou pa ka jwe fraz sa a. Tanpri eseye ankò.',
+  'errors.segmentsUntranslated': { one: 'Nou pa t ka tradui {count} segman.', other: 'Nou pa t ka tradui {count} segman.' },
+  'errors.historyLoad': 'Nou pa ka chaje istorik la',
+  'errors.historySave': 'Nou pa ka anrejistre istorik la',
+  'errors.historyDelete': 'Nou pa ka efase antre sa a nan istorik la',
+  'errors.historyClear': 'Nou pa ka efase istorik la',
+  'errors.phrasebookLoad': 'Nou pa ka chaje gid fraz yo',
+  'errors.phraseSave': 'Nou pa ka anrejistre fraz la',
+  'errors.phraseUpdate': 'Nou pa ka modifye fraz la',
+  'errors.phraseDelete': 'Nou pa ka efase fraz la',
+  'errors.phrasebookInvalidJson': 'Fichye gid fraz la pa yon JSON ki valab',
+  'errors.phrasebookUnsupported': 'Nou pa konnen fòma fichye gid fraz sa a',
+  'errors.phrasebookImport': 'Nou pa ka enpòte gid fraz la',
+  'errors.glossaryLoad': 'Nou pa ka chaje glosè yo',
+  'errors.glossarySave': 'Nou pa ka anrejistre glosè a',
+  'errors.glossaryDelete': 'Nou pa ka efase glosè a',
+  'errors.glossaryUnreadable': 'Nou pa ka li fichye glosè a. Tanpri itilize CSV (sous,sib,nòt) oswa TBX.',
+  'errors.glossaryNoTerms': 'Pa gen okenn tèm {source} → {target} nan {file}',
+  'errors.correctionsLoad': 'Nou pa ka chaje koreksyon yo',
+  'errors.correctionSave': 'Nou pa ka anrejistre koreksyon an',
+  'errors.correctionDelete': 'Nou pa ka efase koreksyon an',
+  'errors.sentencesSkipped': 'Nou pa t ka li kèk fraz, nou sote yo.',
+  'errors.captionsUntranslated': 'Nou pa t ka tradui kèk soutit.',
+  'errors.socketConnection': 'Erè koneksyon WebSocket',
+  'errors.socketCreate': 'Nou pa ka louvri koneksyon WebSocket la',
+  'errors.socketNotConnected': 'WebSocket la pa konekte',
+  'errors.socketSend': 'Nou pa ka voye mesaj la',
+  'errors.socketParse': 'Nou pa ka li mesaj sèvè a',
+  'errors.socketServer': 'Erè difizyon: {message}',
+  'errors.socketServerUnknown': 'Erè difizyon',
+  'errors.healthCheck': 'Verifikasyon eta a pa mache',
+  'errors.reportedStatus': 'Eta sèvis la bay: {status}',
+  'errors.connectionTimedOut': 'Koneksyon an pran twòp tan',
+  'errors.connectionFailed': 'Koneksyon an pa mache',
+  'errors.connectionClosed': 'Koneksyon an fèmen',
+  'errors.invalidStreamingUrl': 'URL difizyon an pa valab',
+  'errors.offline': 'Navigatè a pa konekte',
+  'errors.subtitlesUnreadable': 'Nou pa ka li soutit yo. Tanpri chaje yon fichye .srt oswa .vtt ki valab.',
+  'errors.translationCancelled': 'Tradiksyon an anile. Itilize «Tradui sa ki rete yo» pou kontinye.',
+  'errors.cuesUntranslated': { one: 'Nou pa t ka tradui {count} soutit. Eseye l ankò youn pa youn oswa tradui ankò.', other: 'Nou pa t ka tradui {count} soutit. Eseye yo ankò youn pa youn oswa tradui ankò.' },
+  'errors.targetFailed': 'Tradiksyon an pa mache',
+  'errors.allTargetsFailed': 'Tradiksyon an pa mache pou okenn lang. Tanpri eseye ankò.',
+  'errors.synthesisFailedFor': 'Lekti tèks la pa mache pou {language}.'
+};
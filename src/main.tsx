@@ -1,9 +1,45 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
+import { QueryClientProvider } from '@tanstack/react-query'
 import App from './App'
+import ConfigErrorScreen from './components/ConfigErrorScreen'
+import { queryClient } from './api/queryClient'
+import { loadRuntimeConfig } from './config/runtimeConfig'
+import { ConfigContext } from './hooks/useConfig'
+import I18nProvider from './i18n/I18nProvider'
+import { registerServiceWorker } from './utils/serviceWorker'
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>,
-)
\ No newline at end of file
+const root = ReactDOM.createRoot(document.getElementById('root')!)
+
+loadRuntimeConfig()
+  .then(async (config) => {
+    // Loaded on demand so the mock backend stays out of the production bundle
+    if (config.mock.enabled) {
+      const { installMockBackend } = await import('./mock/mockBackend')
+      installMockBackend(config)
+    }
+
+    root.render(
+      <React.StrictMode>
+        <ConfigContext.Provider value={config}>
+          <QueryClientProvider client={queryClient}>
+            <I18nProvider>
+              <App />
+            </I18nProvider>
+          </QueryClientProvider>
+        </ConfigContext.Provider>
+      </React.StrictMode>,
+    )
+  })
+  .catch((err) => {
+    console.error('Configuration error:', err)
+    root.render(
+      <React.StrictMode>
+        <I18nProvider>
+          <ConfigErrorScreen error={err} />
+        </I18nProvider>
+      </React.StrictMode>,
+    )
+  })
+
+registerServiceWorker()
\ No newline at end of file
@@ -0,0 +1,136 @@
+import { StreamConfig, WebSocketMessage, WebSocketResponse } from '../types/api';
+import { MockSettings } from '../types/config';
+import { AUTO_DETECT } from '../utils/languageDetection';
+import { MOCK_TRANSCRIPTS } from './data';
+
+// 100 ms capture frames: a new word is "heard" every 300 ms of audio
+const CHUNKS_PER_WORD = 3;
+
+// Speaks the /api/v1/stream protocol: scripted partial transcripts while audio flows, a final per sentence
+export class MockWebSocket extends EventTarget {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  readonly url: string;
+  readonly protocol = '';
+  readonly extensions = '';
+  binaryType: BinaryType = 'blob';
+  bufferedAmount = 0;
+  readyState: number = MockWebSocket.CONNECTING;
+
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  private settings: MockSettings;
+  private language = 'ht';
+  private sentenceIndex = 0;
+  private heardWords: string[] = [];
+  private chunkCount = 0;
+
+  constructor(url: string | URL, settings: MockSettings) {
+    super();
+    this.url = String(url);
+    this.settings = settings;
+
+    window.setTimeout(() => this.open(), settings.latencyMs);
+  }
+
+  send(data: string) {
+    if (this.readyState !== MockWebSocket.OPEN) {
+      throw new DOMException('WebSocket is not open', 'InvalidStateError');
+    }
+
+    const message = JSON.parse(data) as WebSocketMessage;
+    switch (message.type) {
+      case 'config':
+        this.configure(JSON.parse(message.data) as StreamConfig);
+        break;
+      case 'audio_chunk':
+        this.receiveAudio();
+        break;
+      case 'stop':
+        this.finalize();
+        break;
+    }
+  }
+
+  close(code = 1000, reason = '') {
+    if (this.readyState === MockWebSocket.CLOSING || this.readyState === MockWebSocket.CLOSED) return;
+    this.readyState = MockWebSocket.CLOSING;
+    window.setTimeout(() => {
+      this.readyState = MockWebSocket.CLOSED;
+      this.emit(new CloseEvent('close', { code, reason, wasClean: code === 1000 }), this.onclose);
+    }, 0);
+  }
+
+  private open() {
+    if (this.readyState !== MockWebSocket.CONNECTING) return;
+
+    this.readyState = MockWebSocket.OPEN;
+    this.emit(new Event('open'), this.onopen);
+
+    if (Math.random() < this.settings.failureRate) {
+      this.respond({ type: 'error', data: { message: 'Mock streaming failure', code: 'mock_failure' } });
+      this.close(1011, 'Mock streaming failure');
+      return;
+    }
+
+    this.respond({ type: 'connected', data: { session_id: `mock-${Date.now()}`, message: 'Mock stream ready' } });
+  }
+
+  private configure(config: StreamConfig) {
+    const language = config.language && config.language !== AUTO_DETECT ? config.language : 'ht';
+    this.language = MOCK_TRANSCRIPTS[language] ? language : 'en';
+    this.heardWords = [];
+    this.chunkCount = 0;
+  }
+
+  private currentSentence(): string[] {
+    const script = MOCK_TRANSCRIPTS[this.language];
+    return script[this.sentenceIndex % script.length].split(/\s+/);
+  }
+
+  private receiveAudio() {
+    this.chunkCount++;
+    if (this.chunkCount % CHUNKS_PER_WORD !== 0) return;
+
+    const sentence = this.currentSentence();
+    this.heardWords.push(sentence[this.heardWords.length]);
+
+    if (this.heardWords.length < sentence.length) {
+      this.respond({
+        type: 'partial_transcript',
+        data: { text: this.heardWords.join(' '), language: this.language, confidence: 0.6 }
+      });
+    } else {
+      this.finalize();
+    }
+  }
+
+  private finalize() {
+    if (this.heardWords.length === 0) return;
+
+    this.respond({
+      type: 'final_transcript',
+      data: { text: this.heardWords.join(' '), language: this.language, confidence: 0.92 }
+    });
+    this.heardWords = [];
+    this.sentenceIndex++;
+  }
+
+  private respond(response: WebSocketResponse) {
+    window.setTimeout(() => {
+      if (this.readyState !== MockWebSocket.OPEN) return;
+      this.emit(new MessageEvent('message', { data: JSON.stringify(response) }), this.onmessage);
+    }, Math.min(this.settings.latencyMs, 150));
+  }
+
+  private emit<E extends Event>(event: E, handler: ((event: E) => void) | null) {
+    this.dispatchEvent(event);
+    handler?.call(this, event);
+  }
+}
@@ -0,0 +1,76 @@
+import { Language, Voice } from '../types/api';
+
+export const MOCK_LANGUAGES: Language[] = [
+  { code: 'en', name: 'English', native_name: 'English' },
+  { code: 'ht', name: 'Haitian Creole', native_name: 'Kreyòl ayisyen' },
+  { code: 'fr', name: 'French', native_name: 'Français' },
+  { code: 'es', name: 'Spanish', native_name: 'Español' }
+];
+
+export const MOCK_VOICES: Voice[] = [
+  { id: 'ht-female-1', name: 'Nadège', language: 'ht', gender: 'female', age: 'adult', description: 'Warm, clear Port-au-Prince accent' },
+  { id: 'ht-male-1', name: 'Jean-Robert', language: 'ht', gender: 'male', age: 'adult', description: 'Calm newsreader style' },
+  { id: 'ht-female-2', name: 'Tifi', language: 'ht', gender: 'female', age: 'young', description: 'Bright and energetic' },
+  { id: 'en-female-1', name: 'Grace', language: 'en', gender: 'female', age: 'adult', description: 'Neutral American English' },
+  { id: 'en-male-1', name: 'Arthur', language: 'en', gender: 'male', age: 'senior', description: 'Deep, measured narration' },
+  { id: 'fr-female-1', name: 'Camille', language: 'fr', gender: 'female', age: 'adult', description: 'Standard French' },
+  { id: 'fr-male-1', name: 'Luc', language: 'fr', gender: 'male', age: 'young', description: 'Casual and friendly' },
+  { id: 'es-female-1', name: 'Lucía', language: 'es', gender: 'female', age: 'adult', description: 'Latin American Spanish' }
+];
+
+// Parallel phrases: whole-sentence matches are translated exactly, single words feed the word glossary
+export const MOCK_PHRASES: Record<string, string>[] = [
+  { en: 'Hello', ht: 'Bonjou', fr: 'Bonjour', es: 'Hola' },
+  { en: 'Good evening', ht: 'Bonswa', fr: 'Bonsoir', es: 'Buenas noches' },
+  { en: 'How are you?', ht: 'Kòman ou ye?', fr: 'Comment allez-vous ?', es: '¿Cómo estás?' },
+  { en: 'I am fine, thank you', ht: 'Mwen byen, mèsi', fr: 'Je vais bien, merci', es: 'Estoy bien, gracias' },
+  { en: 'Thank you', ht: 'Mèsi', fr: 'Merci', es: 'Gracias' },
+  { en: 'Please', ht: 'Tanpri', fr: "S'il vous plaît", es: 'Por favor' },
+  { en: 'Yes', ht: 'Wi', fr: 'Oui', es: 'Sí' },
+  { en: 'No', ht: 'Non', fr: 'Non', es: 'No' },
+  { en: 'Goodbye', ht: 'Orevwa', fr: 'Au revoir', es: 'Adiós' },
+  { en: 'Where is the hospital?', ht: 'Ki kote lopital la ye?', fr: "Où est l'hôpital ?", es: '¿Dónde está el hospital?' },
+  { en: 'I need help', ht: 'Mwen bezwen èd', fr: "J'ai besoin d'aide", es: 'Necesito ayuda' },
+  { en: 'I need a doctor', ht: 'Mwen bezwen yon doktè', fr: "J'ai besoin d'un médecin", es: 'Necesito un médico' },
+  { en: 'What is your name?', ht: 'Kijan ou rele?', fr: 'Comment vous appelez-vous ?', es: '¿Cómo te llamas?' },
+  { en: 'My name is Marie', ht: 'Mwen rele Marie', fr: "Je m'appelle Marie", es: 'Me llamo Marie' },
+  { en: 'water', ht: 'dlo', fr: 'eau', es: 'agua' },
+  { en: 'food', ht: 'manje', fr: 'nourriture', es: 'comida' },
+  { en: 'house', ht: 'kay', fr: 'maison', es: 'casa' },
+  { en: 'school', ht: 'lekòl', fr: 'école', es: 'escuela' },
+  { en: 'friend', ht: 'zanmi', fr: 'ami', es: 'amigo' },
+  { en: 'today', ht: 'jodi a', fr: "aujourd'hui", es: 'hoy' },
+  { en: 'tomorrow', ht: 'demen', fr: 'demain', es: 'mañana' },
+  { en: 'I', ht: 'mwen', fr: 'je', es: 'yo' },
+  { en: 'you', ht: 'ou', fr: 'vous', es: 'tú' },
+  { en: 'we', ht: 'nou', fr: 'nous', es: 'nosotros' },
+  { en: 'good', ht: 'bon', fr: 'bon', es: 'bueno' },
+  { en: 'love', ht: 'renmen', fr: 'aimer', es: 'amar' },
+  { en: 'want', ht: 'vle', fr: 'veux', es: 'quiero' },
+  { en: 'go', ht: 'ale', fr: 'aller', es: 'ir' },
+  { en: 'the', ht: 'la', fr: 'le', es: 'el' }
+];
+
+// Scripted speech returned by /api/v1/transcribe and streamed over /api/v1/stream
+export const MOCK_TRANSCRIPTS: Record<string, string[]> = {
+  en: [
+    'Hello, how are you today?',
+    'I need help finding the hospital.',
+    'Thank you very much for your time.'
+  ],
+  ht: [
+    'Bonjou, kòman ou ye jodi a?',
+    'Mwen bezwen èd pou jwenn lopital la.',
+    'Mèsi anpil pou tan ou.'
+  ],
+  fr: [
+    "Bonjour, comment allez-vous aujourd'hui ?",
+    "J'ai besoin d'aide pour trouver l'hôpital.",
+    'Merci beaucoup pour votre temps.'
+  ],
+  es: [
+    '¿Hola, cómo estás hoy?',
+    'Necesito ayuda para encontrar el hospital.',
+    'Muchas gracias por tu tiempo.'
+  ]
+};
@@ -0,0 +1,155 @@
+import {
+  LanguageDetectionResult,
+  SynthesisRequest,
+  TranscriptionResult,
+  TranscriptionSegment,
+  TranscriptionTimestamps,
+  TranslationResult
+} from '../types/api';
+import { concatPcm, encodeWav } from '../utils/wav';
+import { AUTO_DETECT } from '../utils/languageDetection';
+import { MOCK_PHRASES, MOCK_TRANSCRIPTS } from './data';
+
+const SPEECH_SAMPLE_RATE = 16000;
+const WORD_DURATION_S = 0.4;
+const SEGMENT_GAP_S = 0.3;
+
+// FNV-1a, so the same input always produces the same fake output
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/[.!?¿¡,;:]/g, '').replace(/\s+/g, ' ').trim();
+
+const WORDS = new Map<string, Record<string, string>>();
+MOCK_PHRASES.forEach((phrase) => {
+  Object.values(phrase).forEach((text) => {
+    if (!text.includes(' ')) WORDS.set(normalize(text), phrase);
+  });
+});
+
+const translateSentence = (sentence: string, source: string, target: string): string => {
+  const key = normalize(sentence);
+  const trailing = sentence.match(/[.!?]*\s*$/)?.[0] ?? '';
+
+  const phrase = MOCK_PHRASES.find(entry => entry[source] && normalize(entry[source]) === key);
+  if (phrase?.[target]) {
+    return `${phrase[target].replace(/[.!?]+$/, '')}${trailing}`;
+  }
+
+  let changed = false;
+  const translated = sentence.replace(/[\p{L}']+/gu, (word) => {
+    const entry = WORDS.get(word.toLowerCase());
+    if (entry?.[source]?.toLowerCase() === word.toLowerCase() && entry[target]) {
+      changed = true;
+      const replacement = entry[target];
+      return word[0] === word[0].toUpperCase()
+        ? replacement[0].toUpperCase() + replacement.slice(1)
+        : replacement;
+    }
+    return word;
+  });
+
+  // Unknown sentences are tagged rather than left looking untranslated
+  return changed ? translated : `[${target}] ${sentence}`;
+};
+
+export const mockTranslate = (text: string, source: string, target: string): TranslationResult => {
+  const sentences = text.match(/[^.!?]+[.!?]*\s*/g) ?? [text];
+  const translated = source === target
+    ? text
+    : sentences.map(sentence => translateSentence(sentence, source, target)).join('');
+
+  return {
+    translated_text: translated,
+    source_language: source,
+    target_language: target,
+    confidence: (70 + (hashString(`${source}:${target}:${text}`) % 29)) / 100
+  };
+};
+
+// Picks a scripted language for auto-detection, stable for a given file
+export const mockSpokenLanguage = (seed: number, requested: string): string => {
+  if (requested !== AUTO_DETECT && MOCK_TRANSCRIPTS[requested]) return requested;
+  const languages = Object.keys(MOCK_TRANSCRIPTS);
+  return languages[seed % languages.length];
+};
+
+export const mockDetectAudioLanguage = (seed: number): LanguageDetectionResult => ({
+  detected_language: mockSpokenLanguage(seed, AUTO_DETECT),
+  confidence: (80 + (seed % 19)) / 100
+});
+
+export const mockTranscribe = (
+  seed: number,
+  requestedLanguage: string,
+  timestamps: TranscriptionTimestamps
+): TranscriptionResult => {
+  const language = mockSpokenLanguage(seed, requestedLanguage);
+  const script = MOCK_TRANSCRIPTS[language];
+  const sentences = script.slice(0, 1 + (seed % script.length));
+
+  let time = 0;
+  const segments: TranscriptionSegment[] = sentences.map((text, id) => {
+    const start = time;
+    const words = text.split(/\s+/).map((word, i) => ({
+      word,
+      start: start + i * WORD_DURATION_S,
+      end: start + (i + 1) * WORD_DURATION_S,
+      confidence: 0.9
+    }));
+    time = words[words.length - 1].end + SEGMENT_GAP_S;
+    return { id, start, end: words[words.length - 1].end, text, confidence: 0.9, words };
+  });
+
+  const result: TranscriptionResult = {
+    text: sentences.join(' '),
+    language,
+    confidence: (85 + (seed % 14)) / 100,
+    duration: Math.round(Math.max(0, time - SEGMENT_GAP_S) * 1000) / 1000
+  };
+
+  if (timestamps === 'segment') {
+    result.segments = segments.map(({ words, ...segment }) => segment);
+  } else if (timestamps === 'word') {
+    result.segments = segments;
+    result.words = segments.flatMap(segment => segment.words ?? []);
+  }
+  return result;
+};
+
+// One soft tone per word, pitched by the word's hash, so playback is audibly "speech-shaped"
+export const mockSpeech = (request: SynthesisRequest): Blob => {
+  const speed = request.speed ?? 1;
+  const pitch = request.pitch ?? 1;
+  const volume = Math.min(1, Math.max(0, request.volume ?? 1));
+  const words = request.text.split(/\s+/).filter(Boolean).slice(0, 200);
+
+  const chunks: Int16Array[] = words.map((word) => {
+    const duration = Math.min(0.6, 0.08 + word.length * 0.05) / speed;
+    const gap = 0.05 / speed;
+    const frequency = (170 + (hashString(word) % 120)) * pitch;
+    const length = Math.round((duration + gap) * SPEECH_SAMPLE_RATE);
+    const toneLength = Math.round(duration * SPEECH_SAMPLE_RATE);
+    const samples = new Int16Array(length);
+
+    for (let i = 0; i < toneLength; i++) {
+      const envelope = Math.sin((Math.PI * i) / toneLength);
+      const value = Math.sin((2 * Math.PI * frequency * i) / SPEECH_SAMPLE_RATE) * envelope * 0.3 * volume;
+      samples[i] = Math.round(value * 32767);
+    }
+    return samples;
+  });
+
+  if (chunks.length === 0) {
+    chunks.push(new Int16Array(SPEECH_SAMPLE_RATE / 2));
+  }
+
+  return encodeWav(concatPcm(chunks), SPEECH_SAMPLE_RATE);
+};
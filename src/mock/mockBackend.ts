@@ -0,0 +1,153 @@
+import { AppConfig, MockSettings } from '../types/config';
+import { ServiceName, SynthesisRequest, TranscriptionTimestamps } from '../types/api';
+import { detectLanguageHeuristic } from '../utils/languageDetection';
+import { MOCK_LANGUAGES, MOCK_VOICES } from './data';
+import {
+  hashString,
+  mockDetectAudioLanguage,
+  mockSpeech,
+  mockTranscribe,
+  mockTranslate
+} from './handlers';
+import { MockWebSocket } from './MockWebSocket';
+
+type MockHandler = (request: Request) => Promise<Response>;
+
+const MOCK_VERSION = 'mock-1.0.0';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const errorResponse = (status: number, message: string, service: ServiceName) =>
+  jsonResponse({ error: message, status_code: status, service, timestamp: new Date().toISOString() }, status);
+
+// Simulated network latency with +/-25% jitter that still honours AbortSignal
+const simulateLatency = (settings: MockSettings, signal: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    const abort = () => reject(new DOMException('The operation was aborted.', 'AbortError'));
+    if (signal?.aborted) {
+      abort();
+      return;
+    }
+    const timer = window.setTimeout(resolve, settings.latencyMs * (0.75 + Math.random() * 0.5));
+    signal?.addEventListener('abort', () => {
+      window.clearTimeout(timer);
+      abort();
+    }, { once: true });
+  });
+
+const audioSeed = (form: FormData) => {
+  const file = form.get('file');
+  return file instanceof File ? hashString(`${file.name}:${file.size}`) : 0;
+};
+
+const createRoutes = (settings: MockSettings): Record<ServiceName, Record<string, MockHandler>> => {
+  const health = (service: ServiceName): MockHandler => async () => jsonResponse({
+    status: 'healthy',
+    service,
+    version: MOCK_VERSION,
+    timestamp: new Date().toISOString()
+  });
+
+  return {
+    translation: {
+      'GET /health': health('translation'),
+      'GET /api/v1/languages': async () => jsonResponse({ supported_languages: MOCK_LANGUAGES }),
+      'POST /api/v1/translate': async (request) => {
+        const { text, source_language, target_language } = await request.json();
+        return jsonResponse(mockTranslate(text, source_language, target_language));
+      },
+      'POST /api/v1/translate/batch': async (request) => {
+        const { text, source_language, target_languages } = await request.json();
+        const translations: Record<string, unknown> = {};
+        const errors: Record<string, string> = {};
+        (target_languages as string[]).forEach((target) => {
+          if (Math.random() < settings.failureRate) {
+            errors[target] = 'Mock translation failure';
+          } else {
+            translations[target] = mockTranslate(text, source_language, target);
+          }
+        });
+        return jsonResponse({ translations, errors });
+      },
+      'POST /api/v1/feedback': async () => jsonResponse({ id: `mock-feedback-${Date.now()}` }, 201),
+      'POST /api/v1/detect': async (request) => {
+        const { text } = await request.json();
+        return jsonResponse(detectLanguageHeuristic(text));
+      }
+    },
+    stt: {
+      'GET /health': health('stt'),
+      'POST /api/v1/transcribe': async (request) => {
+        const form = await request.formData();
+        const language = String(form.get('language') ?? 'auto');
+        const timestamps = String(form.get('timestamps') ?? 'none') as TranscriptionTimestamps;
+        return jsonResponse(mockTranscribe(audioSeed(form), language, timestamps));
+      },
+      'POST /api/v1/detect-language': async (request) =>
+        jsonResponse(mockDetectAudioLanguage(audioSeed(await request.formData())))
+    },
+    tts: {
+      'GET /health': health('tts'),
+      'GET /api/v1/voices': async () => jsonResponse({ voices: MOCK_VOICES }),
+      'POST /api/v1/synthesize': async (request) =>
+        new Response(mockSpeech(await request.json() as SynthesisRequest), { headers: { 'Content-Type': 'audio/wav' } }),
+      'POST /api/v1/preview': async (request) => {
+        const { language, text } = await request.json();
+        return new Response(mockSpeech({ text, language, voice: 'preview' }), { headers: { 'Content-Type': 'audio/wav' } });
+      }
+    }
+  };
+};
+
+// Intercepts fetch and WebSocket traffic to the configured services so the app runs without a backend
+export const installMockBackend = (config: AppConfig) => {
+  const settings = config.mock;
+  const routes = createRoutes(settings);
+  const services = Object.entries(config.api) as [ServiceName, string][];
+  const nativeFetch = window.fetch.bind(window);
+  const NativeWebSocket = window.WebSocket;
+
+  const matchService = (url: string) => {
+    for (const [service, baseUrl] of services) {
+      if (url === baseUrl || url.startsWith(`${baseUrl}/`)) {
+        return { service, path: url.slice(baseUrl.length).split('?')[0] || '/' };
+      }
+    }
+    return null;
+  };
+
+  window.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input, init);
+    const match = matchService(request.url);
+    if (!match) {
+      return nativeFetch(input, init);
+    }
+
+    await simulateLatency(settings, request.signal);
+
+    const handler = routes[match.service][`${request.method} ${match.path}`];
+    if (!handler) {
+      return errorResponse(404, `No mock for ${request.method} ${match.path}`, match.service);
+    }
+    if (Math.random() < settings.failureRate) {
+      return errorResponse(503, 'Mock service unavailable', match.service);
+    }
+    return handler(request);
+  };
+
+  // MockWebSocket implements only the part of the WebSocket interface the app uses, so this factory
+  // can't be typed as the full constructor; callers only ever see it through that subset
+  const MockAwareWebSocket = function (url: string | URL, protocols?: string | string[]) {
+    return String(url) === config.streamingUrl
+      ? new MockWebSocket(url, settings)
+      : new NativeWebSocket(url, protocols);
+  } as unknown as typeof WebSocket;
+  Object.assign(MockAwareWebSocket, {
+    CONNECTING: MockWebSocket.CONNECTING,
+    OPEN: MockWebSocket.OPEN,
+    CLOSING: MockWebSocket.CLOSING,
+    CLOSED: MockWebSocket.CLOSED
+  });
+  window.WebSocket = MockAwareWebSocket;
+};
@@ -0,0 +1,82 @@
+// Minimal promise wrapper around the app's IndexedDB database.
+// Add new object stores to STORES and bump DB_VERSION; missing stores are created on upgrade.
+
+const DB_NAME = 'creole-translator';
+const DB_VERSION = 5;
+
+export type StoreName =
+  | 'history'
+  | 'phrases'
+  | 'phraseAudio'
+  | 'requestQueue'
+  | 'glossaries'
+  | 'corrections';
+
+const STORES: Record<StoreName, IDBObjectStoreParameters> = {
+  history: { keyPath: 'id' },
+  phrases: { keyPath: 'id' },
+  phraseAudio: { keyPath: 'phraseId' },
+  requestQueue: { keyPath: 'id' },
+  glossaries: { keyPath: 'id' },
+  corrections: { keyPath: 'id' }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        (Object.keys(STORES) as StoreName[]).forEach((name) => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, STORES[name]);
+          }
+        });
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(name, mode);
+  return requestToPromise(operation(transaction.objectStore(name)));
+};
+
+export const getAll = <T>(name: StoreName): Promise<T[]> =>
+  withStore(name, 'readonly', store => store.getAll() as IDBRequest<T[]>);
+
+export const getOne = <T>(name: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+  withStore(name, 'readonly', store => store.get(key) as IDBRequest<T | undefined>);
+
+export const putOne = async <T>(name: StoreName, value: T): Promise<void> => {
+  await withStore(name, 'readwrite', store => store.put(value));
+};
+
+export const deleteOne = async (name: StoreName, key: IDBValidKey): Promise<void> => {
+  await withStore(name, 'readwrite', store => store.delete(key));
+};
+
+export const clearStore = async (name: StoreName): Promise<void> => {
+  await withStore(name, 'readwrite', store => store.clear());
+};
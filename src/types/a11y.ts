@@ -0,0 +1,14 @@
+export type ShortcutId = 'translate' | 'swap' | 'record' | 'play' | 'help';
+
+// Letters are matched on the physical key (event.code) because Alt changes the typed character on macOS
+export interface KeyCombo {
+  code: string;
+  label: string;
+  primary?: boolean;
+  alt?: boolean;
+  shift?: boolean;
+  // Plain keys like "?" would clash with typing, so they only fire outside text fields
+  outsideFields?: boolean;
+}
+
+export type Politeness = 'polite' | 'assertive';
@@ -34,13 +34,53 @@ export interface BatchTranslationRequest {
 
 export interface BatchTranslationResult {
   translations: Record<string, TranslationResult>;
+  errors?: Record<string, string>; // per-target failures, keyed by language code
 }
 
+// Reviewer correction of a machine translation, sent to /api/v1/feedback
+export interface TranslationFeedback {
+  source_text: string;
+  source_language: string;
+  target_language: string;
+  machine_translation: string;
+  corrected_translation: string;
+  confidence: number;
+}
+
+export interface LanguageDetectionResult {
+  detected_language: string;
+  confidence: number;
+}
+
+export interface DetectedLanguage extends LanguageDetectionResult {
+  method: 'service' | 'heuristic';
+}
+
+export interface TranscriptionWord {
+  word: string;
+  start: number; // seconds
+  end: number; // seconds
+  confidence?: number;
+}
+
+export interface TranscriptionSegment {
+  id?: number;
+  start: number; // seconds
+  end: number; // seconds
+  text: string;
+  confidence?: number;
+  words?: TranscriptionWord[];
+}
+
+export type TranscriptionTimestamps = 'none' | 'segment' | 'word';
+
 export interface TranscriptionResult {
   text: string;
   language: string;
   confidence: number;
   duration: number;
+  segments?: TranscriptionSegment[];
+  words?: TranscriptionWord[];
 }
 
 export interface SynthesisRequest {
@@ -52,20 +92,82 @@ export interface SynthesisRequest {
   volume?: number;
 }
 
-export interface WebSocketMessage {
-  type: 'audio_chunk' | 'config' | 'stop';
-  data?: string;
+// Streaming protocol (/api/v1/stream)
+
+export interface StreamConfig {
+  language?: string;
+  sample_rate?: number;
+  encoding?: string;
+  interim_results?: boolean;
+}
+
+export interface AudioChunkMessage {
+  type: 'audio_chunk';
+  data: string;
+}
+
+export interface ConfigMessage {
+  type: 'config';
+  data: string; // JSON-encoded StreamConfig
+}
+
+export interface StopMessage {
+  type: 'stop';
+}
+
+export type WebSocketMessage = AudioChunkMessage | ConfigMessage | StopMessage;
+
+export interface ConnectedResponse {
+  type: 'connected';
+  data: {
+    session_id?: string;
+    message?: string;
+  };
 }
 
-export interface WebSocketResponse {
-  type: 'connected' | 'partial_transcript' | 'final_transcript' | 'error';
-  data: any;
+export interface PartialTranscriptResponse {
+  type: 'partial_transcript';
+  data: {
+    text: string;
+    language?: string;
+    confidence?: number;
+  };
 }
 
+export interface FinalTranscriptResponse {
+  type: 'final_transcript';
+  data: {
+    text: string;
+    language: string;
+    confidence: number;
+  };
+}
+
+export interface ErrorResponse {
+  type: 'error';
+  data: {
+    message: string;
+    code?: string;
+  };
+}
+
+export type WebSocketResponse =
+  | ConnectedResponse
+  | PartialTranscriptResponse
+  | FinalTranscriptResponse
+  | ErrorResponse;
+
+export type WebSocketResponseType = WebSocketResponse['type'];
+
+export type WebSocketResponseOf<T extends WebSocketResponseType> = Extract<WebSocketResponse, { type: T }>;
+
+export type ServiceName = 'translation' | 'stt' | 'tts';
+
 export interface APIError {
   error: string;
   status_code: number;
   timestamp: string;
+  service?: ServiceName;
 }
 
 export interface ServiceHealth {
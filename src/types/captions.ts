@@ -0,0 +1,28 @@
+export interface CaptionLine {
+  id: string;
+  text: string;
+  language: string;
+  translations: Record<string, string>; // target language -> translated text
+  start: number; // milliseconds since the session started
+  end: number; // milliseconds
+}
+
+export interface PartialCaption {
+  text: string;
+  translations: Record<string, string>;
+}
+
+export interface CaptionSession {
+  id: string;
+  sourceLanguage: string;
+  targetLanguages: string[];
+  startedAt: string;
+  endedAt?: string;
+  lines: CaptionLine[];
+}
+
+export interface CaptionSpeechSettings {
+  enabled: boolean;
+  language: string;
+  voice: string;
+}
@@ -0,0 +1,45 @@
+import { ServiceName } from './api';
+
+export interface FeatureToggles {
+  speechToText: boolean;
+  textToSpeech: boolean;
+  streaming: boolean;
+  conversation: boolean;
+  history: boolean;
+  phrasebook: boolean;
+  multiTarget: boolean;
+  subtitles: boolean;
+  timedTranscript: boolean;
+  glossary: boolean;
+  liveCaptions: boolean;
+}
+
+export type FeatureName = keyof FeatureToggles;
+
+export interface AppDefaults {
+  sourceLanguage: string;
+  targetLanguage: string;
+  voice: string;
+}
+
+// In-browser mock backend for demos and offline development
+export interface MockSettings {
+  enabled: boolean;
+  latencyMs: number;
+  failureRate: number; // 0..1, share of requests answered with a 503
+}
+
+export interface ReviewSettings {
+  confidenceThreshold: number; // results below this are flagged for review
+  sendFeedback: boolean; // also POST saved corrections to /api/v1/feedback
+}
+
+// Validated config with URLs resolved against the page
+export interface AppConfig {
+  api: Record<ServiceName, string>;
+  streamingUrl: string;
+  features: FeatureToggles;
+  defaults: AppDefaults;
+  mock: MockSettings;
+  review: ReviewSettings;
+}
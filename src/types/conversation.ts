@@ -0,0 +1,29 @@
+import { LocalizedMessage } from './i18n';
+
+export type Speaker = 'a' | 'b';
+
+export interface ConversationParty {
+  label: string;
+  language: string;
+  voice: string;
+}
+
+export type ConversationTurnStatus =
+  | 'transcribing'
+  | 'translating'
+  | 'speaking'
+  | 'done'
+  | 'error';
+
+export interface ConversationTurn {
+  id: string;
+  speaker: Speaker;
+  sourceLanguage: string;
+  targetLanguage: string;
+  originalText: string;
+  translatedText: string;
+  confidence?: number;
+  status: ConversationTurnStatus;
+  error?: LocalizedMessage;
+  timestamp: string;
+}
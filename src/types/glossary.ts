@@ -0,0 +1,37 @@
+export interface GlossaryTerm {
+  id: string;
+  source: string;
+  target: string;
+  caseSensitive?: boolean;
+  note?: string;
+}
+
+export interface Glossary {
+  id: string;
+  name: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  terms: GlossaryTerm[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type GlossaryFileFormat = 'csv' | 'tbx';
+
+// A glossary target term found in a translation, as character offsets
+export interface GlossaryMatch {
+  termId: string;
+  start: number;
+  end: number;
+}
+
+// A protected term present in the source whose required translation is missing from the output
+export interface GlossaryViolation {
+  term: GlossaryTerm;
+  glossaryName: string;
+}
+
+export interface GlossaryReport {
+  matches: GlossaryMatch[];
+  violations: GlossaryViolation[];
+}
@@ -0,0 +1,24 @@
+import { ServiceName } from './api';
+import { LocalizedMessage } from './i18n';
+
+// HTTP services plus the /api/v1/stream socket
+export type MonitoredService = ServiceName | 'streaming';
+
+export type ServiceState = 'unknown' | 'healthy' | 'degraded' | 'down';
+
+export interface ServiceStatus {
+  service: MonitoredService;
+  state: ServiceState;
+  lastChecked: string | null; // ISO timestamp
+  latencyMs: number | null;
+  version: string | null;
+  error: LocalizedMessage | null;
+}
+
+export interface Outage {
+  id: string;
+  service: MonitoredService;
+  startedAt: string;
+  endedAt: string | null; // null while ongoing
+  error: LocalizedMessage | null;
+}
@@ -0,0 +1,14 @@
+export type HistoryEntryKind = 'translation' | 'transcription';
+
+export interface HistoryEntry {
+  id: string;
+  kind: HistoryEntryKind;
+  sourceLanguage: string;
+  targetLanguage?: string;
+  input: string;
+  output: string;
+  confidence?: number;
+  timestamp: string;
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'timestamp'>;
@@ -0,0 +1,16 @@
+import type { MessageKey } from '../i18n/messages/en';
+
+export type UiLanguage = 'ht' | 'fr' | 'en';
+
+// Plural forms follow Intl.PluralRules categories; "other" is always required
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type Message = string | PluralMessage;
+
+export type MessageParams = Record<string, string | number>;
+
+// Hooks and API helpers return these instead of text; components translate them when rendering
+export interface LocalizedMessage {
+  key: MessageKey;
+  params?: MessageParams;
+}
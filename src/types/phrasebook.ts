@@ -0,0 +1,26 @@
+export interface Phrase {
+  id: string;
+  category: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  sourceText: string;
+  translatedText: string;
+  voice: string;
+  createdAt: string;
+}
+
+export interface PhraseAudio {
+  phraseId: string;
+  voice: string;
+  blob: Blob;
+}
+
+export interface ExportedPhrase extends Phrase {
+  audio?: string; // data URL of the cached clip
+}
+
+export interface PhrasebookExport {
+  version: 1;
+  exportedAt: string;
+  phrases: ExportedPhrase[];
+}
@@ -0,0 +1,30 @@
+import { TranslationResult, TranscriptionResult } from './api';
+
+export type QueuedRequestStatus = 'pending' | 'running' | 'failed';
+
+interface QueuedRequestBase {
+  id: string;
+  status: QueuedRequestStatus;
+  attempts: number;
+  error?: string;
+  createdAt: string;
+}
+
+export interface QueuedTranslation extends QueuedRequestBase {
+  kind: 'translation';
+  text: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+export interface QueuedTranscription extends QueuedRequestBase {
+  kind: 'transcription';
+  file: File;
+  language: string;
+}
+
+export type QueuedRequest = QueuedTranslation | QueuedTranscription;
+
+export type QueuedRequestResult =
+  | { kind: 'translation'; request: QueuedTranslation; result: TranslationResult }
+  | { kind: 'transcription'; request: QueuedTranscription; result: TranscriptionResult };
@@ -0,0 +1,20 @@
+export type FeedbackStatus = 'local' | 'sent' | 'failed';
+
+export interface Correction {
+  id: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  sourceText: string;
+  machineTranslation: string;
+  correctedTranslation: string;
+  confidence: number;
+  feedbackStatus: FeedbackStatus;
+  createdAt: string;
+}
+
+export type NewCorrection = Omit<Correction, 'id' | 'createdAt' | 'feedbackStatus'>;
+
+export interface DiffPart {
+  type: 'equal' | 'removed' | 'added';
+  text: string;
+}
@@ -0,0 +1,20 @@
+export type AppTab =
+  | 'translate'
+  | 'speech'
+  | 'tts'
+  | 'conversation'
+  | 'captions'
+  | 'history'
+  | 'phrasebook'
+  | 'multiTarget'
+  | 'subtitles'
+  | 'timedTranscript'
+  | 'glossary';
+
+// Everything a URL can carry; missing parts keep the current (or default) value
+export interface AppRoute {
+  tab: AppTab;
+  sourceLanguage?: string;
+  targetLanguage?: string;
+  text?: string;
+}
@@ -0,0 +1,10 @@
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleCue {
+  id: string;
+  identifier?: string; // SRT sequence number or WebVTT cue identifier
+  start: number; // milliseconds
+  end: number; // milliseconds
+  settings?: string; // WebVTT cue settings, e.g. "align:start line:0"
+  text: string;
+}
@@ -0,0 +1,5 @@
+export interface SentenceSpan {
+  text: string;
+  start: number; // offset of the first character in the source text
+  end: number; // offset just past the last character
+}
@@ -0,0 +1,24 @@
+import { SynthesisRequest } from './api';
+
+export type SpeechSettings = Required<Pick<SynthesisRequest, 'speed' | 'pitch' | 'volume'>>;
+
+export interface VoicePreferences {
+  // Preferred voice id per language code
+  voices: Record<string, string>;
+  settings: SpeechSettings;
+}
+
+export interface VoiceFilters {
+  gender: string;
+  age: string;
+  query: string;
+}
+
+export interface AudioClip {
+  blob: Blob;
+  fileName: string;
+}
+
+export type SentenceSpeechStatus = 'idle' | 'loading' | 'playing' | 'paused';
+
+export type SentenceClipStatus = 'pending' | 'ready' | 'failed';
@@ -0,0 +1,69 @@
+import { CAPTURE_FORMAT, encodeWav } from './wav';
+
+// Plays a synthesized clip and releases its object URL once playback ends
+export const playBlob = (blob: Blob): Promise<void> => {
+  const audioUrl = URL.createObjectURL(blob);
+  const audio = new Audio(audioUrl);
+
+  return new Promise((resolve) => {
+    const finish = () => {
+      URL.revokeObjectURL(audioUrl);
+      resolve();
+    };
+    audio.onended = finish;
+    audio.onerror = finish;
+    audio.play().catch(finish);
+  });
+};
+
+// Decodes any browser-playable audio/video file into the 16 kHz mono WAV the STT service expects
+export const extractAudioAsWav = async (file: File): Promise<File> => {
+  const decodingContext = new AudioContext();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await decodingContext.decodeAudioData(await file.arrayBuffer());
+  } finally {
+    decodingContext.close().catch(() => undefined);
+  }
+
+  const frameCount = Math.ceil(decoded.duration * CAPTURE_FORMAT.sampleRate);
+  const offline = new OfflineAudioContext(CAPTURE_FORMAT.channels, frameCount, CAPTURE_FORMAT.sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start();
+  const rendered = await offline.startRendering();
+
+  const channel = rendered.getChannelData(0);
+  const samples = new Int16Array(channel.length);
+  channel.forEach((value, i) => {
+    const sample = Math.max(-1, Math.min(1, value));
+    samples[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  });
+
+  const baseName = file.name.replace(/\.[^.]+$/, '') || 'audio';
+  return new File([encodeWav(samples, CAPTURE_FORMAT.sampleRate)], `${baseName}.wav`, { type: 'audio/wav' });
+};
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm'
+};
+
+// e.g. "speech-ht-default-bonjou-koman-ou-ye.wav"
+export const speechFileName = (text: string, language: string, voice: string, type: string): string => {
+  const slug = text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40)
+    .replace(/-+$/, '');
+  const extension = AUDIO_EXTENSIONS[type.split(';')[0]] ?? 'wav';
+  return [`speech-${language}-${voice}`, slug].filter(Boolean).join('-') + `.${extension}`;
+};
@@ -0,0 +1,26 @@
+export const blobToDataURL = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const AUDIO_DATA_URL_PATTERN = /^data:(audio\/[\w.+-]+)(?:;[\w-]+=[\w.-]+)*;base64,([A-Za-z0-9+/]*={0,2})$/;
+
+export const isAudioDataURL = (value: string): boolean => AUDIO_DATA_URL_PATTERN.test(value);
+
+// Decoded locally rather than through fetch(), so an imported file can't make the browser request a URL
+export const dataURLToBlob = (dataURL: string): Blob => {
+  const match = AUDIO_DATA_URL_PATTERN.exec(dataURL);
+  if (!match) {
+    throw new Error('Not a base64 audio data URL');
+  }
+
+  const binary = atob(match[2]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: match[1] });
+};
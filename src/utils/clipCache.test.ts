@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { createClipCache, speechClipKey } from './clipCache';
+
+const clip = (bytes: number) => new Blob([new Uint8Array(bytes)], { type: 'audio/wav' });
+
+describe('speechClipKey', () => {
+  it('treats missing settings as their defaults', () => {
+    const request = { text: 'Bonjou', language: 'ht', voice: 'default' };
+    expect(speechClipKey(request)).toBe(speechClipKey({ ...request, speed: 1, pitch: 1, volume: 1 }));
+    expect(speechClipKey(request)).not.toBe(speechClipKey({ ...request, speed: 1.5 }));
+  });
+});
+
+describe('createClipCache', () => {
+  it('evicts the least recently used clip beyond the entry limit', () => {
+    const cache = createClipCache({ maxEntries: 2, maxBytes: 1000 });
+    const a = clip(10);
+    cache.set('a', a);
+    cache.set('b', clip(10));
+    expect(cache.get('a')).toBe(a);
+
+    cache.set('c', clip(10));
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe(a);
+    expect(cache.get('c')).toBeDefined();
+  });
+
+  it('evicts old clips to stay under the byte limit', () => {
+    const cache = createClipCache({ maxEntries: 10, maxBytes: 100 });
+    cache.set('a', clip(60));
+    cache.set('b', clip(30));
+    cache.set('c', clip(30));
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('b')).toBeDefined();
+    expect(cache.get('c')).toBeDefined();
+  });
+
+  it('skips clips larger than the whole cache', () => {
+    const cache = createClipCache({ maxEntries: 10, maxBytes: 100 });
+    cache.set('a', clip(50));
+    cache.set('huge', clip(101));
+
+    expect(cache.get('huge')).toBeUndefined();
+    expect(cache.get('a')).toBeDefined();
+  });
+
+  it('counts a replaced clip only once', () => {
+    const cache = createClipCache({ maxEntries: 10, maxBytes: 100 });
+    cache.set('a', clip(60));
+    cache.set('a', clip(60));
+    cache.set('b', clip(40));
+
+    expect(cache.get('a')).toBeDefined();
+    expect(cache.get('b')).toBeDefined();
+  });
+
+  it('empties on clear', () => {
+    const cache = createClipCache({ maxEntries: 10, maxBytes: 100 });
+    cache.set('a', clip(80));
+    cache.clear();
+    cache.set('b', clip(80));
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('b')).toBeDefined();
+  });
+});
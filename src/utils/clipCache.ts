@@ -0,0 +1,63 @@
+import { SynthesisRequest } from '../types/api';
+
+interface ClipCacheOptions {
+  maxEntries: number;
+  maxBytes: number;
+}
+
+// Settings are listed explicitly so equivalent requests share a key regardless of property order
+export const speechClipKey = (request: SynthesisRequest): string =>
+  JSON.stringify([
+    request.text,
+    request.language,
+    request.voice,
+    request.speed ?? 1,
+    request.pitch ?? 1,
+    request.volume ?? 1
+  ]);
+
+// Least-recently-used cache of synthesized clips. Only Blobs are kept; players own their object URLs
+export const createClipCache = ({ maxEntries, maxBytes }: ClipCacheOptions) => {
+  const clips = new Map<string, Blob>();
+  let totalBytes = 0;
+
+  const evict = () => {
+    while (clips.size > maxEntries || totalBytes > maxBytes) {
+      const oldest = clips.keys().next();
+      if (oldest.done) return;
+      totalBytes -= clips.get(oldest.value)!.size;
+      clips.delete(oldest.value);
+    }
+  };
+
+  const get = (key: string): Blob | undefined => {
+    const clip = clips.get(key);
+    if (clip) {
+      // Re-insert to mark as most recently used
+      clips.delete(key);
+      clips.set(key, clip);
+    }
+    return clip;
+  };
+
+  const set = (key: string, clip: Blob) => {
+    if (clip.size > maxBytes) return;
+    const existing = clips.get(key);
+    if (existing) {
+      totalBytes -= existing.size;
+      clips.delete(key);
+    }
+    clips.set(key, clip);
+    totalBytes += clip.size;
+    evict();
+  };
+
+  const clear = () => {
+    clips.clear();
+    totalBytes = 0;
+  };
+
+  return { get, set, clear };
+};
+
+export type ClipCache = ReturnType<typeof createClipCache>;
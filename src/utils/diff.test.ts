@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { diffWords } from './diff';
+import { DiffPart } from '../types/review';
+
+// Rebuilds one side of the diff
+const side = (parts: DiffPart[], hidden: DiffPart['type']) =>
+  parts.filter(part => part.type !== hidden).map(part => part.text).join('');
+
+describe('diffWords', () => {
+  it('marks a replaced word as removed then added', () => {
+    expect(diffWords('the cat sat', 'the dog sat')).toEqual([
+      { type: 'equal', text: 'the ' },
+      { type: 'removed', text: 'cat ' },
+      { type: 'added', text: 'dog ' },
+      { type: 'equal', text: 'sat' }
+    ]);
+  });
+
+  it('merges neighbouring changes of the same kind', () => {
+    expect(diffWords('a b', 'a x y b')).toEqual([
+      { type: 'equal', text: 'a ' },
+      { type: 'added', text: 'x y ' },
+      { type: 'equal', text: 'b' }
+    ]);
+  });
+
+  it('treats words that differ only in trailing whitespace as equal', () => {
+    expect(diffWords('Bonjou  zanmi', 'Bonjou zanmi')).toEqual([{ type: 'equal', text: 'Bonjou zanmi' }]);
+  });
+
+  it('handles empty sides', () => {
+    expect(diffWords('', 'new text')).toEqual([{ type: 'added', text: 'new text' }]);
+    expect(diffWords('old text', '')).toEqual([{ type: 'removed', text: 'old text' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+
+  it('can rebuild both texts from the parts', () => {
+    const before = 'Mwen gen yon doulè nan tèt mwen depi yè.';
+    const after = 'Mwen gen gwo doulè nan vant mwen depi maten an.';
+    const parts = diffWords(before, after);
+
+    expect(side(parts, 'added')).toBe(before);
+    expect(side(parts, 'removed')).toBe(after);
+  });
+});
@@ -0,0 +1,27 @@
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadText = (content: string, filename: string, type = 'text/plain') => {
+  downloadBlob(new Blob([content], { type: `${type};charset=utf-8` }), filename);
+};
+
+// RFC 4180 quoting
+export const toCSV = (rows: (string | number | undefined)[][]): string =>
+  rows
+    .map(row =>
+      row
+        .map((value) => {
+          const cell = value === undefined ? '' : String(value);
+          return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+        })
+        .join(',')
+    )
+    .join('\r\n');
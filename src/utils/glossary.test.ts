@@ -0,0 +1,136 @@
+// @vitest-environment jsdom
+// TBX parsing uses the browser's DOMParser
+import { describe, expect, it, vi } from 'vitest';
+import {
+  checkGlossary,
+  findGlossaryMatches,
+  glossaryToCSV,
+  glossaryToTBX,
+  highlightSegments,
+  maskTerms,
+  parseGlossaryCSV,
+  parseGlossaryTBX,
+  translateWithGlossaries,
+  unmaskTerms
+} from './glossary';
+import { Glossary, GlossaryTerm } from '../types/glossary';
+
+const TERMS: GlossaryTerm[] = [
+  { id: 'bp', source: 'blood pressure', target: 'tansyon' },
+  { id: 'hbp', source: 'high blood pressure', target: 'tansyon wo', note: 'Hypertension' },
+  { id: 'how', source: 'kòman', target: 'how', caseSensitive: true }
+];
+
+const GLOSSARY: Glossary = {
+  id: 'g1',
+  name: 'Clinic & "Triage"',
+  sourceLanguage: 'en',
+  targetLanguage: 'ht',
+  terms: TERMS.slice(0, 2),
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+};
+
+// Terms as they come back from a file: fresh ids and no case flag
+const withoutIds = (terms: GlossaryTerm[]) => terms.map(({ source, target, note }) => ({ source, target, note }));
+
+describe('maskTerms and unmaskTerms', () => {
+  it('replaces the longest matching terms with placeholders', () => {
+    const masked = maskTerms('High blood pressure and blood pressure checks', TERMS);
+    expect(masked.text).toBe('__GT0__ and __GT1__ checks');
+    expect(masked.terms.map(term => term.id)).toEqual(['hbp', 'bp']);
+  });
+
+  it('only matches whole words, including accented ones, and honours case sensitivity', () => {
+    expect(maskTerms('bloodpressure', TERMS).text).toBe('bloodpressure');
+    expect(maskTerms('kòmanse Kòman kòman', TERMS).text).toBe('kòmanse Kòman __GT0__');
+  });
+
+  it('restores target terms even when the engine mangles placeholder spacing', () => {
+    const masked = maskTerms('Check blood pressure', TERMS);
+    expect(unmaskTerms('Tcheke __ GT0 __', masked)).toBe('Tcheke tansyon');
+    expect(unmaskTerms('Tcheke __GT7__', masked)).toBe('Tcheke __GT7__');
+  });
+});
+
+describe('checkGlossary', () => {
+  it('reports matches in the translation and source terms it failed to respect', () => {
+    const report = checkGlossary('High blood pressure', 'Tansyon li wo', [GLOSSARY]);
+    expect(report.matches).toEqual([{ termId: 'bp', start: 0, end: 7 }]);
+    expect(report.violations).toEqual([{ term: TERMS[1], glossaryName: GLOSSARY.name }]);
+  });
+});
+
+describe('highlightSegments', () => {
+  it('splits text into plain and highlighted runs', () => {
+    const text = 'Li gen tansyon wo';
+    expect(highlightSegments(text, findGlossaryMatches(text, TERMS))).toEqual([
+      { text: 'Li gen ' },
+      { text: 'tansyon wo', termId: 'hbp' }
+    ]);
+  });
+});
+
+describe('translateWithGlossaries', () => {
+  it('translates masked text and puts the required terms back', async () => {
+    const translate = vi.fn(async (text: string, source: string, target: string) => ({
+      translated_text: text.replace('Check', 'Tcheke'),
+      source_language: source,
+      target_language: target,
+      confidence: 0.9
+    }));
+
+    const { result, report } = await translateWithGlossaries('Check blood pressure', 'en', 'ht', [GLOSSARY], translate);
+
+    expect(translate).toHaveBeenCalledWith('Check __GT0__', 'en', 'ht');
+    expect(result.translated_text).toBe('Tcheke tansyon');
+    expect(report.violations).toEqual([]);
+  });
+});
+
+describe('CSV files', () => {
+  it('round-trips terms, quoting commas, quotes and line breaks', () => {
+    const terms = [
+      ...TERMS.slice(0, 2),
+      { id: 'x', source: 'dose, "daily"', target: 'dòz\nchak jou' }
+    ];
+    const csv = glossaryToCSV({ ...GLOSSARY, terms });
+    expect(withoutIds(parseGlossaryCSV(csv))).toEqual(withoutIds(terms));
+  });
+
+  it('accepts files without a header, with a BOM and CRLF line endings, and skips incomplete rows', () => {
+    const terms = parseGlossaryCSV('﻿fever,lafyèv\r\ncough,\r\n\r\n pain , doulè ,Any site\r\n');
+    expect(withoutIds(terms)).toEqual([
+      { source: 'fever', target: 'lafyèv', note: undefined },
+      { source: 'pain', target: 'doulè', note: 'Any site' }
+    ]);
+  });
+});
+
+describe('TBX files', () => {
+  it('writes one escaped term entry per term', () => {
+    const tbx = glossaryToTBX(GLOSSARY);
+    expect(tbx).toContain('<title>Clinic &amp; &quot;Triage&quot;</title>');
+    expect(tbx.match(/<termEntry /g)).toHaveLength(2);
+    expect(tbx).toContain('<descrip type="definition">Hypertension</descrip>');
+    expect(tbx).toContain('<langSet xml:lang="ht"><tig><term>tansyon wo</term></tig></langSet>');
+  });
+
+  it('round-trips terms', () => {
+    const terms = parseGlossaryTBX(glossaryToTBX(GLOSSARY), 'en', 'ht');
+    expect(withoutIds(terms)).toEqual(withoutIds(GLOSSARY.terms));
+  });
+
+  it('matches regional language tags and skips entries missing either language', () => {
+    const tbx = `<?xml version="1.0" encoding="UTF-8"?>
+<martif type="TBX"><text><body>
+  <termEntry><langSet xml:lang="en-US"><tig><term>fever</term></tig></langSet><langSet xml:lang="HT"><tig><term>lafyèv</term></tig></langSet></termEntry>
+  <termEntry><langSet xml:lang="en"><tig><term>cough</term></tig></langSet><langSet xml:lang="fr"><tig><term>toux</term></tig></langSet></termEntry>
+</body></text></martif>`;
+    expect(withoutIds(parseGlossaryTBX(tbx, 'en', 'ht'))).toEqual([{ source: 'fever', target: 'lafyèv', note: undefined }]);
+  });
+
+  it('rejects files that are not XML', () => {
+    expect(() => parseGlossaryTBX('<martif><text>', 'en', 'ht')).toThrow();
+  });
+});
@@ -0,0 +1,223 @@
+import { Glossary, GlossaryMatch, GlossaryReport, GlossaryTerm, GlossaryViolation } from '../types/glossary';
+import { TranslationResult } from '../types/api';
+import { createId } from './id';
+import { toCSV } from './download';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match that also works for accented letters ("kòman") and multi-word terms
+const termPattern = (phrase: string, caseSensitive = false) =>
+  new RegExp(
+    `(?<![\\p{L}\\p{N}])${escapeRegExp(phrase.trim()).replace(/\s+/g, '\\s+')}(?![\\p{L}\\p{N}])`,
+    caseSensitive ? 'gu' : 'giu'
+  );
+
+// Longest terms first so "high blood pressure" wins over "blood pressure"
+const byLength = (field: 'source' | 'target') => (a: GlossaryTerm, b: GlossaryTerm) =>
+  b[field].length - a[field].length;
+
+interface Range {
+  start: number;
+  end: number;
+  term: GlossaryTerm;
+}
+
+const findRanges = (text: string, terms: GlossaryTerm[], field: 'source' | 'target'): Range[] => {
+  const ranges: Range[] = [];
+  [...terms].filter(term => term[field].trim()).sort(byLength(field)).forEach((term) => {
+    for (const match of text.matchAll(termPattern(term[field], term.caseSensitive))) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (!ranges.some(range => start < range.end && end > range.start)) {
+        ranges.push({ start, end, term });
+      }
+    }
+  });
+  return ranges.sort((a, b) => a.start - b.start);
+};
+
+export const findGlossaryMatches = (text: string, terms: GlossaryTerm[]): GlossaryMatch[] =>
+  findRanges(text, terms, 'target').map(({ start, end, term }) => ({ termId: term.id, start, end }));
+
+// Placeholders that MT engines pass through untouched
+const placeholder = (index: number) => `__GT${index}__`;
+const PLACEHOLDER_PATTERN = /__\s*GT\s*(\d+)\s*__/gi;
+
+export interface MaskedText {
+  text: string;
+  terms: GlossaryTerm[]; // indexed by placeholder number
+}
+
+export const maskTerms = (text: string, terms: GlossaryTerm[]): MaskedText => {
+  const ranges = findRanges(text, terms, 'source');
+  let masked = '';
+  let cursor = 0;
+  ranges.forEach((range, i) => {
+    masked += text.slice(cursor, range.start) + placeholder(i);
+    cursor = range.end;
+  });
+  masked += text.slice(cursor);
+  return { text: masked, terms: ranges.map(range => range.term) };
+};
+
+export const unmaskTerms = (translated: string, masked: MaskedText): string =>
+  translated.replace(PLACEHOLDER_PATTERN, (token, index) => masked.terms[Number(index)]?.target ?? token);
+
+export const checkGlossary = (
+  sourceText: string,
+  translatedText: string,
+  glossaries: Glossary[]
+): GlossaryReport => {
+  const terms = glossaries.flatMap(glossary => glossary.terms);
+  const violations: GlossaryViolation[] = [];
+
+  glossaries.forEach((glossary) => {
+    findRanges(sourceText, glossary.terms, 'source').forEach(({ term }) => {
+      const alreadyFlagged = violations.some(violation => violation.term.id === term.id);
+      if (!alreadyFlagged && findRanges(translatedText, [term], 'target').length === 0) {
+        violations.push({ term, glossaryName: glossary.name });
+      }
+    });
+  });
+
+  return { matches: findGlossaryMatches(translatedText, terms), violations };
+};
+
+// Splits text into plain and highlighted runs for rendering
+export const highlightSegments = (text: string, matches: GlossaryMatch[]) => {
+  const segments: { text: string; termId?: string }[] = [];
+  let cursor = 0;
+  matches.forEach((match) => {
+    if (match.start > cursor) segments.push({ text: text.slice(cursor, match.start) });
+    segments.push({ text: text.slice(match.start, match.end), termId: match.termId });
+    cursor = match.end;
+  });
+  if (cursor < text.length) segments.push({ text: text.slice(cursor) });
+  return segments;
+};
+
+// File formats
+
+const CSV_HEADER = ['source', 'target', 'note'];
+
+export const glossaryToCSV = (glossary: Glossary): string =>
+  toCSV([CSV_HEADER, ...glossary.terms.map(term => [term.source, term.target, term.note])]);
+
+// RFC 4180 parsing, the inverse of toCSV
+const parseCSV = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(value => value.trim()));
+};
+
+export const parseGlossaryCSV = (content: string): GlossaryTerm[] => {
+  const rows = parseCSV(content.replace(/^\uFEFF/, ''));
+  const hasHeader = rows[0]?.[0]?.trim().toLowerCase() === 'source';
+  return (hasHeader ? rows.slice(1) : rows)
+    .filter(([source, target]) => source?.trim() && target?.trim())
+    .map(([source, target, note]) => ({
+      id: createId(),
+      source: source.trim(),
+      target: target.trim(),
+      note: note?.trim() || undefined
+    }));
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Minimal TBX-Basic document: one termEntry per glossary term
+export const glossaryToTBX = (glossary: Glossary): string => {
+  const entries = glossary.terms.map(term => [
+    `      <termEntry id="${escapeXml(term.id)}">`,
+    term.note ? `        <descrip type="definition">${escapeXml(term.note)}</descrip>` : null,
+    `        <langSet xml:lang="${escapeXml(glossary.sourceLanguage)}"><tig><term>${escapeXml(term.source)}</term></tig></langSet>`,
+    `        <langSet xml:lang="${escapeXml(glossary.targetLanguage)}"><tig><term>${escapeXml(term.target)}</term></tig></langSet>`,
+    '      </termEntry>'
+  ].filter(Boolean).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<martif type="TBX" xml:lang="${escapeXml(glossary.sourceLanguage)}">`,
+    `  <martifHeader><fileDesc><titleStmt><title>${escapeXml(glossary.name)}</title></titleStmt></fileDesc></martifHeader>`,
+    '  <text>',
+    '    <body>',
+    ...entries,
+    '    </body>',
+    '  </text>',
+    '</martif>',
+    ''
+  ].join('\n');
+};
+
+export const parseGlossaryTBX = (content: string, sourceLanguage: string, targetLanguage: string): GlossaryTerm[] => {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.querySelector('parsererror')) {
+    throw new Error('Glossary file is not valid XML');
+  }
+
+  const language = (element: Element) =>
+    (element.getAttribute('xml:lang') ?? element.getAttribute('lang') ?? '').toLowerCase().split(/[-_]/)[0];
+
+  const terms: GlossaryTerm[] = [];
+  doc.querySelectorAll('termEntry').forEach((entry) => {
+    const termFor = (code: string) => {
+      const langSet = Array.from(entry.querySelectorAll('langSet')).find(set => language(set) === code);
+      return langSet?.querySelector('term')?.textContent?.trim() ?? '';
+    };
+    const source = termFor(sourceLanguage);
+    const target = termFor(targetLanguage);
+    if (source && target) {
+      const note = entry.querySelector('descrip')?.textContent?.trim();
+      terms.push({ id: createId(), source, target, note: note || undefined });
+    }
+  });
+  return terms;
+};
+
+// Masks protected source terms, translates, then restores the required target terms
+export const translateWithGlossaries = async (
+  text: string,
+  sourceLanguage: string,
+  targetLanguage: string,
+  glossaries: Glossary[],
+  translate: (text: string, sourceLanguage: string, targetLanguage: string) => Promise<TranslationResult>
+): Promise<{ result: TranslationResult; report: GlossaryReport }> => {
+  const masked = maskTerms(text, glossaries.flatMap(glossary => glossary.terms));
+  const raw = await translate(masked.text, sourceLanguage, targetLanguage);
+  const result = { ...raw, translated_text: unmaskTerms(raw.translated_text, masked) };
+  return { result, report: checkGlossary(text, result.translated_text, glossaries) };
+};
@@ -0,0 +1,47 @@
+import { LanguageDetectionResult } from '../types/api';
+
+export const AUTO_DETECT = 'auto';
+
+const STOPWORDS: Record<string, string[]> = {
+  en: [
+    'the', 'and', 'is', 'are', 'you', 'to', 'of', 'in', 'it', 'that', 'what', 'where', 'how', 'this',
+    'with', 'have', 'my', 'your', 'for', 'not', 'do', 'does', 'hello', 'please', 'thank', 'i', 'we'
+  ],
+  fr: [
+    'le', 'la', 'les', 'et', 'est', 'vous', 'je', 'de', 'des', 'un', 'une', 'que', 'qui', 'pas', 'pour',
+    'dans', 'avec', 'où', 'comment', 'suis', 'sont', 'bonjour', 'merci', 'au', 'du', 'ce', 'il', 'elle'
+  ],
+  ht: [
+    'mwen', 'ou', 'li', 'nou', 'yo', 'se', 'pa', 'ki', 'kote', 'kijan', 'koman', 'bonjou', 'mèsi', 'gen',
+    'fè', 'sa', 'nan', 'ak', 'pou', 'tanpri', 'kounye', 'anpil', 'konsa', 'byen', 'ye', 'm', 'w', 'l', 'kòman'
+  ]
+};
+
+const HEURISTIC_MAX_CONFIDENCE = 0.85;
+
+// Offline fallback for en/fr/ht based on function words and orthography
+export const detectLanguageHeuristic = (text: string): LanguageDetectionResult => {
+  const tokens = text.toLowerCase().match(/[\p{L}]+/gu) ?? [];
+  const scores: Record<string, number> = { en: 0, fr: 0, ht: 0 };
+
+  tokens.forEach((token) => {
+    Object.entries(STOPWORDS).forEach(([language, words]) => {
+      if (words.includes(token)) {
+        scores[language] += 1;
+      }
+    });
+  });
+
+  // Kreyòl uses ò/è but never é/ç; French uses the opposite set
+  if (/[òè]/.test(text) && !/[éçêâîûù]/.test(text)) scores.ht += 2;
+  if (/[éçêâîûùœ]/.test(text)) scores.fr += 2;
+  if (/\b\w+'(s|t|re|ll|ve)\b/i.test(text)) scores.en += 1;
+
+  const total = Object.values(scores).reduce((sum, score) => sum + score, 0);
+  const [language, best] = Object.entries(scores).sort((a, b) => b[1] - a[1])[0];
+
+  return {
+    detected_language: total === 0 ? 'en' : language,
+    confidence: total === 0 ? 0 : Math.min(HEURISTIC_MAX_CONFIDENCE, best / total)
+  };
+};
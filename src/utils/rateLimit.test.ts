@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createDedupedTranslator, createRateLimiter } from './rateLimit';
+
+// A task that stays running until its resolver is called
+const deferred = () => {
+  let resolve!: (value: string) => void;
+  const promise = new Promise<string>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubGlobal('window', globalThis);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('createRateLimiter', () => {
+  it('never runs more tasks at once than the concurrency allows', async () => {
+    const limiter = createRateLimiter({ concurrency: 2 });
+    const tasks = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const results = tasks.map((task, i) => limiter.schedule(() => {
+      started.push(i);
+      return task.promise;
+    }));
+
+    await vi.runAllTimersAsync();
+    expect(started).toEqual([0, 1]);
+
+    tasks[0].resolve('a');
+    await vi.runAllTimersAsync();
+    expect(started).toEqual([0, 1, 2]);
+
+    tasks[1].resolve('b');
+    tasks[2].resolve('c');
+    await expect(Promise.all(results)).resolves.toEqual(['a', 'b', 'c']);
+  });
+
+  it('spaces task starts by the minimum interval', async () => {
+    const limiter = createRateLimiter({ concurrency: 5, minIntervalMs: 100 });
+    const startTimes: number[] = [];
+    const begin = Date.now();
+
+    const results = [0, 1, 2].map(() => limiter.schedule(async () => {
+      startTimes.push(Date.now() - begin);
+    }));
+
+    await vi.runAllTimersAsync();
+    await Promise.all(results);
+    expect(startTimes).toEqual([0, 100, 200]);
+  });
+
+  it('rejects waiting tasks on clear and lets running ones finish', async () => {
+    const limiter = createRateLimiter({ concurrency: 1 });
+    const running = deferred();
+    const first = limiter.schedule(() => running.promise);
+    const second = limiter.schedule(async () => 'never');
+    await vi.runAllTimersAsync();
+
+    limiter.clear();
+    await expect(second).rejects.toThrow('Cancelled');
+
+    running.resolve('done');
+    await expect(first).resolves.toBe('done');
+  });
+});
+
+describe('createDedupedTranslator', () => {
+  it('sends each distinct text once and shares the result', async () => {
+    const translate = vi.fn(async (text: string) => text.toUpperCase());
+    const translator = createDedupedTranslator(translate, { concurrency: 2 });
+
+    const results = Promise.all(['Yes.', 'No.', 'Yes.'].map(translator.translate));
+    await vi.runAllTimersAsync();
+
+    await expect(results).resolves.toEqual(['YES.', 'NO.', 'YES.']);
+    expect(translate).toHaveBeenCalledTimes(2);
+  });
+
+  it('sends a text again after it failed', async () => {
+    const translate = vi.fn()
+      .mockRejectedValueOnce(new Error('Service unavailable'))
+      .mockResolvedValueOnce('WI.');
+    const translator = createDedupedTranslator(translate, { concurrency: 1 });
+
+    const first = translator.translate('Yes.');
+    await vi.runAllTimersAsync();
+    await expect(first).rejects.toThrow('Service unavailable');
+
+    const second = translator.translate('Yes.');
+    await vi.runAllTimersAsync();
+    await expect(second).resolves.toBe('WI.');
+    expect(translate).toHaveBeenCalledTimes(2);
+  });
+});
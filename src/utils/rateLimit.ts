@@ -0,0 +1,74 @@
+interface RateLimiterOptions {
+  concurrency: number;
+  minIntervalMs?: number;
+}
+
+interface WaitingTask {
+  start: () => void;
+  reject: (reason: Error) => void;
+}
+
+// Runs scheduled tasks with bounded concurrency and a minimum gap between task starts
+export const createRateLimiter = ({ concurrency, minIntervalMs = 0 }: RateLimiterOptions) => {
+  const waiting: WaitingTask[] = [];
+  let active = 0;
+  let lastStart = 0;
+
+  const next = () => {
+    if (active >= concurrency || waiting.length === 0) return;
+
+    const delay = Math.max(0, lastStart + minIntervalMs - Date.now());
+    active++;
+    lastStart = Date.now() + delay;
+    const { start } = waiting.shift()!;
+    window.setTimeout(start, delay);
+  };
+
+  const schedule = <T>(task: () => Promise<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      waiting.push({
+        start: () => {
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              active--;
+              next();
+            });
+        },
+        reject
+      });
+      next();
+    });
+
+  // Rejects tasks that have not started yet; running tasks are left to finish
+  const clear = () => {
+    waiting.splice(0).forEach(({ reject }) => reject(new Error('Cancelled')));
+  };
+
+  return { schedule, clear };
+};
+
+// Subtitle and transcript cues: a few requests at a time, spaced out so long files don't trip rate limits
+export const CUE_TRANSLATION_LIMITS: RateLimiterOptions = { concurrency: 3, minIntervalMs: 150 };
+
+// Rate-limited text translation where repeated texts ("Yes.", "Thank you.") are only sent once
+export const createDedupedTranslator = (
+  translate: (text: string) => Promise<string>,
+  options: RateLimiterOptions = CUE_TRANSLATION_LIMITS
+) => {
+  const limiter = createRateLimiter(options);
+  const pending = new Map<string, Promise<string>>();
+
+  const translateOnce = (text: string): Promise<string> => {
+    let result = pending.get(text);
+    if (!result) {
+      result = limiter.schedule(() => translate(text));
+      pending.set(text, result);
+      // A failed text can be sent again later in the same run
+      result.catch(() => pending.delete(text));
+    }
+    return result;
+  };
+
+  return { translate: translateOnce, clear: limiter.clear };
+};
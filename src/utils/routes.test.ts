@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildRoutePath, buildShareUrl, parseRoute, ROUTE_PATHS } from './routes';
+import { AppTab } from '../types/routes';
+
+const parse = (url: string) => {
+  const { pathname, search } = new URL(url, 'https://app.example.org');
+  return parseRoute({ pathname, search });
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('parseRoute', () => {
+  it('reads the tab from the path and languages and text from the query', () => {
+    expect(parse('/multi-target/?from=en&to=ht&text=Good%20morning')).toEqual({
+      tab: 'multiTarget',
+      sourceLanguage: 'en',
+      targetLanguage: 'ht',
+      text: 'Good morning'
+    });
+  });
+
+  it('opens the translate tab for the root and unknown paths', () => {
+    expect(parse('/').tab).toBe('translate');
+    expect(parse('/settings').tab).toBe('translate');
+  });
+
+  it('ignores malformed language codes and empty text', () => {
+    expect(parse('/translate?from=<script>&to=pt-BR&text=')).toEqual({
+      tab: 'translate',
+      sourceLanguage: undefined,
+      targetLanguage: 'pt-BR',
+      text: undefined
+    });
+  });
+});
+
+describe('buildRoutePath', () => {
+  it('leaves out the query when there is nothing to share', () => {
+    expect(buildRoutePath({ tab: 'glossary' })).toBe('/glossary');
+  });
+
+  it('round-trips every tab with languages and text', () => {
+    (Object.keys(ROUTE_PATHS) as AppTab[]).forEach((tab) => {
+      const route = { tab, sourceLanguage: 'fr', targetLanguage: 'ht', text: 'Ça va? 100% & plus' };
+      expect(parse(buildRoutePath(route))).toEqual(route);
+    });
+  });
+});
+
+describe('buildShareUrl', () => {
+  it('is absolute on the page origin', () => {
+    vi.stubGlobal('window', { location: new URL('https://app.example.org/history?x=1') });
+    expect(buildShareUrl({ tab: 'translate', targetLanguage: 'ht' })).toBe('https://app.example.org/translate?to=ht');
+  });
+});
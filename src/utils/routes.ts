@@ -0,0 +1,51 @@
+import { AppRoute, AppTab } from '../types/routes';
+
+export const ROUTE_PATHS: Record<AppTab, string> = {
+  translate: '/translate',
+  speech: '/speech-to-text',
+  tts: '/text-to-speech',
+  conversation: '/conversation',
+  captions: '/live-captions',
+  history: '/history',
+  phrasebook: '/phrasebook',
+  multiTarget: '/multi-target',
+  subtitles: '/subtitles',
+  timedTranscript: '/timed-transcript',
+  glossary: '/glossary'
+};
+
+// Longer texts make links that some browsers and chat apps truncate
+export const MAX_SHARED_TEXT_LENGTH = 2000;
+
+const LANGUAGE_PATTERN = /^[A-Za-z]{2,8}(-[A-Za-z0-9]{1,8})*$/;
+
+const readLanguage = (params: URLSearchParams, name: string) => {
+  const value = params.get(name);
+  return value && LANGUAGE_PATTERN.test(value) ? value : undefined;
+};
+
+// Unknown paths (including "/") open the translate tab
+export const parseRoute = (location: Pick<Location, 'pathname' | 'search'>): AppRoute => {
+  const path = location.pathname.replace(/\/+$/, '') || '/';
+  const tab = (Object.keys(ROUTE_PATHS) as AppTab[]).find(key => ROUTE_PATHS[key] === path) ?? 'translate';
+  const params = new URLSearchParams(location.search);
+
+  return {
+    tab,
+    sourceLanguage: readLanguage(params, 'from'),
+    targetLanguage: readLanguage(params, 'to'),
+    text: params.get('text') || undefined
+  };
+};
+
+export const buildRoutePath = ({ tab, sourceLanguage, targetLanguage, text }: AppRoute): string => {
+  const params = new URLSearchParams();
+  if (sourceLanguage) params.set('from', sourceLanguage);
+  if (targetLanguage) params.set('to', targetLanguage);
+  if (text) params.set('text', text);
+  const query = params.toString();
+  return query ? `${ROUTE_PATHS[tab]}?${query}` : ROUTE_PATHS[tab];
+};
+
+export const buildShareUrl = (route: AppRoute): string =>
+  new URL(buildRoutePath(route), window.location.origin).href;
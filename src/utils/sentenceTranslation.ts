@@ -0,0 +1,49 @@
+import { TranslationResult } from '../types/api';
+import { createRateLimiter } from './rateLimit';
+import { splitSentences } from './sentences';
+
+type Translate = (text: string, sourceLanguage: string, targetLanguage: string) => Promise<TranslationResult>;
+
+const SENTENCE_CONCURRENCY = 4;
+
+// Translates each sentence separately and stitches the results back together with the original
+// spacing and line breaks. Unchanged sentences are answered from the translation cache, so editing
+// one sentence of a long text only sends that sentence to the service
+export const translateBySentence = async (
+  text: string,
+  sourceLanguage: string,
+  targetLanguage: string,
+  translate: Translate
+): Promise<TranslationResult> => {
+  const sentences = splitSentences(text);
+  if (sentences.length <= 1) return translate(text, sourceLanguage, targetLanguage);
+
+  const limiter = createRateLimiter({ concurrency: SENTENCE_CONCURRENCY });
+  const results = await Promise.all(sentences.map(sentence =>
+    limiter.schedule(() => translate(sentence.text, sourceLanguage, targetLanguage))
+  )).catch((err) => {
+    // One failed sentence fails the whole text; don't start the rest
+    limiter.clear();
+    throw err;
+  });
+
+  let translated = text.slice(0, sentences[0].start);
+  results.forEach((result, i) => {
+    translated += result.translated_text;
+    translated += text.slice(sentences[i].end, sentences[i + 1]?.start ?? text.length);
+  });
+
+  // Longer sentences weigh more in the overall confidence
+  const totalLength = sentences.reduce((sum, sentence) => sum + sentence.text.length, 0);
+  const confidence = results.reduce(
+    (sum, result, i) => sum + result.confidence * sentences[i].text.length,
+    0
+  ) / totalLength;
+
+  return {
+    translated_text: translated,
+    source_language: results[0].source_language,
+    target_language: results[0].target_language,
+    confidence
+  };
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { splitSentences } from './sentences';
+
+const texts = (input: string, maxLength?: number) => splitSentences(input, maxLength).map(span => span.text);
+
+describe('splitSentences', () => {
+  it('splits on terminators and records offsets into the original text', () => {
+    const input = '  Bonjou! Kijan ou ye?  Mwen byen.';
+    const spans = splitSentences(input);
+
+    expect(spans.map(span => span.text)).toEqual(['Bonjou!', 'Kijan ou ye?', 'Mwen byen.']);
+    spans.forEach(span => expect(input.slice(span.start, span.end)).toBe(span.text));
+  });
+
+  it('keeps closing quotes, including French spaced guillemets, with their sentence', () => {
+    expect(texts('He said "Stop." Then left.')).toEqual(['He said "Stop."', 'Then left.']);
+    expect(texts('Il a dit « Attendez. » Puis il est parti.')).toEqual(['Il a dit « Attendez. »', 'Puis il est parti.']);
+  });
+
+  it('does not split after abbreviations or initials', () => {
+    expect(texts('Dr. Pierre and Mme. Joseph met J. Smith. They talked.'))
+      .toEqual(['Dr. Pierre and Mme. Joseph met J. Smith.', 'They talked.']);
+  });
+
+  it('does not split before a lower-case word', () => {
+    expect(texts('« Oui ! » dit-il. Bon.')).toEqual(['« Oui ! » dit-il.', 'Bon.']);
+  });
+
+  it('ends a sentence at every line break', () => {
+    expect(texts('Ingredients\n- rice\n\n- beans')).toEqual(['Ingredients', '- rice', '- beans']);
+  });
+
+  it('cuts over-long sentences at a clause boundary, then at a word boundary', () => {
+    expect(texts('one two three, four five six', 20)).toEqual(['one two three,', 'four five six']);
+    expect(texts('alpha beta gamma delta epsilon', 12)).toEqual(['alpha beta', 'gamma delta', 'epsilon']);
+  });
+
+  it('keeps offsets correct for pieces of a long sentence', () => {
+    const input = 'alpha beta gamma delta epsilon';
+    splitSentences(input, 12).forEach(span => expect(input.slice(span.start, span.end)).toBe(span.text));
+  });
+
+  it('returns nothing for blank text', () => {
+    expect(splitSentences(' \n\t ')).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+import { SentenceSpan } from '../types/text';
+
+export const MAX_SENTENCE_LENGTH = 400;
+
+// A run of terminators plus any closing quotes or brackets; French puts a (narrow) space before »
+const TERMINATOR_PATTERN = /[.!?…]+(?:[»”’"')\]]|\s+»)*(?=\s|$)/g;
+
+// Dotted abbreviations only, lower-cased and without the dot; ordinary words such as "Msye" or "no"
+// would glue real sentences together. Single letters (initials) are handled separately
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'jr', 'sr', 'vs', 'etc', 'ex', 'cf',
+  'mm', 'mme', 'mmes', 'mlle', 'mlles', 'av', 'bd', 'env'
+]);
+
+const isAbbreviation = (before: string) => {
+  const word = before.match(/(\p{L}+)$/u)?.[1];
+  return word !== undefined && (word.length === 1 || ABBREVIATIONS.has(word.toLowerCase()));
+};
+
+// Cuts an over-long sentence at a clause boundary, or failing that at a word boundary
+const splitLong = (span: SentenceSpan, maxLength: number): SentenceSpan[] => {
+  const pieces: SentenceSpan[] = [];
+  let { text, start } = span;
+
+  while (text.length > maxLength) {
+    const window = text.slice(0, maxLength);
+    const clause = Math.max(window.lastIndexOf(', '), window.lastIndexOf('; '), window.lastIndexOf(': '));
+    const space = window.lastIndexOf(' ');
+    const cut = clause >= maxLength / 2 ? clause + 1 : space > 0 ? space : maxLength;
+    const head = text.slice(0, cut).trimEnd();
+    pieces.push({ text: head, start, end: start + head.length });
+
+    const rest = text.slice(cut);
+    const skipped = rest.length - rest.trimStart().length;
+    start += cut + skipped;
+    text = rest.trimStart();
+  }
+
+  if (text) pieces.push({ text, start, end: start + text.length });
+  return pieces;
+};
+
+// Splits English, French and Haitian Creole text into sentences with their offsets in the original text.
+// Line breaks always end a sentence so lists and headings are read separately
+export const splitSentences = (text: string, maxLength = MAX_SENTENCE_LENGTH): SentenceSpan[] => {
+  const sentences: SentenceSpan[] = [];
+
+  const push = (from: number, to: number) => {
+    const raw = text.slice(from, to);
+    const trimmed = raw.trim();
+    if (!trimmed) return;
+    const start = from + raw.indexOf(trimmed);
+    sentences.push(...splitLong({ text: trimmed, start, end: start + trimmed.length }, maxLength));
+  };
+
+  for (const line of text.matchAll(/[^\n]+/g)) {
+    const lineText = line[0];
+    const offset = line.index ?? 0;
+    let start = 0;
+
+    for (const match of lineText.matchAll(TERMINATOR_PATTERN)) {
+      const index = match.index ?? 0;
+      const end = index + match[0].length;
+
+      // A single full stop after an abbreviation doesn't end the sentence
+      if (match[0].startsWith('.') && match[0].replace(/[^.]/g, '').length === 1 &&
+        isAbbreviation(lineText.slice(start, index))) continue;
+      // Neither does any terminator followed by a lower-case word, as in «Oui !» dit-il
+      if (/^\s*\p{Ll}/u.test(lineText.slice(end))) continue;
+
+      push(offset + start, offset + end);
+      start = end;
+    }
+
+    push(offset + start, offset + lineText.length);
+  }
+
+  return sentences;
+};
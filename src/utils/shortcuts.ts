@@ -0,0 +1,34 @@
+import { KeyCombo, ShortcutId } from '../types/a11y';
+
+export const SHORTCUTS: Record<ShortcutId, KeyCombo> = {
+  translate: { code: 'Enter', label: 'Enter', primary: true },
+  swap: { code: 'KeyS', label: 'S', alt: true, shift: true },
+  record: { code: 'KeyR', label: 'R', alt: true, shift: true },
+  play: { code: 'KeyP', label: 'P', alt: true, shift: true },
+  help: { code: 'Slash', label: '?', shift: true, outsideFields: true }
+};
+
+export const isMacPlatform = () => /Mac|iPhone|iPad/.test(navigator.platform);
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement
+  && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+export const matchesShortcut = (event: KeyboardEvent, combo: KeyCombo): boolean => {
+  const primary = isMacPlatform() ? event.metaKey : event.ctrlKey;
+  return event.code === combo.code
+    && primary === !!combo.primary
+    && event.altKey === !!combo.alt
+    && event.shiftKey === !!combo.shift
+    && !(combo.outsideFields && isEditable(event.target));
+};
+
+// "?" already implies Shift, so it is shown on its own
+export const shortcutKeys = (combo: KeyCombo): string[] => {
+  const keys: string[] = [];
+  if (combo.primary) keys.push(isMacPlatform() ? '⌘' : 'Ctrl');
+  if (combo.alt) keys.push(isMacPlatform() ? '⌥' : 'Alt');
+  if (combo.shift && combo.code !== 'Slash') keys.push('Shift');
+  keys.push(combo.label);
+  return keys;
+};
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectSubtitleFormat,
+  formatSubtitles,
+  formatTimestamp,
+  parseSubtitles,
+  parseTimestamp,
+  transcriptionToCues
+} from './subtitles';
+import { TranscriptionResult } from '../types/api';
+
+const SRT = `1
+00:00:01,000 --> 00:00:03,500
+Hello there.
+
+2
+00:00:04,000 --> 00:00:06,250
+How are you?
+Fine, thanks.
+`;
+
+const VTT = `WEBVTT
+
+NOTE written by hand
+
+intro
+00:01.000 --> 00:03.500 align:start position:10%
+Hello there.
+
+00:00:04.000 --> 00:00:06.250
+How are you?
+`;
+
+describe('parseTimestamp', () => {
+  it('reads SRT and WebVTT timestamps, with or without hours', () => {
+    expect(parseTimestamp('01:02:03,456')).toBe(3723456);
+    expect(parseTimestamp('01:02:03.456')).toBe(3723456);
+    expect(parseTimestamp('02:03.5')).toBe(123500);
+  });
+});
+
+describe('formatTimestamp', () => {
+  it('uses a comma for SRT and a dot for WebVTT', () => {
+    expect(formatTimestamp(3723456, 'srt')).toBe('01:02:03,456');
+    expect(formatTimestamp(3723456, 'vtt')).toBe('01:02:03.456');
+  });
+
+  it('clamps negative times to zero', () => {
+    expect(formatTimestamp(-20, 'srt')).toBe('00:00:00,000');
+  });
+});
+
+describe('detectSubtitleFormat', () => {
+  it('recognizes WebVTT by header or file extension', () => {
+    expect(detectSubtitleFormat(VTT)).toBe('vtt');
+    expect(detectSubtitleFormat('', 'clip.VTT')).toBe('vtt');
+    expect(detectSubtitleFormat(SRT, 'clip.srt')).toBe('srt');
+  });
+});
+
+describe('parseSubtitles', () => {
+  it('parses SRT cues with multi-line text', () => {
+    const cues = parseSubtitles(SRT.replace(/\n/g, '\r\n'));
+    expect(cues).toHaveLength(2);
+    expect(cues[1]).toMatchObject({ identifier: '2', start: 4000, end: 6250, text: 'How are you?\nFine, thanks.' });
+  });
+
+  it('skips WebVTT headers and notes and keeps identifiers and settings', () => {
+    const cues = parseSubtitles(VTT);
+    expect(cues).toHaveLength(2);
+    expect(cues[0]).toMatchObject({ identifier: 'intro', start: 1000, end: 3500, settings: 'align:start position:10%' });
+    expect(cues[1].identifier).toBeUndefined();
+  });
+
+  it('rejects files without cues', () => {
+    expect(() => parseSubtitles('WEBVTT\n\nNOTE nothing here\n')).toThrow();
+  });
+});
+
+describe('formatSubtitles', () => {
+  it('round-trips SRT unchanged', () => {
+    expect(formatSubtitles(parseSubtitles(SRT), 'srt')).toBe(SRT);
+  });
+
+  it('round-trips WebVTT cues with their timing, identifiers and settings', () => {
+    const cues = parseSubtitles(VTT);
+    expect(parseSubtitles(formatSubtitles(cues, 'vtt'))).toEqual(cues);
+  });
+
+  it('renumbers SRT cues whose identifiers are not numbers', () => {
+    const srt = formatSubtitles(parseSubtitles(VTT), 'srt');
+    expect(srt.startsWith('1\n00:00:01,000 --> 00:00:03,500\nHello there.')).toBe(true);
+    expect(srt).not.toContain('align:start');
+  });
+});
+
+describe('transcriptionToCues', () => {
+  const result = (fields: Partial<TranscriptionResult>): TranscriptionResult =>
+    ({ text: '', language: 'en', confidence: 1, duration: 0, ...fields });
+
+  it('prefers server segments', () => {
+    const cues = transcriptionToCues(result({
+      text: 'Hello. Bye.',
+      duration: 3,
+      segments: [{ start: 0, end: 1.5, text: ' Hello. ' }, { start: 1.5, end: 3, text: 'Bye.' }]
+    }));
+    expect(cues.map(cue => [cue.start, cue.end, cue.text])).toEqual([[0, 1500, 'Hello.'], [1500, 3000, 'Bye.']]);
+  });
+
+  it('groups word timings into sentences', () => {
+    const cues = transcriptionToCues(result({
+      text: 'Hi there. Bye.',
+      duration: 2,
+      words: [
+        { word: 'Hi', start: 0, end: 0.4 },
+        { word: 'there.', start: 0.4, end: 0.9 },
+        { word: 'Bye.', start: 1.2, end: 1.6 }
+      ]
+    }));
+    expect(cues.map(cue => cue.text)).toEqual(['Hi there.', 'Bye.']);
+    expect(cues[1]).toMatchObject({ start: 1200, end: 1600 });
+  });
+
+  it('falls back to one cue spanning the recording', () => {
+    const cues = transcriptionToCues(result({ text: ' Hello ', duration: 2 }));
+    expect(cues).toEqual([{ id: 'cue-1', start: 0, end: 2000, text: 'Hello' }]);
+  });
+});
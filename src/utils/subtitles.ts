@@ -0,0 +1,146 @@
+import { SubtitleCue, SubtitleFormat } from '../types/subtitles';
+import { TranscriptionResult, TranscriptionWord } from '../types/api';
+
+const TIMING_PATTERN = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})(.*)$/;
+
+export const parseTimestamp = (value: string): number => {
+  const [clock, fraction = '0'] = value.trim().split(/[.,]/);
+  const parts = clock.split(':').map(Number);
+  while (parts.length < 3) {
+    parts.unshift(0);
+  }
+  const [hours, minutes, seconds] = parts;
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000 + Number(fraction.padEnd(3, '0').slice(0, 3));
+};
+
+export const formatTimestamp = (ms: number, format: SubtitleFormat): string => {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${format === 'srt' ? ',' : '.'}${pad(millis, 3)}`;
+};
+
+export const detectSubtitleFormat = (content: string, fileName = ''): SubtitleFormat => {
+  if (/^﻿?WEBVTT/.test(content) || fileName.toLowerCase().endsWith('.vtt')) {
+    return 'vtt';
+  }
+  return 'srt';
+};
+
+// Parses SRT or WebVTT; header, NOTE, STYLE and REGION blocks are skipped
+export const parseSubtitles = (content: string): SubtitleCue[] => {
+  const blocks = content
+    .replace(/^﻿/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n[ \t]*\n/);
+
+  const cues: SubtitleCue[] = [];
+  blocks.forEach((block) => {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => TIMING_PATTERN.test(line));
+    if (timingIndex === -1) return;
+
+    const [, start, end, settings] = lines[timingIndex].match(TIMING_PATTERN)!;
+    const identifier = lines.slice(0, timingIndex).join(' ').trim();
+    cues.push({
+      id: `cue-${cues.length + 1}`,
+      identifier: identifier || undefined,
+      start: parseTimestamp(start),
+      end: parseTimestamp(end),
+      settings: settings.trim() || undefined,
+      text: lines.slice(timingIndex + 1).join('\n').trim()
+    });
+  });
+
+  if (cues.length === 0) {
+    throw new Error('No subtitle cues found');
+  }
+  return cues;
+};
+
+export const formatSubtitles = (cues: SubtitleCue[], format: SubtitleFormat): string => {
+  if (format === 'srt') {
+    return cues
+      .map((cue, i) => [
+        // SRT requires sequential numbers; keep the original when it is one
+        /^\d+$/.test(cue.identifier ?? '') ? cue.identifier : String(i + 1),
+        `${formatTimestamp(cue.start, 'srt')} --> ${formatTimestamp(cue.end, 'srt')}`,
+        cue.text
+      ].join('\n'))
+      .join('\n\n') + '\n';
+  }
+
+  const body = cues
+    .map(cue => [
+      cue.identifier,
+      `${formatTimestamp(cue.start, 'vtt')} --> ${formatTimestamp(cue.end, 'vtt')}${cue.settings ? ` ${cue.settings}` : ''}`,
+      cue.text
+    ].filter(line => line !== undefined).join('\n'))
+    .join('\n\n');
+  return `WEBVTT\n\n${body}\n`;
+};
+
+const MAX_CUE_DURATION_MS = 6000;
+const MAX_CUE_CHARACTERS = 84;
+
+const groupWordsIntoCues = (words: TranscriptionWord[]): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  let current: TranscriptionWord[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    cues.push({
+      id: `cue-${cues.length + 1}`,
+      start: current[0].start * 1000,
+      end: current[current.length - 1].end * 1000,
+      text: current.map(word => word.word.trim()).join(' ')
+    });
+    current = [];
+  };
+
+  words.forEach((word) => {
+    const text = [...current, word].map(item => item.word.trim()).join(' ');
+    const duration = current.length > 0 ? (word.end - current[0].start) * 1000 : 0;
+    if (current.length > 0 && (duration > MAX_CUE_DURATION_MS || text.length > MAX_CUE_CHARACTERS)) {
+      flush();
+    }
+    current.push(word);
+    if (/[.!?]$/.test(word.word.trim())) {
+      flush();
+    }
+  });
+  flush();
+
+  return cues;
+};
+
+// Prefers server segments, then word timings, then a single cue spanning the whole recording
+export const transcriptionToCues = (result: TranscriptionResult): SubtitleCue[] => {
+  if (result.segments && result.segments.length > 0) {
+    return result.segments.map((segment, i) => ({
+      id: `cue-${i + 1}`,
+      start: segment.start * 1000,
+      end: segment.end * 1000,
+      text: segment.text.trim()
+    }));
+  }
+
+  if (result.words && result.words.length > 0) {
+    return groupWordsIntoCues(result.words);
+  }
+
+  return [{
+    id: 'cue-1',
+    start: 0,
+    end: Math.max(result.duration, 1) * 1000,
+    text: result.text.trim()
+  }];
+};
+
+export const formatPlainTranscript = (cues: SubtitleCue[], withTimestamps = false): string =>
+  cues
+    .map(cue => (withTimestamps ? `[${formatTimestamp(cue.start, 'vtt')}] ${cue.text}` : cue.text))
+    .join('\n') + '\n';
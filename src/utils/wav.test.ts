@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { CAPTURE_FORMAT, concatPcm, encodeWav, pcmToBase64, pcmToBytes } from './wav';
+
+const SAMPLES = new Int16Array([0, 1, -1, 32767, -32768]);
+
+const ascii = (view: DataView, offset: number, length: number) =>
+  String.fromCharCode(...new Uint8Array(view.buffer, offset, length));
+
+describe('concatPcm', () => {
+  it('joins chunks in order', () => {
+    expect(Array.from(concatPcm([new Int16Array([1, 2]), new Int16Array(0), new Int16Array([3])]))).toEqual([1, 2, 3]);
+  });
+});
+
+describe('pcmToBytes', () => {
+  it('writes little-endian 16-bit samples', () => {
+    expect(Array.from(pcmToBytes(SAMPLES))).toEqual([0, 0, 1, 0, 0xff, 0xff, 0xff, 0x7f, 0x00, 0x80]);
+  });
+});
+
+describe('pcmToBase64', () => {
+  it('encodes the little-endian bytes', () => {
+    expect(pcmToBase64(new Int16Array([1, -1]))).toBe('AQD//w==');
+  });
+});
+
+describe('encodeWav', () => {
+  it('writes a 44-byte PCM header followed by the samples', async () => {
+    const blob = encodeWav(SAMPLES, CAPTURE_FORMAT.sampleRate);
+    const view = new DataView(await blob.arrayBuffer());
+
+    expect(blob.type).toBe('audio/wav');
+    expect(view.byteLength).toBe(44 + SAMPLES.length * 2);
+    expect(ascii(view, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(view.byteLength - 8);
+    expect(ascii(view, 8, 8)).toBe('WAVEfmt ');
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(16000);
+    expect(view.getUint32(28, true)).toBe(32000);
+    expect(view.getUint16(32, true)).toBe(2);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(ascii(view, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(SAMPLES.length * 2);
+    expect(Array.from(new Int16Array(view.buffer.slice(44)))).toEqual(Array.from(SAMPLES));
+  });
+
+  it('accounts for the channel count in the byte rate and block align', async () => {
+    const view = new DataView(await encodeWav(new Int16Array(4), 44100, 2).arrayBuffer());
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(28, true)).toBe(44100 * 4);
+    expect(view.getUint16(32, true)).toBe(4);
+  });
+});
@@ -0,0 +1,69 @@
+// Little-endian 16-bit PCM helpers for the STT upload and streaming paths
+
+// Format expected by /api/v1/transcribe and /api/v1/stream
+export const CAPTURE_FORMAT = {
+  sampleRate: 16000,
+  channels: 1,
+  encoding: 'pcm_s16le'
+} as const;
+
+const WAV_HEADER_SIZE = 44;
+
+const writeString = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+};
+
+export const concatPcm = (chunks: Int16Array[]): Int16Array => {
+  const length = chunks.reduce((total, chunk) => total + chunk.length, 0);
+  const samples = new Int16Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    samples.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return samples;
+};
+
+const writePcm = (view: DataView, offset: number, samples: Int16Array) => {
+  samples.forEach((sample, i) => view.setInt16(offset + i * 2, sample, true));
+};
+
+export const pcmToBytes = (samples: Int16Array): Uint8Array => {
+  const buffer = new ArrayBuffer(samples.length * 2);
+  writePcm(new DataView(buffer), 0, samples);
+  return new Uint8Array(buffer);
+};
+
+export const pcmToBase64 = (samples: Int16Array): string => {
+  const bytes = pcmToBytes(samples);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+export const encodeWav = (samples: Int16Array, sampleRate: number, channels = 1): Blob => {
+  const dataSize = samples.length * 2;
+  const buffer = new ArrayBuffer(WAV_HEADER_SIZE + dataSize);
+  const view = new DataView(buffer);
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true); // PCM fmt chunk size
+  view.setUint16(20, 1, true); // PCM format
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * 2, true); // byte rate
+  view.setUint16(32, channels * 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+  writePcm(view, WAV_HEADER_SIZE, samples);
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
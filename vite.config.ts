@@ -1,8 +1,26 @@
-import { defineConfig } from 'vite'
+import { defineConfig, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Lists the hashed build assets so the service worker (public/sw.js) can precache them on install
+const precacheManifest = (): Plugin => ({
+  name: 'precache-manifest',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const assets = Object.keys(bundle)
+      .filter((fileName) => /^assets\//.test(fileName))
+      .map((fileName) => `/${fileName}`)
+      .sort()
+    this.emitFile({
+      type: 'asset',
+      fileName: 'precache-manifest.js',
+      source: `self.PRECACHE_ASSETS = ${JSON.stringify(assets)};\n`
+    })
+  }
+})
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
   server: {
     port: 3000,
     host: true
@@ -10,4 +28,4 @@ export default defineConfig({
   build: {
     outDir: 'dist'
   }
-})
\ No newline at end of file
+})